@@ -1,13 +1,95 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ChatInterface from './components/ChatInterface';
-import MolecularViewer from './components/MolecularViewer';
+import MolecularViewer, { ViewerExporter } from './components/MolecularViewer';
 import AnalysisPanel from './components/AnalysisPanel';
 import EvaluationPanel from './components/EvaluationPanel';
 import LandingPage from './components/LandingPage';
-import { Message, Sender, MolecularState, CommandType, SimulationData, Project, SimulationStage, EvaluationMetrics } from './types';
-import { parseUserIntent, generateAnalysisSummary, getValidationMethodology } from './services/geminiService';
-import { FlaskConical, LayoutDashboard, Info, Github, ChevronUp, ChevronDown, Home, Timer, Thermometer, Activity, Terminal, ShieldCheck } from 'lucide-react';
+import SimulationSetup from './components/SimulationSetup';
+import VersionControl from './components/VersionControl';
+import AssistantSettings from './components/AssistantSettings';
+import { Message, Sender, MolecularState, Command, CommandParams, CommandType, ConversationTurn, Project, EvaluationMetrics, ActiveMetadata, ParsedStructure, SimulationProtocol, SimulationCheckpoint, ProjectSession, ProjectWorkspace, AtomRef, Measurement, ComparedStructure, RepresentationLayer } from './types';
+import { parseUserIntent, generateAnalysisSummary, getValidationMethodology, StreamOptions } from './services/assistantService';
+import { buildConversationContext, rememberTurn } from './services/conversationMemory';
+import { computeSimulationStatistics } from './services/simulationAnalysis';
+import { createProvider, LLM_PROVIDERS, loadLLMSettings, LLMSettings, saveLLMSettings } from './services/llmProviders';
+import { readStructureFile, STRUCTURE_FILE_ACCEPT } from './services/structureFiles';
+import { restoreSimulation, SimulationCallbacks, SimulationHandle, startSimulation } from './services/simulationService';
+import { deleteProjectData, loadSession, loadWorkspace, saveSession, saveWorkspace, toPersistedState } from './services/projectStore';
+import { exportProjectArchive, importProjectArchive } from './services/projectArchive';
+import { checkoutRevision, commitProject, deleteRepository, ProjectRevision, pushProject } from './services/projectRepository';
+import { DEFAULT_RMSD_SETTINGS } from './services/trajectory';
+import { describeSelection, resolveSelection, selectAtoms } from './services/atomSelection';
+import { describeMeasurement, measureAtoms, measurementKindFor, measurementSeries, parseAtomSpec, resolveAtomSpec } from './services/measurements';
+import { applyLayerAction, describeLayer } from './services/representationLayers';
+import { ExportedMedia } from './services/mediaExport';
+import { compareStructures, describeComparison, fetchComparedCoordinates, sameComparedStructure } from './services/structureComparison';
+import { parseStructure } from './services/structureModel';
+import { importTrajectory } from './services/trajectoryImport';
+import { DEFAULT_PROTOCOL } from './services/mdEngine';
+import { describeProtocol, randomSeed, resolveExtension, resolveProtocol } from './services/simulationProtocol';
+import { FlaskConical, LayoutDashboard, Info, GitBranch, Bot, ChevronUp, ChevronDown, Home, Timer, Thermometer, Activity, Terminal, ShieldCheck, Upload, SlidersHorizontal, Pause, Play, Square, History, X } from 'lucide-react';
+
+// Minimum gap between writes to IndexedDB; runs update state every frame
+const SAVE_INTERVAL_MS = 1500;
+
+// Workspace shown while no project is selected (e.g. after deleting the active one); it is never saved
+const NO_PROJECT = '';
+
+// How long a multi-step plan waits for a structure to load before giving up on the remaining steps
+const STRUCTURE_LOAD_TIMEOUT_MS = 120000;
+
+const initialMolecularState = (pdbId: string): MolecularState => ({
+  pdbId,
+  representation: 'cartoon',
+  colorScheme: 'chainid',
+  isSpinning: false,
+  simulationRunning: false,
+  simulationProgress: 0,
+  simulationStage: 'minimization',
+  simulationPaused: false,
+  simulationData: [],
+  simulationLogs: [],
+  trajectory: undefined,
+  rmsdSettings: DEFAULT_RMSD_SETTINGS,
+  protocol: { ...DEFAULT_PROTOCOL, seed: randomSeed() },
+  activeMetadata: undefined,
+  parsedStructure: undefined
+});
+
+const createMessage = (text: string, sender: Sender): Message => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, // Several messages can be created in the same millisecond
+  text,
+  sender,
+  timestamp: Date.now()
+});
+
+const createWorkspace = (molecularState: MolecularState, messages: Message[]): ProjectWorkspace => ({
+  messages,
+  turns: [],
+  molecularState,
+  historyOffset: 0,
+  hasInterruptedRun: false
+});
+
+// A project's stored session, or a fresh workspace for its structure when nothing was saved
+const workspaceFromSession = (project: Project, session: ProjectSession | null): ProjectWorkspace => ({
+  messages: session && session.messages.length > 0
+      ? session.messages.map(({ isStreaming: _streaming, ...message }) => message) // Saved while a reply was streaming
+      : [createMessage(`Loaded project: ${project.name}. Structure ${project.pdbId} is ready.`, Sender.System)],
+  turns: session?.turns ?? [],
+  molecularState: {
+      ...initialMolecularState(project.pdbId),
+      structureSource: project.structureSource,
+      localStructure: project.localStructure,
+      ...session?.state,
+      trajectory: session?.trajectory
+  },
+  historyOffset: session?.historyOffset ?? 0,
+  hasInterruptedRun: !!session?.interrupted && !!session.state.checkpoint && !session.state.checkpoint.finished
+});
+
+const EMPTY_WORKSPACE = createWorkspace(initialMolecularState(''), []);
 
 const App: React.FC = () => {
   // Navigation State
@@ -21,38 +103,95 @@ const App: React.FC = () => {
   ]);
   const [activeProjectId, setActiveProjectId] = useState<string | null>('p1');
 
+  // Workspaces of the projects opened in this tab, keyed by project id; projects not yet opened are loaded on select
+  const [workspaces, setWorkspaces] = useState<Record<string, ProjectWorkspace>>(() => ({
+    p1: createWorkspace(initialMolecularState('1UBQ'), [ // Default start
+      { id: '1', text: "Hello! I'm your Molecular Simulation Assistant. I can run AlphaFold predictions on sequences or simulate PDB structures. Try 'Load PDB 1CRN' or paste a sequence.", sender: Sender.AI, timestamp: Date.now() }
+    ])
+  }));
+  const workspaceKey = activeProjectId ?? NO_PROJECT;
+  const { messages, molecularState, historyOffset, hasInterruptedRun } = workspaces[workspaceKey] ?? EMPTY_WORKSPACE;
+
   // App State
-  const [messages, setMessages] = useState<Message[]>([
-    { id: '1', text: "Hello! I'm your Molecular Simulation Assistant. I can run AlphaFold predictions on sequences or simulate PDB structures. Try 'Load PDB 1CRN' or paste a sequence.", sender: Sender.AI, timestamp: Date.now() }
-  ]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false); // A model reply is streaming; the chat offers to stop it
   const [viewMode, setViewMode] = useState<'viewer' | 'analysis' | 'evaluation'>('viewer');
-  const [evalExplanation, setEvalExplanation] = useState('');
-  const [isPushingToGithub, setIsPushingToGithub] = useState(false);
-  
-  // Molecular State
-  const [molecularState, setMolecularState] = useState<MolecularState>({
-    pdbId: '1UBQ', // Default start
-    representation: 'cartoon',
-    colorScheme: 'chainid',
-    isSpinning: false,
-    simulationRunning: false,
-    simulationProgress: 0,
-    simulationStage: 'minimization',
-    simulationData: [],
-    simulationLogs: [],
-    activeMetadata: undefined
+  const [isSetupOpen, setIsSetupOpen] = useState(false);
+  const [isVersionsOpen, setIsVersionsOpen] = useState(false);
+  const [isAssistantSettingsOpen, setIsAssistantSettingsOpen] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(loadLLMSettings);
+  const llm = useMemo(() => createProvider(llmSettings), [llmSettings]);
+  const [isPersistenceReady, setIsPersistenceReady] = useState(false); // Stored workspace loaded; saving enabled
+
+  // Live worker controls per project, so runs outlive switching away from their project
+  const simulationHandlesRef = useRef(new Map<string, SimulationHandle>());
+  const storageWarnedRef = useRef(new Set<string>());
+  const viewerErrorRef = useRef<{ key: string; message: string } | null>(null); // Last structure load failure
+  const viewerExportRef = useRef<ViewerExporter | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
+
+  // Persistence: writes are throttled and chained so they land in order
+  const saveTimerRef = useRef<number | null>(null);
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const savedWorkspaceRef = useRef<{ projects: Project[]; activeProjectId: string | null } | null>(null);
+  const savedSessionsRef = useRef(new Map<string, ProjectWorkspace>()); // Last workspace written per project
+  const latestRef = useRef({ projects, activeProjectId, workspaces });
+  latestRef.current = { projects, activeProjectId, workspaces };
+
+  // Checks from plans waiting on a load or run, re-run after every render
+  const renderWaitersRef = useRef(new Set<() => void>());
+  useEffect(() => {
+      renderWaitersRef.current.forEach(check => check());
   });
 
-  const addMessage = (text: string, sender: Sender) => {
-    setMessages(prev => [...prev, {
-      id: Date.now().toString(),
-      text,
-      sender,
-      timestamp: Date.now()
-    }]);
+  // Updates go to the workspace of the project they belong to; closed or deleted projects are ignored
+  const updateWorkspace = (key: string, update: (workspace: ProjectWorkspace) => ProjectWorkspace) => {
+      setWorkspaces(prev => prev[key] ? { ...prev, [key]: update(prev[key]) } : prev);
+  };
+
+  const updateMolecularState = (key: string, update: (prev: MolecularState) => MolecularState) => {
+      updateWorkspace(key, workspace => ({ ...workspace, molecularState: update(workspace.molecularState) }));
   };
 
+  const addMessageTo = (key: string, text: string, sender: Sender) => {
+      updateWorkspace(key, workspace => ({ ...workspace, messages: [...workspace.messages, createMessage(text, sender)] }));
+  };
+
+  // Runs a model generation that the chat's stop button can abort
+  const generate = async <T,>(run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+      const controller = new AbortController();
+      generationRef.current = controller;
+      setIsGenerating(true);
+      try {
+          return await run(controller.signal);
+      } finally {
+          if (generationRef.current === controller) {
+              generationRef.current = null;
+              setIsGenerating(false);
+          }
+      }
+  };
+
+  const stopGeneration = () => generationRef.current?.abort();
+
+  // Streams a model reply into a new message that shows as in progress until the reply ends
+  const streamMessageTo = async (key: string, sender: Sender, produce: (stream: StreamOptions) => Promise<string>) => {
+      const message: Message = { ...createMessage('', sender), isStreaming: true };
+      const setText = (text: string, isStreaming: boolean) => updateWorkspace(key, workspace => ({
+          ...workspace,
+          messages: workspace.messages.map(m => m.id === message.id ? { ...m, text, isStreaming } : m)
+      }));
+      updateWorkspace(key, workspace => ({ ...workspace, messages: [...workspace.messages, message] }));
+      const text = await generate(signal => produce({ signal, onText: partial => setText(partial, true) }));
+      setText(text, false);
+      return text;
+  };
+
+  // Shorthands for the project shown when the handler was created
+  const setMolecularState = (update: (prev: MolecularState) => MolecularState) => updateMolecularState(workspaceKey, update);
+  const addMessage = (text: string, sender: Sender) => addMessageTo(workspaceKey, text, sender);
+  const setHasInterruptedRun = (value: boolean) => updateWorkspace(workspaceKey, workspace => ({ ...workspace, hasInterruptedRun: value }));
+
   // Project Management Handlers
   const handleCreateProject = () => {
       const newProject: Project = {
@@ -63,175 +202,646 @@ const App: React.FC = () => {
           status: 'active'
       };
       setProjects(prev => [newProject, ...prev]);
+      setWorkspaces(prev => ({
+          ...prev,
+          [newProject.id]: createWorkspace(initialMolecularState(''), [createMessage("New project created. What would you like to simulate?", Sender.AI)])
+      }));
       setActiveProjectId(newProject.id);
-      
-      // Reset State
-      setMolecularState({
-        pdbId: '',
-        representation: 'cartoon',
-        colorScheme: 'chainid',
-        isSpinning: false,
-        simulationRunning: false,
-        simulationProgress: 0,
-        simulationStage: 'minimization',
-        simulationData: [],
-        simulationLogs: [],
-        customData: undefined,
-        evaluationData: undefined,
-        activeMetadata: undefined
-      });
-      setMessages([{ id: Date.now().toString(), text: "New project created. What would you like to simulate?", sender: Sender.AI, timestamp: Date.now() }]);
       setViewMode('viewer');
   };
 
-  const handleSelectProject = (id: string) => {
+  // Swap to another project's workspace, loading it from storage the first time it is opened
+  const handleSelectProject = async (id: string) => {
       if (id === activeProjectId) return;
       
       const project = projects.find(p => p.id === id);
       if (!project) return;
 
+      if (!workspaces[id]) {
+          let session: ProjectSession | null = null;
+          if (isPersistenceReady) {
+              try {
+                  session = await loadSession(id);
+              } catch (error) {
+                  console.warn(`Failed to load project ${id}`, error);
+              }
+          }
+          const workspace = workspaceFromSession(project, session);
+          if (session) savedSessionsRef.current.set(id, workspace);
+          setWorkspaces(prev => prev[id] ? prev : { ...prev, [id]: workspace });
+      }
       setActiveProjectId(id);
-      setMolecularState(prev => ({
-          ...prev,
-          pdbId: project.pdbId,
-          simulationRunning: false,
-          simulationData: [],
-          simulationLogs: [],
-          customData: undefined,
-          evaluationData: undefined
-      }));
-      
-      setMessages([{ 
-          id: Date.now().toString(), 
-          text: `Loaded project: ${project.name}. Structure ${project.pdbId} is ready.`, 
-          sender: Sender.System, 
-          timestamp: Date.now() 
-      }]);
+  };
+
+  const terminateRun = (key: string) => {
+      simulationHandlesRef.current.get(key)?.terminate();
+      simulationHandlesRef.current.delete(key);
   };
 
   const handleDeleteProject = (id: string) => {
+      terminateRun(id);
       setProjects(prev => prev.filter(p => p.id !== id));
-      if (activeProjectId === id) {
-          setActiveProjectId(null);
-          setMolecularState(prev => ({ ...prev, pdbId: '' }));
-          addMessage("Project deleted.", Sender.System);
+      setWorkspaces(prev => {
+          const { [id]: _deleted, ...rest } = prev;
+          return activeProjectId === id
+              ? { ...rest, [NO_PROJECT]: createWorkspace(initialMolecularState(''), [createMessage("Project deleted.", Sender.System)]) }
+              : rest;
+      });
+      savedSessionsRef.current.delete(id);
+      if (isPersistenceReady) {
+          // Queued behind pending saves so none of them writes the project back
+          saveChainRef.current = saveChainRef.current
+              .then(() => deleteProjectData(id))
+              .catch(error => console.warn(`Failed to delete stored project ${id}`, error));
       }
+      deleteRepository(id).catch(error => console.warn(`Failed to delete repository of project ${id}`, error));
+      if (activeProjectId === id) setActiveProjectId(null);
   };
 
-  const handlePushToGithub = async () => {
-      if (!molecularState.pdbId && !molecularState.customData) {
-          addMessage("Nothing to push. Please load a structure or create a project first.", Sender.System);
-          return;
+  // Download a project (open or stored) as a zip archive
+  const handleExportProject = async (id: string) => {
+      const project = projects.find(p => p.id === id);
+      if (!project) return;
+      try {
+          const workspace = workspaces[id] ?? workspaceFromSession(project, isPersistenceReady ? await loadSession(id) : null);
+          const { blob, fileName, notes } = await exportProjectArchive(project, workspace);
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = fileName;
+          link.click();
+          window.setTimeout(() => URL.revokeObjectURL(url), 0);
+          addMessage(`Exported "${project.name}" to ${fileName}.${notes.length > 0 ? ` Not included: ${notes.join('; ')}.` : ''}`, Sender.System);
+      } catch (error) {
+          addMessage(`Error: Couldn't export "${project.name}": ${error instanceof Error ? error.message : 'unknown error.'}`, Sender.System);
       }
+  };
 
-      setIsPushingToGithub(true);
-      // Simulate Git Push
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      setIsPushingToGithub(false);
-      const commitHash = Math.random().toString(16).substring(2, 9);
-      addMessage(`[GIT] Successfully pushed changes to origin/main.\nCommit: ${commitHash}\nFiles updated: trajectory.dcd, topology.prmtop, analysis.log`, Sender.System);
+  // Rebuild an exported project as a new entry in the Projects tab and open it
+  const handleImportProject = async (file: File) => {
+      try {
+          const { project, session, exportedAt } = await importProjectArchive(file);
+          const note = createMessage(`Imported from ${file.name}${exportedAt ? ` (exported ${new Date(exportedAt).toLocaleString()})` : ''}.`, Sender.System);
+          setProjects(prev => [project, ...prev]);
+          setWorkspaces(prev => ({ ...prev, [project.id]: workspaceFromSession(project, { ...session, messages: [...session.messages, note] }) }));
+          setActiveProjectId(project.id);
+          setViewMode('viewer');
+      } catch (error) {
+          addMessage(`Error: Couldn't import ${file.name}: ${error instanceof Error ? error.message : 'unknown error.'}`, Sender.System);
+      }
+  };
+
+  // Storage problems are reported once per project or run rather than on every save
+  const warnStorage = (key: string, text: string) => {
+      if (storageWarnedRef.current.has(key)) return;
+      storageWarnedRef.current.add(key);
+      addMessageTo(key, text, Sender.System);
+  };
+
+  // Write the project list (when changed) and every open project whose workspace changed since its last save
+  const persistNow = () => {
+      const { projects, activeProjectId, workspaces } = latestRef.current;
+      saveChainRef.current = saveChainRef.current.then(async () => {
+          const saved = savedWorkspaceRef.current;
+          try {
+              if (!saved || saved.projects !== projects || saved.activeProjectId !== activeProjectId) {
+                  await saveWorkspace({ projects, activeProjectId });
+                  savedWorkspaceRef.current = { projects, activeProjectId };
+              }
+          } catch (error) {
+              warnStorage(activeProjectId ?? NO_PROJECT, `Couldn't save the project list: ${error instanceof Error ? error.message : 'storage error.'} Recent changes may be lost on reload.`);
+              return;
+          }
+          for (const project of projects) {
+              const workspace = workspaces[project.id];
+              if (!workspace || savedSessionsRef.current.get(project.id) === workspace) continue;
+              const { messages, turns, molecularState, historyOffset } = workspace;
+              try {
+                  const { trajectoryDropped } = await saveSession({
+                      projectId: project.id,
+                      messages,
+                      turns,
+                      state: toPersistedState(molecularState),
+                      trajectory: molecularState.trajectory,
+                      historyOffset,
+                      interrupted: molecularState.simulationRunning
+                  });
+                  savedSessionsRef.current.set(project.id, workspace);
+                  if (trajectoryDropped) {
+                      warnStorage(project.id, "Browser storage is full: this project's trajectory frames are no longer saved. Charts, logs and checkpoints still are.");
+                  }
+              } catch (error) {
+                  warnStorage(project.id, `Couldn't save the project: ${error instanceof Error ? error.message : 'storage error.'} Recent changes may be lost on reload.`);
+              }
+          }
+      });
+      return saveChainRef.current;
+  };
+
+  const flushSave = () => {
+      if (saveTimerRef.current !== null) {
+          window.clearTimeout(saveTimerRef.current);
+          saveTimerRef.current = null;
+      }
+      return persistNow();
+  };
+
+  // Restore the stored workspace once; saving stays off until then so the demo projects can't overwrite it
+  useEffect(() => {
+      loadWorkspace()
+          .then(async workspace => {
+              if (workspace) {
+                  const project = workspace.projects.find(p => p.id === workspace.activeProjectId);
+                  const restored = project ? workspaceFromSession(project, await loadSession(project.id)) : createWorkspace(initialMolecularState(''), []);
+                  if (project) savedSessionsRef.current.set(project.id, restored);
+                  setProjects(workspace.projects);
+                  setWorkspaces({ [project ? project.id : NO_PROJECT]: restored });
+                  setActiveProjectId(project ? project.id : null);
+              }
+              setIsPersistenceReady(true);
+          })
+          .catch(error => {
+              addMessage(`Project storage is unavailable (${error instanceof Error ? error.message : 'unknown error'}); work in this tab won't be saved.`, Sender.System);
+          });
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Throttled autosave: the first change schedules a write, which picks up everything changed since
+  useEffect(() => {
+      if (!isPersistenceReady || saveTimerRef.current !== null) return;
+      saveTimerRef.current = window.setTimeout(() => {
+          saveTimerRef.current = null;
+          persistNow();
+      }, SAVE_INTERVAL_MS);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPersistenceReady, projects, activeProjectId, workspaces]);
+
+  // Don't wait for the timer when the tab is being hidden or closed
+  useEffect(() => {
+      if (!isPersistenceReady) return;
+      const onVisibilityChange = () => {
+          if (document.visibilityState === 'hidden') flushSave();
+      };
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isPersistenceReady]);
+
+  // Background runs only end with the page
+  useEffect(() => {
+      const handles = simulationHandlesRef.current;
+      return () => {
+          handles.forEach(handle => handle.terminate());
+          handles.clear();
+      };
+  }, []);
+
+  // Version control: each commit records the project archive files in the project's in-browser repository
+  const handleCommitProject = async (message: string) => {
+      const project = projects.find(p => p.id === activeProjectId);
+      if (!project) return;
+      const { oid, notes } = await commitProject(project, workspaces[project.id], message);
+      const skipped = notes.length > 0 ? ` Not included: ${notes.join('; ')}.` : '';
+      addMessage(oid ? `[GIT] Committed ${oid.slice(0, 7)}: ${message.trim()}${skipped}` : "[GIT] Nothing changed since the last commit.", Sender.System);
+  };
+
+  const handlePushProject = async () => {
+      if (!activeProjectId) return;
+      const { remoteUrl, remoteBranch } = await pushProject(activeProjectId);
+      addMessage(`[GIT] Pushed main to ${remoteUrl} (${remoteBranch}).`, Sender.System);
+  };
+
+  // Restores parameters, results and structure from a revision; the chat continues with a note
+  const handleCheckoutRevision = async (revision: ProjectRevision) => {
+      if (!activeProjectId) return;
+      if (molecularState.simulationRunning) throw new Error('Stop the running simulation before checking out a revision.');
+      const key = activeProjectId;
+      const { project, session } = await checkoutRevision(key, revision.oid);
+      const note = createMessage(`[GIT] Checked out ${revision.oid.slice(0, 7)} ("${revision.message}"). Commit to record the rollback.`, Sender.System);
+      terminateRun(key);
+      setProjects(prev => prev.map(p => p.id === key ? { ...project, lastModified: Date.now() } : p));
+      updateWorkspace(key, workspace => workspaceFromSession(project, { ...session, messages: [...workspace.messages, note] }));
+  };
+
+  // Open a local structure file (upload or drag-and-drop) as the active structure
+  const handleLoadLocalFile = async (file: File) => {
+      try {
+          const localStructure = await readStructureFile(file);
+          terminateRun(workspaceKey); // A run of the previous structure would keep streaming into this one
+          setMolecularState(prev => ({
+              ...prev,
+              pdbId: localStructure.fileName,
+              structureSource: undefined,
+              localStructure,
+              simulationRunning: false,
+              simulationPaused: false,
+              simulationData: [],
+              simulationLogs: [],
+              trajectory: undefined,
+              runProtocol: undefined,
+              checkpoint: undefined,
+              customData: undefined,
+              evaluationData: undefined,
+              activeMetadata: undefined,
+              parsedStructure: undefined,
+              highlight: undefined,
+              measurements: undefined,
+              comparisons: undefined,
+              layers: undefined
+          }));
+          setViewMode('viewer');
+          addMessage(`Loaded local structure ${localStructure.fileName} (${localStructure.format.toUpperCase()}).`, Sender.System);
+      } catch (error) {
+          addMessage(`Error: ${error instanceof Error ? error.message : 'Failed to read file.'}`, Sender.System);
+      }
+  };
+
+  // Import an external MD trajectory with its topology for playback and analysis
+  const handleImportTrajectory = async (topologyFile: File, trajectoryFile?: File) => {
+      try {
+          const imported = await importTrajectory(topologyFile, trajectoryFile);
+          const { source, frames, atoms } = imported.trajectory;
+          terminateRun(workspaceKey); // The imported trajectory replaces any run in progress
+          setMolecularState(prev => ({
+              ...prev,
+              pdbId: imported.localStructure.fileName,
+              structureSource: undefined,
+              localStructure: imported.localStructure,
+              parsedStructure: imported.parsedStructure,
+              highlight: undefined, // Measurements stay: atoms are matched by name, so they follow the imported run
+              comparisons: undefined,
+              layers: undefined,
+              simulationRunning: false,
+              simulationPaused: false,
+              simulationProgress: 0,
+              simulationData: imported.simulationData,
+              simulationLogs: [],
+              trajectory: imported.trajectory,
+              runProtocol: undefined,
+              checkpoint: undefined,
+              customData: undefined,
+              evaluationData: undefined,
+              activeMetadata: undefined
+          }));
+          setViewMode('viewer');
+          const strideNote = source && source.stride > 1 ? ` (1 in ${source.stride} of ${source.totalFrames} frames, to fit in memory)` : '';
+          addMessage(`Imported ${frames.length} frames${strideNote} of ${atoms.length} atoms from ${source?.fileName} with topology ${topologyFile.name}.`, Sender.System);
+      } catch (error) {
+          addMessage(`Error: ${error instanceof Error ? error.message : 'Failed to import trajectory.'}`, Sender.System);
+      }
   };
 
   // Update active project when molecular state changes
   useEffect(() => {
       if (activeProjectId && molecularState.pdbId) {
           setProjects(prev => prev.map(p => {
-              if (p.id === activeProjectId && p.pdbId !== molecularState.pdbId) {
-                  return { ...p, pdbId: molecularState.pdbId, lastModified: Date.now() };
+              if (p.id === activeProjectId && (
+                  p.pdbId !== molecularState.pdbId ||
+                  p.structureSource !== molecularState.structureSource ||
+                  p.localStructure !== molecularState.localStructure
+              )) {
+                  return { 
+                      ...p, 
+                      pdbId: molecularState.pdbId, 
+                      structureSource: molecularState.structureSource, 
+                      localStructure: molecularState.localStructure, 
+                      lastModified: Date.now() 
+                  };
               }
               return p;
           }));
       }
-  }, [molecularState.pdbId, activeProjectId]);
+  }, [molecularState.pdbId, molecularState.structureSource, molecularState.localStructure, activeProjectId]);
 
 
-  // Multi-Stage Simulation Logic Loop
-  useEffect(() => {
-    let interval: any;
-    if (molecularState.simulationRunning) {
-        interval = setInterval(() => {
-            setMolecularState(prev => {
-                const stage = prev.simulationStage;
-                let nextStage = stage;
-                let progress = prev.simulationProgress + 0.5; // Increment progress
-                let simRunning = true;
-
-                // Stage Transitions
-                if (progress >= 100) {
-                    if (stage === 'minimization') {
-                        nextStage = 'equilibration';
-                        progress = 0;
-                    } else if (stage === 'equilibration') {
-                        nextStage = 'production';
-                        progress = 0;
-                    } else {
-                        simRunning = false; // Finish after production
-                    }
-                }
-
-                if (!simRunning) {
-                    clearInterval(interval);
-                    addMessage("Simulation complete. Full trajectory analysis available.", Sender.System);
-                    return { ...prev, simulationRunning: false, simulationProgress: 100 };
-                }
-
-                // Generate Data based on Stage
-                const lastData = prev.simulationData.length > 0 
-                    ? prev.simulationData[prev.simulationData.length - 1] 
-                    : { time: 0, rmsd: 0, energy: -1000, temperature: 0 };
-
-                const newTime = lastData.time + 2; // 2ps steps
-                let newRmsd = lastData.rmsd;
-                let newEnergy = lastData.energy;
-                let newTemp = lastData.temperature;
-
-                if (stage === 'minimization') {
-                    // Energy drops rapidly, Temp stays low, RMSD low
-                    newEnergy = lastData.energy - (Math.random() * 50 + 10);
-                    newTemp = Math.max(0, lastData.temperature + (Math.random() - 0.5));
-                    newRmsd = Math.min(0.5, lastData.rmsd + 0.001);
-                } else if (stage === 'equilibration') {
-                    // Temp ramps up to 300K, Energy stabilizes, RMSD increases slightly
-                    const targetTemp = 300;
-                    newTemp = lastData.temperature + (targetTemp - lastData.temperature) * 0.05 + (Math.random() - 0.5) * 2;
-                    newEnergy = lastData.energy + (Math.random() - 0.5) * 20; 
-                    newRmsd = lastData.rmsd + 0.005;
-                } else if (stage === 'production') {
-                    // Stable Temp ~300K, Energy fluctuates, RMSD drifts/stabilizes
-                    newTemp = 300 + (Math.random() - 0.5) * 5;
-                    newEnergy = lastData.energy + (Math.random() - 0.5) * 40;
-                    newRmsd = Math.max(0.5, lastData.rmsd + (Math.random() - 0.45) * 0.02);
-                }
-
-                const newDataPoint: SimulationData = {
-                    time: parseFloat(newTime.toFixed(1)),
-                    rmsd: parseFloat(newRmsd.toFixed(3)),
-                    energy: parseFloat(newEnergy.toFixed(1)),
-                    temperature: parseFloat(newTemp.toFixed(1))
-                };
-
-                // NAMD-style log generation
-                let newLog = '';
-                const step = Math.floor(newTime * 500); // Fake step count
-                if (Math.random() > 0.7) { // Don't log every frame
-                    newLog = `[NAMD] STEP ${step} :: T=${newTemp.toFixed(1)}K :: E_POT=${newEnergy.toFixed(1)} :: RMSD=${newRmsd.toFixed(3)}`;
-                }
-
-                const updatedLogs = newLog ? [newLog, ...prev.simulationLogs].slice(0, 6) : prev.simulationLogs;
-
-                return {
-                    ...prev,
-                    simulationProgress: progress,
-                    simulationStage: nextStage,
-                    simulationData: [...prev.simulationData, newDataPoint].slice(-100), // Keep buffer
-                    simulationLogs: updatedLogs
-                };
-            });
-        }, 50); // Speed of simulation update
-    }
-    return () => clearInterval(interval);
-  }, [molecularState.simulationRunning]);
+  // Validate preconditions and start a run; the protocol is kept with the run and as the next default
+  const startSimulationRun = (protocol: SimulationProtocol): boolean => {
+      if (!molecularState.pdbId) {
+          addMessage("Please load a PDB file first before running a simulation.", Sender.AI);
+          return false;
+      }
+      if (!molecularState.parsedStructure) {
+          addMessage("The structure is still loading. Please wait for it to finish before starting a simulation.", Sender.AI);
+          return false;
+      }
+      if (molecularState.simulationRunning) {
+          addMessage("A simulation is already running. Wait for it to finish before starting another.", Sender.AI);
+          return false;
+      }
+      storageWarnedRef.current.delete(workspaceKey);
+      updateWorkspace(workspaceKey, workspace => ({ ...workspace, historyOffset: 0, hasInterruptedRun: false }));
+      setMolecularState(prev => ({ 
+          ...prev, 
+          protocol,
+          runProtocol: protocol,
+          checkpoint: undefined,
+          simulationRunning: true, 
+          simulationPaused: false,
+          simulationProgress: 0, 
+          simulationStage: 'minimization',
+          simulationData: [],
+          simulationLogs: [],
+          trajectory: undefined,
+          evaluationData: undefined // Reset evaluation on new sim
+      }));
+      addMessage(`Initializing simulation protocol: Minimization -> Equilibration -> Production MD.\n${describeProtocol(protocol)}`, Sender.System);
+      launchRun(workspaceKey, { structure: molecularState.parsedStructure, protocol });
+      return true;
+  };
+
+  // Restart the worker from a checkpoint of the current run, dropping frames recorded after it
+  const continueFromCheckpoint = (checkpoint: SimulationCheckpoint) => {
+      const keep = Math.max(0, checkpoint.frameCount + historyOffset);
+      setHasInterruptedRun(false);
+      setMolecularState(prev => ({
+          ...prev,
+          runProtocol: checkpoint.protocol,
+          checkpoint,
+          simulationRunning: true,
+          simulationPaused: false,
+          simulationStage: checkpoint.stage,
+          simulationData: prev.simulationData.slice(0, keep),
+          trajectory: prev.trajectory ? { ...prev.trajectory, frames: prev.trajectory.frames.slice(0, keep) } : prev.trajectory
+      }));
+      addMessage(`Continuing from the checkpoint at step ${checkpoint.step} (${checkpoint.stage}, t = ${checkpoint.time.toFixed(1)} ps).`, Sender.System);
+      launchRun(workspaceKey, { checkpoint });
+  };
+
+  const pauseSimulation = (): boolean => {
+      if (!molecularState.simulationRunning) {
+          addMessage("No simulation is running.", Sender.AI);
+          return false;
+      }
+      if (molecularState.simulationPaused) {
+          addMessage("The simulation is already paused.", Sender.AI);
+          return false;
+      }
+      simulationHandlesRef.current.get(workspaceKey)?.pause();
+      setMolecularState(prev => ({ ...prev, simulationPaused: true }));
+      addMessage("Simulation paused. Its state is checkpointed, so it can be resumed even after a reload.", Sender.System);
+      return true;
+  };
+
+  // Resume a paused worker, or continue a stopped or interrupted run from its last checkpoint
+  const resumeSimulation = (): boolean => {
+      if (molecularState.simulationRunning) {
+          if (!molecularState.simulationPaused) {
+              addMessage("The simulation is already running.", Sender.AI);
+              return false;
+          }
+          simulationHandlesRef.current.get(workspaceKey)?.resume();
+          setMolecularState(prev => ({ ...prev, simulationPaused: false }));
+          addMessage("Simulation resumed.", Sender.System);
+          return true;
+      }
+      const { checkpoint } = molecularState;
+      if (!checkpoint) {
+          addMessage("There is no paused or interrupted simulation to resume.", Sender.AI);
+          return false;
+      }
+      if (checkpoint.finished) {
+          addMessage("The last run already finished its production. Extend it instead, e.g. \"extend production by 1 ns\".", Sender.AI);
+          return false;
+      }
+      continueFromCheckpoint(checkpoint);
+      return true;
+  };
+
+  const stopSimulation = (): boolean => {
+      if (!molecularState.simulationRunning) {
+          addMessage("No simulation is running.", Sender.AI);
+          return false;
+      }
+      simulationHandlesRef.current.get(workspaceKey)?.stop();
+      return true;
+  };
+
+  // Add production steps to the live run, or continue the last run from its final checkpoint
+  const extendSimulation = (request: { steps?: unknown; duration?: unknown }): boolean => {
+      const { checkpoint } = molecularState;
+      const protocol = molecularState.simulationRunning ? molecularState.runProtocol : checkpoint?.protocol;
+      if (!protocol) {
+          addMessage("There is no simulation to extend. Run one first.", Sender.AI);
+          return false;
+      }
+      let steps: number;
+      try {
+          steps = resolveExtension(request, protocol);
+      } catch (error) {
+          addMessage(`I can't extend the run: ${error instanceof Error ? error.message : 'invalid length.'}`, Sender.AI);
+          return false;
+      }
+      const extended = { ...protocol, productionSteps: protocol.productionSteps + steps };
+      const summary = `Production extended by ${steps} steps (${(steps * protocol.timestep).toFixed(0)} ps) to ${extended.productionSteps} steps.`;
+
+      if (molecularState.simulationRunning) {
+          simulationHandlesRef.current.get(workspaceKey)?.extend(steps);
+          setMolecularState(prev => ({ ...prev, runProtocol: extended }));
+          addMessage(summary, Sender.System);
+          return true;
+      }
+      if (!checkpoint) return false;
+      addMessage(summary, Sender.System);
+      continueFromCheckpoint({ ...checkpoint, protocol: extended, finished: false });
+      return true;
+  };
+
+  // Draw a selection over the current representation, saving it under a name when one is given
+  const highlightSelection = ({ selection, name, style, clear }: CommandParams[CommandType.SELECT_ATOMS]): boolean => {
+      if (clear || !selection) {
+          setMolecularState(prev => ({ ...prev, highlight: undefined }));
+          return true;
+      }
+      const structure = molecularState.parsedStructure;
+      if (!structure) {
+          addMessage("Load a structure first; selections are matched against its atoms.", Sender.AI);
+          return false;
+      }
+      let expression: string;
+      try {
+          expression = resolveSelection(selection, molecularState.selections);
+      } catch (error) {
+          addMessage(`I can't select that: ${error instanceof Error ? error.message : 'invalid selection.'}`, Sender.AI);
+          return false;
+      }
+      const atoms = structure.models[0].atoms;
+      const indices = selectAtoms(atoms, expression);
+      if (indices.length === 0) {
+          addMessage(`No atoms of ${molecularState.pdbId} match "${expression}".`, Sender.AI);
+          return false;
+      }
+      setMolecularState(prev => ({
+          ...prev,
+          highlight: { expression, style: style ?? 'licorice' },
+          selections: name
+              ? [...(prev.selections ?? []).filter(s => s.name.toLowerCase() !== name.toLowerCase()), { name, expression }]
+              : prev.selections
+      }));
+      addMessage(`Highlighted ${describeSelection(atoms, indices)} (${expression})${name ? `, saved as "${name}"` : ''}.`, Sender.System);
+      return true;
+  };
+
+  // Measure between atoms named in chat; the measurement is drawn in the viewer and tracked over trajectories
+  const measureAtomsCommand = ({ atoms: specs, clear }: CommandParams[CommandType.MEASURE]): boolean => {
+      if (clear || !specs) {
+          setMolecularState(prev => ({ ...prev, measurements: [] }));
+          addMessage("Cleared all measurements.", Sender.System);
+          return true;
+      }
+      const structure = molecularState.parsedStructure;
+      const kind = measurementKindFor(specs.length);
+      if (!structure || !kind) {
+          addMessage(structure ? "A measurement needs 2, 3 or 4 atoms." : "Load a structure first; measurements are made between its atoms.", Sender.AI);
+          return false;
+      }
+      const atoms = structure.models[0].atoms;
+      let refs: AtomRef[];
+      try {
+          refs = specs.map(spec => resolveAtomSpec(atoms, parseAtomSpec(spec)));
+      } catch (error) {
+          addMessage(`I can't measure that: ${error instanceof Error ? error.message : 'unknown atom.'}`, Sender.AI);
+          return false;
+      }
+      const measurement: Measurement = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, kind, atoms: refs, tracked: true };
+      setMolecularState(prev => ({ ...prev, measurements: [...(prev.measurements ?? []), measurement] }));
+      const series = molecularState.trajectory ? measurementSeries(molecularState.trajectory, measurement) : null;
+      addMessage(`${describeMeasurement(measurement, measureAtoms(atoms, measurement))}.` +
+          (series ? ' Its time series is in the Analysis view.' : ''), Sender.System);
+      return true;
+  };
+
+  // Add, change, reorder or remove the representation layers drawn over the base representation
+  const editLayers = (params: CommandParams[CommandType.EDIT_LAYERS]): boolean => {
+      const current = molecularState.layers ?? [];
+      let selection = params.selection;
+      if (selection) {
+          const structure = molecularState.parsedStructure;
+          if (!structure) {
+              addMessage("Load a structure first; layer selections are matched against its atoms.", Sender.AI);
+              return false;
+          }
+          try {
+              selection = resolveSelection(selection, molecularState.selections);
+          } catch (error) {
+              addMessage(`I can't draw that layer: ${error instanceof Error ? error.message : 'invalid selection.'}`, Sender.AI);
+              return false;
+          }
+          if (selectAtoms(structure.models[0].atoms, selection).length === 0) {
+              addMessage(`No atoms of ${molecularState.pdbId} match "${selection}".`, Sender.AI);
+              return false;
+          }
+      }
+      let layers: RepresentationLayer[];
+      try {
+          layers = applyLayerAction(current, { ...params, selection }, molecularState.colorScheme);
+      } catch (error) {
+          addMessage(error instanceof Error ? error.message : 'That layer change is not possible.', Sender.AI);
+          return false;
+      }
+      setMolecularState(prev => ({ ...prev, layers }));
+      addMessage(layers.length > 0
+          ? `Layers, bottom first, over the base ${molecularState.representation}: ${layers.map((layer, i) => `${i + 1}. ${describeLayer(layer)}`).join('; ')}.`
+          : `No layers; only the base ${molecularState.representation} is drawn.`, Sender.System);
+      return true;
+  };
+
+  // Images and movies are rendered and downloaded by the viewer
+  const exportFromViewer = async (what: 'image' | 'movie', render: (exporter: ViewerExporter) => Promise<ExportedMedia>): Promise<boolean> => {
+      const exporter = viewerExportRef.current;
+      if (!exporter || !molecularState.parsedStructure) {
+          addMessage(`Load a structure first; the ${what} is taken from the 3D view.`, Sender.AI);
+          return false;
+      }
+      const key = workspaceKey;
+      setViewMode('viewer');
+      try {
+          const media = await render(exporter);
+          addMessageTo(key, `Saved ${media.fileName} (${media.width}×${media.height} px${media.frames ? `, ${media.frames} frames` : ''}).`, Sender.System);
+          return true;
+      } catch (error) {
+          addMessageTo(key, `Error: Couldn't export the ${what}: ${error instanceof Error ? error.message : 'unknown error.'}`, Sender.System);
+          return false;
+      }
+  };
+
+  // Superpose other structures onto the loaded one; each is fetched, aligned and scored before it is shown
+  const compareWith = async ({ pdbIds, source, clear }: CommandParams[CommandType.COMPARE_STRUCTURES]): Promise<boolean> => {
+      if (clear || !pdbIds) {
+          setMolecularState(prev => ({ ...prev, comparisons: undefined }));
+          return true;
+      }
+      const structure = molecularState.parsedStructure;
+      if (!structure) {
+          addMessage("Load the reference structure first; the others are superposed onto it.", Sender.AI);
+          return false;
+      }
+      const key = workspaceKey;
+      const referenceId = molecularState.pdbId;
+      const compared: ComparedStructure[] = [];
+      for (const pdbId of pdbIds) {
+          try {
+              const { text, format } = await fetchComparedCoordinates(pdbId, source);
+              const model = parseStructure(text, format).models[0];
+              if (!model) throw new Error(`No atoms found in ${pdbId}.`);
+              compared.push({ pdbId, ...(source ? { source } : {}), ...compareStructures(structure.models[0].atoms, model.atoms) });
+          } catch (error) {
+              addMessageTo(key, `I couldn't compare ${pdbId} with ${referenceId}: ${error instanceof Error ? error.message : 'unknown error.'}`, Sender.AI);
+          }
+      }
+      if (compared.length === 0) return false;
+      // The reference may have changed while the structures downloaded
+      updateMolecularState(key, prev => prev.pdbId !== referenceId ? prev : {
+          ...prev,
+          comparisons: [...(prev.comparisons ?? []).filter(c => !compared.some(n => sameComparedStructure(c, n))), ...compared]
+      });
+      addMessageTo(key, `Superposed onto ${referenceId}, colored by Cα deviation:\n${compared.map(describeComparison).join('\n')}`, Sender.System);
+      return compared.length === pdbIds.length;
+  };
+
+  // Multi-Stage Simulation: stream frames from an MD worker into the workspace of the project that started it
+  const launchRun = (key: string, source: { structure: ParsedStructure; protocol: SimulationProtocol } | { checkpoint: SimulationCheckpoint }) => {
+    const callbacks: SimulationCallbacks = {
+        onReady: (atoms, contactCount) => {
+            updateMolecularState(key, prev => ({
+                ...prev,
+                // Continued runs append to the frames kept from before the checkpoint
+                trajectory: 'checkpoint' in source && prev.trajectory ? prev.trajectory : { atoms, frames: [] },
+                simulationLogs: [`[MD] Gō model built: ${atoms.length} beads, ${contactCount} native contacts`, ...prev.simulationLogs].slice(0, 6)
+            }));
+        },
+        onFrame: (stage, progress, data, coordinates, log) => {
+            updateMolecularState(key, prev => ({
+                ...prev,
+                simulationStage: stage,
+                simulationProgress: progress,
+                simulationData: [...prev.simulationData, data],
+                trajectory: prev.trajectory 
+                    ? { ...prev.trajectory, frames: [...prev.trajectory.frames, { time: data.time, stage, coordinates }] } 
+                    : prev.trajectory,
+                simulationLogs: log ? [log, ...prev.simulationLogs].slice(0, 6) : prev.simulationLogs
+            }));
+        },
+        onCheckpoint: (checkpoint) => {
+            updateMolecularState(key, prev => ({ ...prev, checkpoint }));
+        },
+        onComplete: (stopped) => {
+            simulationHandlesRef.current.delete(key);
+            updateMolecularState(key, prev => ({ ...prev, simulationRunning: false, simulationPaused: false, simulationProgress: stopped ? prev.simulationProgress : 100 }));
+            addMessageTo(key, stopped
+                ? "Simulation stopped. The final state is checkpointed; say \"resume the run\" or \"extend production by 1 ns\" to continue it."
+                : "Simulation complete. Full trajectory analysis available.", Sender.System);
+        },
+        onError: (message) => {
+            simulationHandlesRef.current.delete(key);
+            updateMolecularState(key, prev => ({ ...prev, simulationRunning: false, simulationPaused: false }));
+            addMessageTo(key, `Simulation failed: ${message}`, Sender.System);
+        }
+    };
+
+    simulationHandlesRef.current.set(key, 'checkpoint' in source
+        ? restoreSimulation(source.checkpoint, callbacks)
+        : startSimulation(source.structure, callbacks, source.protocol));
+  };
 
   // Extracted Evaluation Logic to reuse between Chat and Button click
   const handleRunEvaluation = async () => {
@@ -265,98 +875,126 @@ const App: React.FC = () => {
            ]
        };
        
-       const explanation = await getValidationMethodology();
-       setEvalExplanation(explanation);
-       
-       setMolecularState(prev => ({
-           ...prev,
-           evaluationData: mockMetrics
-       }));
+       // The methodology streams into the dashboard as it is written
+       const key = workspaceKey;
+       updateMolecularState(key, prev => ({ ...prev, evaluationData: mockMetrics, evaluationExplanation: '' }));
        setViewMode('evaluation');
+       const explanation = await generate(signal => getValidationMethodology(llm, {
+           signal,
+           onText: text => updateMolecularState(key, prev => ({ ...prev, evaluationExplanation: text }))
+       }));
+       updateMolecularState(key, prev => ({ ...prev, evaluationExplanation: explanation }));
        setIsProcessing(false);
        addMessage("Evaluation protocol complete. Metrics updated.", Sender.System);
   };
 
-  const handleSendMessage = useCallback(async (text: string) => {
-    addMessage(text, Sender.User);
-    setIsProcessing(true);
-
-    try {
-      // Pass current context (Loaded PDB ID, Custom Data Title) to AI
-      const activeMeta = molecularState.activeMetadata;
-      let currentContext = `Currently loaded PDB ID: ${molecularState.pdbId || 'None'}. `;
-      
-      if (activeMeta) {
-          currentContext += `Structure Details: Title "${activeMeta.title}". Resolution: ${activeMeta.resolution}. `;
-          if (activeMeta.atomCount) {
-              currentContext += `Stats: ${activeMeta.atomCount} atoms, ${activeMeta.residueCount} residues, ${activeMeta.chainCount} chains. `;
-          }
-      }
-      
-      if (molecularState.customData) {
-          currentContext += `AI Predicted Model: ${molecularState.customData.title}.`;
-      }
-
-      const command = await parseUserIntent(text, currentContext);
-      
-      // Execute Command
+  // Carries out one command in the open project. Returns the workspace later steps continue in,
+  // or null when the command could not be carried out (the reason is already in the chat).
+  const executeCommand = async (command: Command, text: string): Promise<string | null> => {
       switch (command.type) {
         case CommandType.LOAD_PDB:
+          terminateRun(workspaceKey); // A run of the previous structure would keep streaming into the new one
           if (command.params.pdbId) {
-            setMolecularState(prev => ({ ...prev, pdbId: command.params.pdbId.trim(), simulationData: [], simulationLogs: [], customData: undefined, evaluationData: undefined, activeMetadata: undefined }));
+            const { pdbId, source: structureSource } = command.params;
+            setMolecularState(prev => {
+              // The viewer only reloads when the entry changes, so a repeated load keeps the parsed structure
+              const same = prev.pdbId === pdbId && prev.structureSource === structureSource && !prev.localStructure && !prev.customData;
+              return { ...prev, pdbId, structureSource, simulationRunning: false, simulationPaused: false, simulationData: [], simulationLogs: [], trajectory: undefined, runProtocol: undefined, checkpoint: undefined, customData: undefined, localStructure: undefined, evaluationData: undefined, activeMetadata: same ? prev.activeMetadata : undefined, parsedStructure: same ? prev.parsedStructure : undefined, highlight: same ? prev.highlight : undefined, measurements: same ? prev.measurements : undefined, comparisons: same ? prev.comparisons : undefined, layers: same ? prev.layers : undefined };
+            });
             setViewMode('viewer');
           } else {
-             setMolecularState(prev => ({ ...prev, pdbId: '1AXC', simulationData: [], simulationLogs: [], customData: undefined, evaluationData: undefined, activeMetadata: undefined })); 
+             setMolecularState(prev => ({ ...prev, pdbId: '1AXC', structureSource: undefined, simulationRunning: false, simulationPaused: false, simulationData: [], simulationLogs: [], trajectory: undefined, runProtocol: undefined, checkpoint: undefined, customData: undefined, localStructure: undefined, evaluationData: undefined, activeMetadata: undefined, parsedStructure: undefined, highlight: undefined, measurements: undefined, comparisons: undefined, layers: undefined })); 
           }
           break;
         
         case CommandType.SET_REPRESENTATION:
           setMolecularState(prev => ({ 
             ...prev, 
-            representation: command.params.style || 'cartoon' 
+            representation: command.params.style 
           }));
           break;
         
         case CommandType.SET_COLOR_SCHEME:
           setMolecularState(prev => ({ 
             ...prev, 
-            colorScheme: command.params.color || 'chainid' 
+            colorScheme: command.params.color 
           }));
           break;
           
         case CommandType.TOGGLE_SPIN:
-           const spinState = command.params.active !== undefined ? command.params.active : !molecularState.isSpinning;
+           const spinState = command.params.active ?? !molecularState.isSpinning;
            setMolecularState(prev => ({ ...prev, isSpinning: spinState }));
            break;
 
-        case CommandType.RUN_SIMULATION:
-           if (!molecularState.pdbId) {
-             addMessage("Please load a PDB file first before running a simulation.", Sender.AI);
-             setIsProcessing(false);
-             return;
+        case CommandType.RUN_SIMULATION: {
+           // Settings named in the request override the saved protocol
+           let protocol: SimulationProtocol;
+           try {
+             protocol = resolveProtocol(command.params.protocol, molecularState.protocol);
+           } catch (error) {
+             addMessage(`I can't run that protocol: ${error instanceof Error ? error.message : 'invalid settings.'}`, Sender.AI);
+             return null;
            }
-           // Start Simulation Protocol
-           setMolecularState(prev => ({ 
-               ...prev, 
-               simulationRunning: true, 
-               simulationProgress: 0, 
-               simulationStage: 'minimization',
-               simulationData: [],
-               simulationLogs: [],
-               evaluationData: undefined // Reset evaluation on new sim
-           }));
-           addMessage("Initializing simulation protocol: Minimization -> Equilibration -> Production MD.", Sender.System);
-           break;
+           return startSimulationRun(protocol) ? workspaceKey : null;
+        }
+
+        case CommandType.PAUSE_SIMULATION:
+           return pauseSimulation() ? workspaceKey : null;
+
+        case CommandType.RESUME_SIMULATION:
+           return resumeSimulation() ? workspaceKey : null;
+
+        case CommandType.STOP_SIMULATION:
+           return stopSimulation() ? workspaceKey : null;
+
+        case CommandType.EXTEND_SIMULATION:
+           return extendSimulation(command.params) ? workspaceKey : null;
 
-        case CommandType.ANALYZE_DATA:
+        case CommandType.SELECT_ATOMS:
+           return highlightSelection(command.params) ? workspaceKey : null;
+
+        case CommandType.MEASURE:
+           return measureAtomsCommand(command.params) ? workspaceKey : null;
+
+        case CommandType.EDIT_LAYERS:
+           return editLayers(command.params) ? workspaceKey : null;
+
+        case CommandType.EXPORT_IMAGE:
+           return (await exportFromViewer('image', exporter => exporter.exportImage(command.params))) ? workspaceKey : null;
+
+        case CommandType.EXPORT_MOVIE:
+           return (await exportFromViewer('movie', exporter => exporter.exportMovie(command.params))) ? workspaceKey : null;
+
+        case CommandType.COMPARE_STRUCTURES:
+           setViewMode('viewer');
+           return (await compareWith(command.params)) ? workspaceKey : null;
+
+        case CommandType.ANALYZE_DATA: {
+           let rmsdSettings = molecularState.rmsdSettings;
+           if (command.params.selection) {
+              const saved = molecularState.selections ?? [];
+              const named = saved.find(s => s.name.toLowerCase() === command.params.selection!.toLowerCase());
+              if (!named) {
+                  addMessage(`There is no saved selection called "${command.params.selection}".${saved.length > 0 ? ` Saved selections: ${saved.map(s => s.name).join(', ')}.` : ''}`, Sender.AI);
+                  return null;
+              }
+              rmsdSettings = { ...rmsdSettings, selection: 'named', named };
+              setMolecularState(prev => ({ ...prev, rmsdSettings }));
+           }
            setViewMode('analysis');
            if (molecularState.simulationData.length > 0) {
-              const summary = await generateAnalysisSummary(molecularState.simulationData.length);
-              addMessage(summary, Sender.AI);
+              const stats = computeSimulationStatistics(molecularState.simulationData, {
+                  trajectory: molecularState.trajectory,
+                  rmsdSettings,
+                  protocol: molecularState.runProtocol ?? molecularState.checkpoint?.protocol
+              });
+              if (stats) await streamMessageTo(workspaceKey, Sender.AI, stream => generateAnalysisSummary(llm, stats, stream));
            } else {
               addMessage("No simulation data found. Run a simulation first to generate trajectory data.", Sender.AI);
+              return null;
            }
            break;
+        }
 
         case CommandType.EVALUATE_MODEL:
            addMessage("Running comprehensive AI model evaluation protocol...", Sender.System);
@@ -382,52 +1020,166 @@ const App: React.FC = () => {
                 status: 'active'
             };
             
+            // The prediction gets its own workspace, seeded with the request that produced it
             setProjects(prev => [newProject, ...prev]);
-            setActiveProjectId(newProjectId);
-            
-            setMolecularState(prev => ({
+            setWorkspaces(prev => ({
                 ...prev,
-                pdbId: '1CRN',
-                simulationData: [],
-                simulationLogs: [],
-                representation: 'cartoon',
-                colorScheme: 'residueindex', // Rainbow for predictions
-                isSpinning: true,
-                customData: {
-                    title: 'AlphaFold Predicted Model',
-                    method: 'AlphaFold v2.3 (Simulated)',
-                    resolution: 'pLDDT > 90 (High Confidence)',
-                    keywords: 'Structure Prediction, De Novo, AI',
-                    releaseDate: new Date().toISOString().split('T')[0]
-                },
-                evaluationData: undefined,
-                activeMetadata: undefined
+                [newProjectId]: createWorkspace({
+                    ...initialMolecularState('1CRN'),
+                    colorScheme: 'residueindex', // Rainbow for predictions
+                    isSpinning: true,
+                    customData: {
+                        title: 'AlphaFold Predicted Model',
+                        method: 'AlphaFold v2.3 (Simulated)',
+                        resolution: 'pLDDT > 90 (High Confidence)',
+                        keywords: 'Structure Prediction, De Novo, AI',
+                        releaseDate: new Date().toISOString().split('T')[0]
+                    }
+                }, [
+                    createMessage(text, Sender.User),
+                    createMessage("Structure predicted successfully. Confidence score (pLDDT) is high. You can now run MD simulations on this model.", Sender.System)
+                ])
             }));
+            setActiveProjectId(newProjectId);
             setViewMode('viewer');
-            addMessage("Structure predicted successfully. Confidence score (pLDDT) is high. You can now run MD simulations on this model.", Sender.System);
-            break;
+            return newProjectId;
 
         case CommandType.UNKNOWN:
         default:
           break;
       }
+      return workspaceKey;
+  };
+  const executeCommandRef = useRef(executeCommand);
+  executeCommandRef.current = executeCommand;
 
-      addMessage(command.explanation, Sender.AI);
+  // Resolves with the first result `settle` gives for the project's workspace, re-checked after every render;
+  // undefined when `timeoutMs` passes first
+  const waitForWorkspace = <T,>(key: string, settle: (workspace: ProjectWorkspace | undefined) => T | undefined, timeoutMs = 0) =>
+      new Promise<T | undefined>(resolve => {
+          let timer: number | undefined;
+          const check = () => {
+              const result = settle(latestRef.current.workspaces[key]);
+              if (result !== undefined) finish(result);
+          };
+          const finish = (result: T | undefined) => {
+              renderWaitersRef.current.delete(check);
+              window.clearTimeout(timer);
+              resolve(result);
+          };
+          renderWaitersRef.current.add(check);
+          if (timeoutMs > 0) timer = window.setTimeout(() => finish(undefined), timeoutMs);
+      });
+
+  // What a step waits for before the next one starts: true when it finished, otherwise why it didn't
+  const stepOutcome = (command: Command, key: string, workspace: ProjectWorkspace | undefined): true | string | undefined => {
+      if (!workspace) return 'the project was closed.';
+      const state = workspace.molecularState;
+      switch (command.type) {
+          case CommandType.LOAD_PDB:
+          case CommandType.PROCESS_SEQUENCE:
+              if (viewerErrorRef.current?.key === key) return viewerErrorRef.current.message;
+              return state.parsedStructure ? true : undefined;
+          case CommandType.RUN_SIMULATION:
+          case CommandType.RESUME_SIMULATION:
+          case CommandType.EXTEND_SIMULATION:
+              if (state.simulationRunning) return undefined;
+              // The worker posts its last checkpoint before completing; progress restarts at every stage
+              return state.checkpoint?.finished ? true : 'the simulation ended before finishing its production.';
+          default:
+              return true;
+      }
+  };
+
+  // Runs the steps in order, each with the state the previous ones left behind, and stops at the first failure.
+  // Returns how many steps took effect and, when one failed, its index; the steps after it did not run.
+  const runPlan = async (plan: Command[], text: string, startKey: string): Promise<{ done: number; failed?: number }> => {
+      let key = startKey;
+      if (plan.length === 1) {
+          const next = await executeCommandRef.current(plan[0], text);
+          if (next === null) return { done: 0, failed: 0 };
+          addMessageTo(next, plan[0].explanation, Sender.AI);
+          return { done: 1 };
+      }
+
+      // `from` is the first step that did not run
+      const stop = (from: number, summary: string) => {
+          const skipped = plan.slice(from).map(step => step.explanation.replace(/\.$/, ''));
+          addMessageTo(key, `${summary}${skipped.length > 0 ? `\nNot run: ${skipped.join('; ')}.` : ''}`, Sender.System);
+      };
+
+      for (let i = 0; i < plan.length; i++) {
+          const step = plan[i];
+          if ((latestRef.current.activeProjectId ?? NO_PROJECT) !== key) {
+              stop(i, 'The plan stopped because another project was opened.');
+              return { done: i };
+          }
+          addMessageTo(key, `Step ${i + 1}/${plan.length}: ${step.explanation}`, Sender.AI);
+          await waitForWorkspace(key, () => true); // Let the previous step's state render so this step sees it
+          if (step.type === CommandType.LOAD_PDB) viewerErrorRef.current = null;
+
+          const next = await executeCommandRef.current(step, text);
+          if (next === null) {
+              stop(i + 1, `Stopped at step ${i + 1} of ${plan.length}.`);
+              return { done: i, failed: i };
+          }
+          key = next;
+          if (i === plan.length - 1) break;
+
+          const isRun = step.type === CommandType.RUN_SIMULATION || step.type === CommandType.RESUME_SIMULATION || step.type === CommandType.EXTEND_SIMULATION;
+          if (isRun) setIsProcessing(false); // The chat stays usable, e.g. to pause or stop the run
+          const outcome = await waitForWorkspace(key, workspace => stepOutcome(step, key, workspace), isRun ? 0 : STRUCTURE_LOAD_TIMEOUT_MS);
+          if (isRun) setIsProcessing(true);
+          if (outcome !== true) {
+              stop(i + 1, `Stopped at step ${i + 1} of ${plan.length}: ${outcome ?? 'the structure did not finish loading in time.'}`);
+              return { done: i, failed: i };
+          }
+      }
+      addMessageTo(key, `All ${plan.length} steps done.`, Sender.System);
+      return { done: plan.length };
+  };
+
+  const handleSendMessage = useCallback(async (text: string) => {
+    addMessage(text, Sender.User);
+    setIsProcessing(true);
+
+    try {
+      // Recent turns and the current state let follow-ups refer back ("color that by chain")
+      const key = workspaceKey;
+      const activeMeta = molecularState.activeMetadata;
+      const currentContext = buildConversationContext(workspaces[key]?.turns ?? [], molecularState);
+
+      const plan = await parseUserIntent(llm, text, currentContext, { localFirst: llmSettings.localFirst, metadata: activeMeta });
+      const { done, failed } = await runPlan(plan, text, key);
+
+      const turn: ConversationTurn = {
+          request: text,
+          steps: plan.map((command, i) => ({ command, status: i === failed ? 'failed' : i < done ? 'done' : 'skipped' })),
+          timestamp: Date.now()
+      };
+      updateWorkspace(key, workspace => ({ ...workspace, turns: rememberTurn(workspace.turns, turn) }));
 
     } catch (error) {
       addMessage("I'm sorry, I had trouble communicating with the simulation engine.", Sender.AI);
     } finally {
       setIsProcessing(false);
     }
-  }, [molecularState.pdbId, molecularState.isSpinning, molecularState.simulationData.length, molecularState.customData, molecularState.activeMetadata]);
+  }, [molecularState, workspaces, workspaceKey, llm, llmSettings.localFirst]);
 
-  const handleMetadataLoaded = (meta: any) => {
+  const handleMetadataLoaded = (meta: ActiveMetadata, structure: ParsedStructure) => {
       setMolecularState(prev => ({
           ...prev,
-          activeMetadata: meta
+          activeMetadata: meta,
+          parsedStructure: structure
       }));
   };
 
+  const runStatus: Record<string, { progress: number; paused: boolean }> = {};
+  Object.keys(workspaces).forEach(key => {
+      const state = workspaces[key].molecularState;
+      if (state.simulationRunning) runStatus[key] = { progress: state.simulationProgress, paused: state.simulationPaused };
+  });
+
   if (!hasStarted) {
     return <LandingPage onGetStarted={() => setHasStarted(true)} />;
   }
@@ -441,11 +1193,18 @@ const App: React.FC = () => {
           messages={messages} 
           onSendMessage={handleSendMessage} 
           isProcessing={isProcessing}
+          isGenerating={isGenerating}
+          onStopGeneration={stopGeneration}
           projects={projects}
           activeProjectId={activeProjectId}
           onSelectProject={handleSelectProject}
           onCreateProject={handleCreateProject}
           onDeleteProject={handleDeleteProject}
+          runStatus={runStatus}
+          onExportProject={handleExportProject}
+          onImportProject={handleImportProject}
+          llmProvider={LLM_PROVIDERS[llmSettings.provider].label}
+          llmModel={llmSettings.model}
         />
       </div>
 
@@ -495,20 +1254,22 @@ const App: React.FC = () => {
 
           <div className="flex items-center gap-4 text-slate-400">
              <button 
-                onClick={handlePushToGithub}
-                disabled={isPushingToGithub}
-                className={`flex items-center gap-2 px-3 py-1.5 rounded-md border transition-all text-xs font-bold ${
-                    isPushingToGithub 
-                    ? 'bg-slate-800 border-slate-600 text-slate-400 cursor-wait' 
-                    : 'bg-[#24292F] hover:bg-[#24292F]/90 border-transparent text-white shadow-sm'
-                }`}
+                onClick={() => setIsSetupOpen(true)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-md border border-slate-700 bg-slate-800 hover:bg-slate-700 text-slate-200 transition-all text-xs font-bold"
+                title="Simulation protocol settings"
+             >
+                <SlidersHorizontal size={14} />
+                <span>Protocol</span>
+             </button>
+
+             <button 
+                onClick={() => setIsVersionsOpen(true)}
+                disabled={!activeProjectId}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-md border border-slate-700 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 transition-all text-xs font-bold"
+                title={activeProjectId ? "Commits, history and remote of this project" : "Open a project to version it"}
              >
-                {isPushingToGithub ? (
-                     <div className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                ) : (
-                     <Github size={14} />
-                )}
-                <span>{isPushingToGithub ? 'Pushing...' : 'Push'}</span>
+                <GitBranch size={14} />
+                <span>Versions</span>
              </button>
              
              <div className="w-px h-6 bg-slate-700 mx-1"></div>
@@ -516,6 +1277,13 @@ const App: React.FC = () => {
              <button onClick={() => setHasStarted(false)} className="hover:text-white transition-colors p-1.5 rounded-md hover:bg-slate-800"><Home size={20} /></button>
              <button onClick={() => setIsNavVisible(false)} className="hover:text-white transition-colors p-1.5 rounded-md hover:bg-slate-800"><ChevronUp size={20} /></button>
              <div className="w-px h-6 bg-slate-700 mx-1"></div>
+             <button
+                onClick={() => setIsAssistantSettingsOpen(true)}
+                className="hover:text-white transition-colors"
+                title={`Assistant model: ${LLM_PROVIDERS[llmSettings.provider].label} (${llmSettings.model})`}
+             >
+                <Bot size={20} />
+             </button>
              <button className="hover:text-white transition-colors"><Info size={20} /></button>
           </div>
         </div>
@@ -526,13 +1294,33 @@ const App: React.FC = () => {
           <div className={`w-full h-full transition-opacity duration-500 ${viewMode === 'viewer' ? 'opacity-100 z-10' : 'opacity-0 absolute inset-0 -z-10'}`}>
              {molecularState.pdbId ? (
                 <MolecularViewer 
+                    key={workspaceKey} // Fresh viewer per project so its structure, metadata and playback don't leak across
                     molecularState={molecularState} 
                     onLoadComplete={() => console.log('Loaded')}
-                    onError={(msg) => addMessage(`Error: ${msg}`, Sender.System)}
+                    onError={(msg) => {
+                        viewerErrorRef.current = { key: workspaceKey, message: msg };
+                        addMessage(`Error: ${msg}`, Sender.System);
+                    }}
                     onMetadataLoaded={handleMetadataLoaded}
+                    onFileLoad={handleLoadLocalFile}
+                    onTrajectoryImport={handleImportTrajectory}
+                    onClearHighlight={() => setMolecularState(prev => ({ ...prev, highlight: undefined }))}
+                    onMeasurementsChange={(measurements) => setMolecularState(prev => ({ ...prev, measurements }))}
+                    onCompare={(pdbId) => compareWith({ pdbIds: [pdbId] })}
+                    onComparisonsChange={(comparisons) => setMolecularState(prev => ({ ...prev, comparisons }))}
+                    onLayersChange={(layers) => setMolecularState(prev => ({ ...prev, layers }))}
+                    exportRef={viewerExportRef}
                 />
              ) : (
-                <div className="w-full h-full border border-dashed border-slate-800 rounded-xl flex flex-col items-center justify-center bg-slate-900/50">
+                <div 
+                    className="w-full h-full border border-dashed border-slate-800 rounded-xl flex flex-col items-center justify-center bg-slate-900/50"
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        const file = e.dataTransfer.files?.[0];
+                        if (file) handleLoadLocalFile(file);
+                    }}
+                >
                     <div className="w-20 h-20 bg-slate-800 rounded-full flex items-center justify-center mb-4 animate-pulse">
                         <FlaskConical size={40} className="text-slate-600" />
                     </div>
@@ -540,6 +1328,20 @@ const App: React.FC = () => {
                     <p className="text-slate-500 mt-2 max-w-md text-center">
                         Enter a PDB ID (e.g., "1AXC") or paste a sequence to run AlphaFold predictions.
                     </p>
+                    <label className="mt-6 flex items-center gap-2 px-4 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-slate-300 hover:text-white hover:border-slate-500 transition-colors cursor-pointer">
+                        <Upload size={16} />
+                        Open or drop a local structure file
+                        <input 
+                            type="file" 
+                            accept={STRUCTURE_FILE_ACCEPT} 
+                            className="hidden" 
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleLoadLocalFile(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
                 </div>
              )}
           </div>
@@ -557,6 +1359,11 @@ const App: React.FC = () => {
                     <AnalysisPanel 
                         data={molecularState.simulationData} 
                         isRunning={molecularState.simulationRunning}
+                        trajectory={molecularState.trajectory}
+                        rmsdSettings={molecularState.rmsdSettings}
+                        onRmsdSettingsChange={(rmsdSettings) => setMolecularState(prev => ({ ...prev, rmsdSettings }))}
+                        selections={molecularState.selections}
+                        measurements={molecularState.measurements}
                     />
                 </div>
              </div>
@@ -574,7 +1381,7 @@ const App: React.FC = () => {
                     </div>
                     <EvaluationPanel 
                         metrics={molecularState.evaluationData} 
-                        explanation={evalExplanation}
+                        explanation={molecularState.evaluationExplanation ?? ''}
                         onRunEvaluation={handleRunEvaluation}
                         isProcessing={isProcessing}
                     />
@@ -584,7 +1391,7 @@ const App: React.FC = () => {
           
           {/* Simulation Progress Card */}
           {molecularState.simulationRunning && (
-              <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-50 w-[440px] bg-slate-900/95 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in slide-in-from-bottom-10 duration-500">
+              <div className={`absolute ${viewMode === 'viewer' && molecularState.trajectory ? 'bottom-24' : 'bottom-8'} left-1/2 -translate-x-1/2 z-50 w-[440px] bg-slate-900/95 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in slide-in-from-bottom-10 duration-500`}>
                   <div className="h-1 w-full bg-slate-800">
                       <div 
                           className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-300 ease-out" 
@@ -594,13 +1401,13 @@ const App: React.FC = () => {
                   <div className="p-5">
                       <div className="flex items-center justify-between mb-4">
                           <div className="flex items-center gap-3">
-                              <div className={`w-3 h-3 rounded-full animate-pulse shadow-lg ${
+                              <div className={`w-3 h-3 rounded-full shadow-lg ${molecularState.simulationPaused ? '' : 'animate-pulse'} ${
                                   molecularState.simulationStage === 'minimization' ? 'bg-blue-500 shadow-blue-500/50' :
                                   molecularState.simulationStage === 'equilibration' ? 'bg-purple-500 shadow-purple-500/50' :
                                   'bg-emerald-500 shadow-emerald-500/50'
                               }`}></div>
                               <div>
-                                  <span className="font-bold text-white tracking-wide block text-sm">Running Simulation</span>
+                                  <span className="font-bold text-white tracking-wide block text-sm">{molecularState.simulationPaused ? 'Simulation Paused' : 'Running Simulation'}</span>
                                   <span className="text-[10px] text-slate-400 uppercase tracking-wider font-bold">
                                       {molecularState.simulationStage === 'minimization' && 'Phase 1: Minimization'}
                                       {molecularState.simulationStage === 'equilibration' && 'Phase 2: Equilibration'}
@@ -608,8 +1415,41 @@ const App: React.FC = () => {
                                   </span>
                               </div>
                           </div>
-                          <span className="font-mono text-slate-400 text-xs">{Math.round(molecularState.simulationProgress)}%</span>
+                          <div className="flex items-center gap-2">
+                              <span className="font-mono text-slate-400 text-xs">{Math.round(molecularState.simulationProgress)}%</span>
+                              <button
+                                  onClick={molecularState.simulationPaused ? resumeSimulation : pauseSimulation}
+                                  className="p-1.5 rounded-md bg-slate-800 border border-slate-700 text-slate-300 hover:text-white hover:border-slate-500 transition-colors"
+                                  title={molecularState.simulationPaused ? 'Resume' : 'Pause'}
+                              >
+                                  {molecularState.simulationPaused ? <Play size={12} /> : <Pause size={12} />}
+                              </button>
+                              <button
+                                  onClick={stopSimulation}
+                                  className="p-1.5 rounded-md bg-slate-800 border border-slate-700 text-rose-400 hover:text-rose-300 hover:border-rose-500/50 transition-colors"
+                                  title="Stop and keep the final checkpoint"
+                              >
+                                  <Square size={12} />
+                              </button>
+                          </div>
                       </div>
+
+                      {molecularState.runProtocol && (
+                          <div className="flex flex-wrap gap-1.5 mb-4 text-[9px] font-mono uppercase">
+                              {[
+                                  molecularState.runProtocol.ensemble,
+                                  `${molecularState.runProtocol.temperature} K`,
+                                  ...(molecularState.runProtocol.ensemble === 'NPT' ? [`${molecularState.runProtocol.pressure} bar`, molecularState.runProtocol.barostat] : []),
+                                  ...(molecularState.runProtocol.ensemble !== 'NVE' ? [molecularState.runProtocol.thermostat] : []),
+                                  `dt ${parseFloat((molecularState.runProtocol.timestep * 1000).toFixed(2))} fs`,
+                                  `${molecularState.runProtocol.productionSteps} steps`,
+                                  `rc ${molecularState.runProtocol.cutoff} Å`,
+                                  `seed ${molecularState.runProtocol.seed}`
+                              ].map((tag, i) => (
+                                  <span key={i} className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700/50 text-slate-400">{tag}</span>
+                              ))}
+                          </div>
+                      )}
                       
                       <div className="grid grid-cols-3 gap-4 mb-4">
                           <div className="bg-slate-800/50 rounded-lg p-2 flex flex-col items-center border border-slate-700/50">
@@ -628,7 +1468,7 @@ const App: React.FC = () => {
                               </div>
                               <span className={`font-mono text-sm font-medium ${molecularState.simulationStage === 'equilibration' ? 'text-purple-300' : 'text-white'}`}>
                                   {molecularState.simulationData.length > 0 
-                                    ? molecularState.simulationData[molecularState.simulationData.length - 1].temperature.toFixed(0) 
+                                    ? molecularState.simulationData[molecularState.simulationData.length - 1].temperature?.toFixed(0) ?? '—'
                                     : '0'}
                               </span>
                           </div>
@@ -644,7 +1484,7 @@ const App: React.FC = () => {
                           </div>
                       </div>
 
-                      {/* NAMD Style Terminal Output */}
+                      {/* MD Engine Terminal Output */}
                       <div className="bg-black/80 rounded-lg p-2 border border-slate-700/50 font-mono text-[10px] text-green-400/90 overflow-hidden h-[80px] relative shadow-inner">
                         <div className="absolute top-1 right-2 opacity-30"><Terminal size={10} /></div>
                         <div className="flex flex-col-reverse h-full">
@@ -653,13 +1493,77 @@ const App: React.FC = () => {
                                     <span className="text-slate-500 mr-2">{`>`}</span>{log}
                                 </div>
                             ))}
-                            {molecularState.simulationLogs.length === 0 && <span className="text-slate-600 italic">Initializing NAMD engine...</span>}
+                            {molecularState.simulationLogs.length === 0 && <span className="text-slate-600 italic">Initializing MD engine...</span>}
                         </div>
                       </div>
                   </div>
               </div>
           )}
 
+          {/* Run cut off by a reload or project switch */}
+          {hasInterruptedRun && molecularState.checkpoint && !molecularState.checkpoint.finished && !molecularState.simulationRunning && (
+              <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-50 w-[440px] bg-slate-900/95 backdrop-blur-xl border border-slate-700 rounded-2xl shadow-2xl p-4 flex items-center gap-3">
+                  <History size={18} className="text-blue-400 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                      <span className="font-bold text-white text-sm block truncate">Interrupted run: {molecularState.pdbId}</span>
+                      <span className="text-[10px] text-slate-400 uppercase tracking-wider font-bold">
+                          {molecularState.checkpoint.stage} · step {molecularState.checkpoint.step} · {molecularState.checkpoint.time.toFixed(1)} ps · {new Date(molecularState.checkpoint.savedAt).toLocaleString()}
+                      </span>
+                  </div>
+                  <button
+                      onClick={resumeSimulation}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors"
+                  >
+                      <Play size={12} /> Resume
+                  </button>
+                  <button onClick={() => setHasInterruptedRun(false)} className="text-slate-500 hover:text-white transition-colors" title="Dismiss">
+                      <X size={16} />
+                  </button>
+              </div>
+          )}
+
+          {isSetupOpen && (
+              <SimulationSetup 
+                  protocol={molecularState.protocol}
+                  canRun={!!molecularState.parsedStructure && !molecularState.simulationRunning}
+                  onSave={(protocol) => {
+                      setMolecularState(prev => ({ ...prev, protocol }));
+                      setIsSetupOpen(false);
+                  }}
+                  onRun={(protocol) => {
+                      if (startSimulationRun(protocol)) {
+                          setIsSetupOpen(false);
+                          setViewMode('viewer');
+                      }
+                  }}
+                  onClose={() => setIsSetupOpen(false)}
+              />
+          )}
+
+          {isVersionsOpen && activeProjectId && (
+              <VersionControl
+                  projectId={activeProjectId}
+                  projectName={projects.find(p => p.id === activeProjectId)?.name ?? ''}
+                  canCheckout={!molecularState.simulationRunning}
+                  onCommit={handleCommitProject}
+                  onPush={handlePushProject}
+                  onCheckout={handleCheckoutRevision}
+                  onClose={() => setIsVersionsOpen(false)}
+              />
+          )}
+
+          {isAssistantSettingsOpen && (
+              <AssistantSettings
+                  settings={llmSettings}
+                  onSave={(settings) => {
+                      saveLLMSettings(settings);
+                      setLlmSettings(settings);
+                      setIsAssistantSettingsOpen(false);
+                  }}
+                  onClose={() => setIsAssistantSettingsOpen(false)}
+              />
+          )}
+
         </div>
       </div>
     </div>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   LineChart,
   Line,
@@ -8,17 +8,96 @@ import {
   Tooltip,
   ResponsiveContainer,
   AreaChart,
-  Area
+  Area,
+  Legend
 } from 'recharts';
-import { SimulationData } from '../types';
-import { Activity, Thermometer, Zap } from 'lucide-react';
+import { SimulationData, Trajectory, RMSDSettings, RMSDReference, RMSDSelection, NamedSelection, Measurement } from '../types';
+import { computeRMSDSeries } from '../services/trajectory';
+import { formatAtomRef, MEASUREMENT_UNITS, measurementSeries } from '../services/measurements';
+import { Activity, Ruler, Thermometer, Zap } from 'lucide-react';
 
 interface AnalysisPanelProps {
   data: SimulationData[];
   isRunning: boolean;
+  trajectory?: Trajectory;
+  rmsdSettings?: RMSDSettings;
+  onRmsdSettingsChange?: (settings: RMSDSettings) => void;
+  selections?: NamedSelection[]; // Saved selections offered for the fit
+  measurements?: Measurement[]; // Tracked ones are plotted over the trajectory
 }
 
-const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ data, isRunning }) => {
+const REFERENCE_OPTIONS: { value: RMSDReference; label: string }[] = [
+  { value: 'crystal', label: 'Crystal' },
+  { value: 'minimized', label: 'Minimized' },
+  { value: 'first', label: 'First Frame' }
+];
+
+const SELECTION_OPTIONS: { value: RMSDSelection; label: string }[] = [
+  { value: 'calpha', label: 'Cα' },
+  { value: 'backbone', label: 'Backbone' },
+  { value: 'heavy', label: 'Heavy Atoms' },
+  { value: 'range', label: 'Residue Range' }
+];
+
+const selectClassName = "bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] text-slate-300 focus:outline-none focus:border-blue-500";
+
+const NAMED_PREFIX = 'named:';
+
+const MEASUREMENT_COLORS = ['#22d3ee', '#a78bfa', '#f472b6', '#fb923c', '#4ade80', '#60a5fa'];
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ data, isRunning, trajectory, rmsdSettings, onRmsdSettingsChange, selections = [], measurements = [] }) => {
+  // Superposed RMSD over the stored frames; falls back to the engine's value when no coordinates exist
+  const rmsdSeries = useMemo(() => {
+    if (!trajectory || !rmsdSettings || trajectory.frames.length === 0) return null;
+    return computeRMSDSeries(trajectory, rmsdSettings);
+  }, [trajectory, rmsdSettings]);
+
+  const rmsdData = useMemo(() => {
+    if (!rmsdSeries) return data;
+    return data.map((point, i) => ({
+      ...point,
+      rmsd: Number.isFinite(rmsdSeries[i]) ? parseFloat(rmsdSeries[i].toFixed(3)) : point.rmsd
+    }));
+  }, [data, rmsdSeries]);
+
+  // Tracked measurements over the stored frames, one chart per unit (Å for distances, ° for angles and dihedrals)
+  const measurementCharts = useMemo(() => {
+    const charts: { unit: string; lines: Measurement[]; rows: Record<string, number>[] }[] = [];
+    const missing: Measurement[] = []; // Atoms absent from the trajectory, e.g. side chains of a Cα model
+    if (!trajectory || trajectory.frames.length === 0) return { charts, missing };
+    for (const measurement of measurements.filter(m => m.tracked)) {
+      const values = measurementSeries(trajectory, measurement);
+      if (!values) {
+        missing.push(measurement);
+        continue;
+      }
+      const unit = MEASUREMENT_UNITS[measurement.kind];
+      let chart = charts.find(c => c.unit === unit);
+      if (!chart) {
+        chart = { unit, lines: [], rows: trajectory.frames.map(frame => ({ time: frame.time })) };
+        charts.push(chart);
+      }
+      chart.lines.push(measurement);
+      values.forEach((value, i) => { chart!.rows[i][measurement.id] = parseFloat(value.toFixed(2)); });
+    }
+    return { charts, missing };
+  }, [trajectory, measurements]);
+
+  // Imported trajectories carry coordinates only
+  const hasEnergy = data.some(point => point.energy !== undefined);
+  const hasTemperature = data.some(point => point.temperature !== undefined);
+
+  const selectionIsEmpty = !!rmsdSeries && rmsdSeries.length > 0 && rmsdSeries.every(v => Number.isNaN(v));
+
+  const updateSettings = (patch: Partial<RMSDSettings>) => {
+    if (rmsdSettings && onRmsdSettingsChange) onRmsdSettingsChange({ ...rmsdSettings, ...patch });
+  };
+
+  // The fitted selection keeps its own copy, so it stays listed after the saved one is replaced
+  const namedOptions = rmsdSettings?.named && !selections.some(s => s.name === rmsdSettings.named!.name)
+    ? [...selections, rmsdSettings.named]
+    : selections;
+
   if (data.length === 0) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-slate-500 p-6 border border-slate-800 rounded-xl bg-slate-900">
@@ -39,11 +118,74 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ data, isRunning }) => {
             <Activity size={16} className="text-emerald-400" />
             <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">RMSD (Å)</h3>
           </div>
-          {isRunning && <span className="text-[10px] text-emerald-500 animate-pulse">RECORDING</span>}
+          <div className="flex items-center gap-2">
+            {rmsdSettings && onRmsdSettingsChange && trajectory && (
+              <>
+                <select 
+                  className={selectClassName}
+                  value={rmsdSettings.selection === 'named' && rmsdSettings.named ? NAMED_PREFIX + rmsdSettings.named.name : rmsdSettings.selection}
+                  onChange={(e) => {
+                    if (e.target.value.startsWith(NAMED_PREFIX)) {
+                      const named = namedOptions.find(s => NAMED_PREFIX + s.name === e.target.value);
+                      if (named) updateSettings({ selection: 'named', named });
+                      return;
+                    }
+                    const selection = e.target.value as RMSDSelection;
+                    updateSettings({ selection, range: selection === 'range' ? rmsdSettings.range || { start: 1, end: 10 } : rmsdSettings.range });
+                  }}
+                  title={rmsdSettings.selection === 'named' && rmsdSettings.named ? rmsdSettings.named.expression : 'Atom selection'}
+                >
+                  {SELECTION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  {namedOptions.length > 0 && (
+                    <optgroup label="Saved selections">
+                      {namedOptions.map(s => <option key={s.name} value={NAMED_PREFIX + s.name}>{s.name}</option>)}
+                    </optgroup>
+                  )}
+                </select>
+                {rmsdSettings.selection === 'range' && rmsdSettings.range && (
+                  <div className="flex items-center gap-1 text-[10px] text-slate-500">
+                    <input 
+                      className={`${selectClassName} w-8`}
+                      placeholder="Ch"
+                      value={rmsdSettings.range.chainId || ''}
+                      onChange={(e) => updateSettings({ range: { ...rmsdSettings.range!, chainId: e.target.value.trim() || undefined } })}
+                      title="Chain ID (blank for all chains)"
+                    />
+                    <input 
+                      type="number"
+                      className={`${selectClassName} w-12`}
+                      value={rmsdSettings.range.start}
+                      onChange={(e) => updateSettings({ range: { ...rmsdSettings.range!, start: parseInt(e.target.value, 10) || 0 } })}
+                    />
+                    <span>–</span>
+                    <input 
+                      type="number"
+                      className={`${selectClassName} w-12`}
+                      value={rmsdSettings.range.end}
+                      onChange={(e) => updateSettings({ range: { ...rmsdSettings.range!, end: parseInt(e.target.value, 10) || 0 } })}
+                    />
+                  </div>
+                )}
+                <span className="text-[10px] text-slate-500">vs</span>
+                <select 
+                  className={selectClassName}
+                  value={rmsdSettings.reference}
+                  onChange={(e) => updateSettings({ reference: e.target.value as RMSDReference })}
+                  title="Reference structure"
+                >
+                  {REFERENCE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              </>
+            )}
+            {isRunning && <span className="text-[10px] text-emerald-500 animate-pulse">RECORDING</span>}
+          </div>
         </div>
+        {selectionIsEmpty && (
+          <p className="text-[10px] text-amber-400 mb-2">No trajectory atoms match this selection; showing the engine's Cα RMSD instead.</p>
+        )}
         <div className="h-[150px] w-full">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={data}>
+            <LineChart data={rmsdData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
               <XAxis dataKey="time" stroke="#475569" tick={{fontSize: 10}} />
               <YAxis stroke="#475569" tick={{fontSize: 10}} domain={['auto', 'auto']} />
@@ -65,72 +207,124 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ data, isRunning }) => {
       </div>
 
       {/* Energy Chart */}
-      <div className="bg-slate-900 border border-slate-800 p-4 rounded-xl shadow-lg">
-        <div className="flex items-center justify-between mb-4">
-          <div className="flex items-center gap-2">
-            <Zap size={16} className="text-yellow-400" />
-            <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">Potential Energy (kcal/mol)</h3>
+      {hasEnergy && (
+        <div className="bg-slate-900 border border-slate-800 p-4 rounded-xl shadow-lg">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Zap size={16} className="text-yellow-400" />
+              <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">Potential Energy (kcal/mol)</h3>
+            </div>
+          </div>
+          <div className="h-[150px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={data}>
+                <defs>
+                  <linearGradient id="colorEnergy" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#facc15" stopOpacity={0.3}/>
+                    <stop offset="95%" stopColor="#facc15" stopOpacity={0}/>
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                <XAxis dataKey="time" stroke="#475569" tick={{fontSize: 10}} />
+                <YAxis stroke="#475569" tick={{fontSize: 10}} domain={['auto', 'auto']} />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+                  itemStyle={{ color: '#facc15' }}
+                />
+                <Area 
+                  type="monotone" 
+                  dataKey="energy" 
+                  stroke="#facc15" 
+                  fillOpacity={1} 
+                  fill="url(#colorEnergy)" 
+                  isAnimationActive={false}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
           </div>
         </div>
-        <div className="h-[150px] w-full">
-          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={data}>
-              <defs>
-                <linearGradient id="colorEnergy" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="#facc15" stopOpacity={0.3}/>
-                  <stop offset="95%" stopColor="#facc15" stopOpacity={0}/>
-                </linearGradient>
-              </defs>
-              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
-              <XAxis dataKey="time" stroke="#475569" tick={{fontSize: 10}} />
-              <YAxis stroke="#475569" tick={{fontSize: 10}} domain={['auto', 'auto']} />
-              <Tooltip 
-                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
-                itemStyle={{ color: '#facc15' }}
-              />
-              <Area 
-                type="monotone" 
-                dataKey="energy" 
-                stroke="#facc15" 
-                fillOpacity={1} 
-                fill="url(#colorEnergy)" 
-                isAnimationActive={false}
-              />
-            </AreaChart>
-          </ResponsiveContainer>
-        </div>
-      </div>
+      )}
 
       {/* Temperature Chart */}
-      <div className="bg-slate-900 border border-slate-800 p-4 rounded-xl shadow-lg">
-        <div className="flex items-center justify-between mb-4">
-          <div className="flex items-center gap-2">
-            <Thermometer size={16} className="text-rose-400" />
-            <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">Temperature (K)</h3>
+      {hasTemperature && (
+        <div className="bg-slate-900 border border-slate-800 p-4 rounded-xl shadow-lg">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Thermometer size={16} className="text-rose-400" />
+              <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">Temperature (K)</h3>
+            </div>
+          </div>
+          <div className="h-[150px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                <XAxis dataKey="time" stroke="#475569" tick={{fontSize: 10}} />
+                <YAxis stroke="#475569" tick={{fontSize: 10}} domain={['auto', 'auto']} />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+                  itemStyle={{ color: '#fb7185' }}
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="temperature" 
+                  stroke="#fb7185" 
+                  strokeWidth={2} 
+                  dot={false} 
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
           </div>
         </div>
-        <div className="h-[150px] w-full">
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={data}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
-              <XAxis dataKey="time" stroke="#475569" tick={{fontSize: 10}} />
-              <YAxis stroke="#475569" tick={{fontSize: 10}} domain={[290, 310]} />
-              <Tooltip 
-                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
-                itemStyle={{ color: '#fb7185' }}
-              />
-              <Line 
-                type="monotone" 
-                dataKey="temperature" 
-                stroke="#fb7185" 
-                strokeWidth={2} 
-                dot={false} 
-                isAnimationActive={false}
-              />
-            </LineChart>
-          </ResponsiveContainer>
+      )}
+
+      {/* Measurement Charts */}
+      {measurementCharts.charts.map(({ unit, lines, rows }) => (
+        <div key={unit} className="bg-slate-900 border border-slate-800 p-4 rounded-xl shadow-lg">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Ruler size={16} className="text-cyan-400" />
+              <h3 className="text-xs font-bold text-slate-300 uppercase tracking-wider">{unit === 'Å' ? 'Distances' : 'Angles'} ({unit})</h3>
+            </div>
+          </div>
+          <div className="h-[150px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                <XAxis dataKey="time" stroke="#475569" tick={{fontSize: 10}} />
+                <YAxis stroke="#475569" tick={{fontSize: 10}} domain={['auto', 'auto']} />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+                />
+                <Legend wrapperStyle={{ fontSize: '10px' }} />
+                {lines.map((measurement, i) => (
+                  <Line 
+                    key={measurement.id}
+                    type="monotone" 
+                    dataKey={measurement.id} 
+                    name={measurement.atoms.map(formatAtomRef).join(' – ')}
+                    stroke={MEASUREMENT_COLORS[i % MEASUREMENT_COLORS.length]} 
+                    strokeWidth={2} 
+                    dot={false} 
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
         </div>
-      </div>
+      ))}
+      {measurementCharts.missing.length > 0 && (
+        <p className="text-[10px] text-amber-400 px-1">
+          Not in the trajectory's atoms, so not plotted: {measurementCharts.missing.map(m => m.atoms.map(formatAtomRef).join(' – ')).join('; ')}.
+        </p>
+      )}
+
+      {!hasEnergy && !hasTemperature && trajectory?.source && (
+        <p className="text-[10px] text-slate-500 px-1">
+          Energy and temperature are not stored in {trajectory.source.format.toUpperCase()} files; only coordinate-based analyses are shown.
+        </p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { createProvider, defaultLLMSettings, LLM_PROVIDERS, LLMProviderId, LLMSettings } from '../services/llmProviders';
+import { Bot, Loader2, PlugZap, X } from 'lucide-react';
+
+interface AssistantSettingsProps {
+  settings: LLMSettings;
+  onSave: (settings: LLMSettings) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500";
+const labelClassName = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+const AssistantSettings: React.FC<AssistantSettingsProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LLMSettings>(settings);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const update = (field: keyof LLMSettings, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    setTestResult(null);
+  };
+
+  // Switching backends starts from that backend's defaults
+  const selectProvider = (provider: LLMProviderId) => {
+    setDraft(prev => provider === settings.provider ? { ...settings, localFirst: prev.localFirst } : { ...defaultLLMSettings(provider), localFirst: prev.localFirst });
+    setTestResult(null);
+  };
+
+  const testConnection = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const reply = await createProvider(draft).generate({ prompt: 'Reply with the single word OK.' });
+      setTestResult({ ok: true, text: `Connected. The model replied: "${reply.trim().slice(0, 80)}"` });
+    } catch (e) {
+      setTestResult({ ok: false, text: e instanceof Error ? e.message : 'The request failed.' });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-[440px] bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-bold text-slate-200 flex items-center gap-2">
+            <Bot size={16} className="text-blue-400" /> Assistant Model
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className={labelClassName}>Provider</span>
+            <select className={inputClassName} value={draft.provider} onChange={(e) => selectProvider(e.target.value as LLMProviderId)}>
+              {(Object.keys(LLM_PROVIDERS) as LLMProviderId[]).map(id => (
+                <option key={id} value={id}>{LLM_PROVIDERS[id].label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className={labelClassName}>Model</span>
+            <input className={inputClassName} value={draft.model} disabled={draft.provider === 'mock'} onChange={(e) => update('model', e.target.value)} />
+          </label>
+          {draft.provider === 'openai' && (
+            <label className="block col-span-2">
+              <span className={labelClassName}>Endpoint URL</span>
+              <input className={inputClassName} value={draft.baseUrl} placeholder="http://localhost:11434/v1" onChange={(e) => update('baseUrl', e.target.value)} />
+            </label>
+          )}
+          {draft.provider !== 'mock' && (
+            <label className="block col-span-2">
+              <span className={labelClassName}>API key{draft.provider === 'openai' ? ' (optional for local servers)' : ''}</span>
+              <input type="password" className={inputClassName} value={draft.apiKey} onChange={(e) => update('apiKey', e.target.value)} />
+            </label>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            className="accent-blue-500"
+            checked={draft.localFirst}
+            onChange={(e) => setDraft(prev => ({ ...prev, localFirst: e.target.checked }))}
+          />
+          Handle routine commands offline (load, style, color, spin, run controls)
+        </label>
+
+        <div className="text-[10px] text-slate-500 space-y-1">
+          {draft.provider === 'openai' && <p>Any Chat Completions endpoint works: OpenAI, Ollama, llama.cpp, vLLM or LM Studio. Local servers must allow requests from this page (CORS).</p>}
+          {draft.provider === 'mock' && <p>The mock provider answers without a model; only commands the offline parser understands work.</p>}
+          <p>Settings and keys are stored in this browser only.</p>
+          {testResult && <p className={testResult.ok ? 'text-emerald-400' : 'text-rose-400'}>{testResult.text}</p>}
+        </div>
+
+        <div className="flex items-center justify-between pt-1">
+          <button
+            onClick={testConnection}
+            disabled={isTesting}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white disabled:opacity-40 transition-colors"
+          >
+            {isTesting ? <Loader2 size={12} className="animate-spin" /> : <PlugZap size={12} />} Test
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, model: draft.model.trim(), baseUrl: draft.baseUrl.trim(), apiKey: draft.apiKey.trim() })}
+            className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssistantSettings;
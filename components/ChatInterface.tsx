@@ -1,31 +1,46 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Message, Sender, Project } from '../types';
-import { Send, Loader2, Bot, User, Folder, MessageSquare, Plus, Trash2, Clock, ChevronRight, FileText, Text } from 'lucide-react';
+import { Send, Loader2, Bot, User, Folder, MessageSquare, Plus, Trash2, Clock, ChevronRight, FileText, Text, Download, Upload, Square } from 'lucide-react';
 
 interface ChatInterfaceProps {
   messages: Message[];
   onSendMessage: (text: string) => void;
   isProcessing: boolean;
+  isGenerating?: boolean; // A model reply is streaming
+  onStopGeneration?: () => void;
   projects: Project[];
   activeProjectId: string | null;
   onSelectProject: (id: string) => void;
   onCreateProject: () => void;
   onDeleteProject: (id: string) => void;
+  runStatus?: Record<string, { progress: number; paused: boolean }>; // Projects with a run in progress, including in the background
+  onExportProject?: (id: string) => void;
+  onImportProject?: (file: File) => void;
+  llmProvider: string; // Label of the assistant's provider, e.g. "Google Gemini"
+  llmModel: string;
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   messages, 
   onSendMessage, 
   isProcessing,
+  isGenerating = false,
+  onStopGeneration,
   projects,
   activeProjectId,
   onSelectProject,
   onCreateProject,
-  onDeleteProject
+  onDeleteProject,
+  runStatus = {},
+  onExportProject,
+  onImportProject,
+  llmProvider,
+  llmModel
 }) => {
   const [activeTab, setActiveTab] = useState<'chat' | 'projects'>('chat');
   const [inputValue, setInputValue] = useState('');
+  const isStreamingReply = messages.some(msg => msg.isStreaming);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -155,11 +170,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                             }`}
                         >
                             {msg.text}
+                            {msg.isStreaming && <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-slate-400 animate-pulse" />}
                         </div>
                     </div>
                 </div>
                 ))}
-                {isProcessing && (
+                {isProcessing && !isStreamingReply && (
                 <div className="flex w-full justify-start">
                     <div className="flex max-w-[85%] gap-2 flex-row">
                         <div className="w-6 h-6 rounded-full bg-blue-600 flex items-center justify-center flex-shrink-0 mt-1">
@@ -192,6 +208,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                     disabled={isProcessing}
                     style={{ minHeight: '46px', maxHeight: '120px' }}
                 />
+                {isGenerating && onStopGeneration ? (
+                <button
+                    onClick={onStopGeneration}
+                    className="absolute right-2 bottom-2 p-2 bg-slate-700 text-white rounded-lg hover:bg-rose-600 transition-colors h-8 w-8 flex items-center justify-center"
+                    title="Stop generating"
+                >
+                    <Square size={12} fill="currentColor" />
+                </button>
+                ) : (
                 <button
                     onClick={handleSend}
                     disabled={!inputValue.trim() || isProcessing}
@@ -199,9 +224,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 >
                     {isProcessing ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
                 </button>
+                )}
                 </div>
                 <div className="mt-2 flex justify-between text-[10px] text-slate-500 font-mono">
-                    <span>Gemini 2.5 Active</span>
+                    <span className="min-w-0 truncate" title={`${llmProvider} (${llmModel})`}>{llmProvider} · {llmModel}</span>
                     <span>v1.0.5</span>
                 </div>
             </div>
@@ -212,13 +238,31 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             <div className="flex-1 overflow-y-auto p-4">
                 <div className="flex items-center justify-between mb-6">
                     <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Recent Simulations</h3>
-                    <button 
-                        onClick={onCreateProject}
-                        className="flex items-center gap-1 text-blue-400 hover:text-blue-300 text-xs font-medium transition-colors"
-                    >
-                        <Plus size={14} />
-                        New Project
-                    </button>
+                    <div className="flex items-center gap-3">
+                        {onImportProject && (
+                            <label className="flex items-center gap-1 text-slate-400 hover:text-slate-200 text-xs font-medium transition-colors cursor-pointer" title="Import a project archive (.zip)">
+                                <Upload size={14} />
+                                Import
+                                <input 
+                                    type="file" 
+                                    accept=".zip" 
+                                    className="hidden" 
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) onImportProject(file);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                        )}
+                        <button 
+                            onClick={onCreateProject}
+                            className="flex items-center gap-1 text-blue-400 hover:text-blue-300 text-xs font-medium transition-colors"
+                        >
+                            <Plus size={14} />
+                            New Project
+                        </button>
+                    </div>
                 </div>
 
                 <div className="space-y-3">
@@ -245,12 +289,23 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                         {project.name}
                                     </span>
                                 </div>
-                                <button 
-                                    onClick={(e) => { e.stopPropagation(); onDeleteProject(project.id); }}
-                                    className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded-md transition-colors opacity-0 group-hover:opacity-100"
-                                >
-                                    <Trash2 size={12} />
-                                </button>
+                                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                    {onExportProject && (
+                                        <button 
+                                            onClick={(e) => { e.stopPropagation(); onExportProject(project.id); }}
+                                            className="p-1.5 text-slate-500 hover:text-blue-400 hover:bg-blue-400/10 rounded-md transition-colors"
+                                            title="Export as .zip"
+                                        >
+                                            <Download size={12} />
+                                        </button>
+                                    )}
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); onDeleteProject(project.id); }}
+                                        className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded-md transition-colors"
+                                    >
+                                        <Trash2 size={12} />
+                                    </button>
+                                </div>
                              </div>
 
                              <div className="flex items-center gap-4 pl-9">
@@ -272,6 +327,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                                  }`}>
                                      {project.status}
                                  </span>
+                                 {runStatus[project.id] && (
+                                     <span className="px-2 py-0.5 rounded-full text-[10px] border bg-purple-500/10 border-purple-500/20 text-purple-300 font-mono">
+                                         {runStatus[project.id].paused ? 'paused' : 'running'} {Math.round(runStatus[project.id].progress)}%
+                                     </span>
+                                 )}
                              </div>
                         </div>
                     ))}
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { GitCompare, Plus, X } from 'lucide-react';
+import { ComparedStructure } from '../types';
+import { isStructureId } from '../services/structureSources';
+import { DEVIATION_GRADIENT, DEVIATION_SCALE_MAX, REFERENCE_COLOR, UNALIGNED_COLOR } from '../services/structureComparison';
+
+interface ComparisonPanelProps {
+  referenceId: string;
+  comparisons: ComparedStructure[];
+  onCompare: (pdbId: string) => Promise<boolean>;
+  onComparisonsChange: (comparisons: ComparedStructure[]) => void;
+  onClose: () => void;
+}
+
+// Color key for compare mode, also shown on its own while the panel is closed
+export const DeviationLegend: React.FC = () => (
+  <div className="flex items-center gap-2 text-[9px] text-slate-400 font-mono">
+    <span className="flex items-center gap-1">
+      <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: REFERENCE_COLOR }} /> ref
+    </span>
+    <span>0</span>
+    <span className="w-16 h-2 rounded-sm" style={{ background: `linear-gradient(to right, ${DEVIATION_GRADIENT.join(', ')})` }} />
+    <span>≥{DEVIATION_SCALE_MAX} Å</span>
+    <span className="flex items-center gap-1">
+      <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: UNALIGNED_COLOR }} /> unaligned
+    </span>
+  </div>
+);
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ referenceId, comparisons, onCompare, onComparisonsChange, onClose }) => {
+  const [pdbId, setPdbId] = useState('');
+  const [isComparing, setIsComparing] = useState(false);
+  const id = pdbId.trim();
+  const isValid = isStructureId(id);
+
+  const handleCompare = async () => {
+    if (!isValid || isComparing) return;
+    setIsComparing(true);
+    try {
+      if (await onCompare(id)) setPdbId('');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <div className="w-72 bg-slate-900/95 backdrop-blur-md border border-slate-700 rounded-lg shadow-xl p-3 space-y-3 text-slate-300">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold uppercase tracking-wider flex items-center gap-2">
+          <GitCompare size={12} className="text-violet-400" /> Compare with {referenceId}
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={pdbId}
+          onChange={(e) => setPdbId(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleCompare(); }}
+          placeholder="PDB or AlphaFold ID"
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-violet-500"
+        />
+        <button
+          disabled={!isValid || isComparing}
+          onClick={handleCompare}
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-violet-600 hover:bg-violet-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-xs font-medium transition-colors"
+          title="Align by sequence and superpose onto the loaded structure"
+        >
+          {isComparing ? <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-white" /> : <Plus size={12} />}
+          Add
+        </button>
+      </div>
+      {id && !isValid && <p className="text-[10px] text-amber-400">Enter a PDB ID (e.g. 1UBQ) or AlphaFold ID (e.g. AF-P69905-F1).</p>}
+
+      {comparisons.length > 0 ? (
+        <ul className="space-y-1 max-h-56 overflow-y-auto">
+          {comparisons.map(compared => (
+            <li key={`${compared.source ?? ''}:${compared.pdbId}`} className="flex items-center gap-2 px-2 py-1 rounded bg-slate-800/60 text-[10px]">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono text-slate-200 truncate">{compared.pdbId}</span>
+                  <span className="font-mono text-violet-300">TM {compared.tmScore.toFixed(2)}</span>
+                </div>
+                <div className="text-slate-500">
+                  RMSD {compared.rmsd.toFixed(2)} Å · {compared.alignedResidues}/{compared.referenceResidues} Cα · {Math.round(compared.identity * 100)}% id
+                </div>
+              </div>
+              <button
+                onClick={() => onComparisonsChange(comparisons.filter(other => other !== compared))}
+                className="shrink-0 text-slate-500 hover:text-red-400 transition-colors"
+                title="Remove from comparison"
+              >
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-[10px] text-slate-600 text-center py-2">
+          Structures added here are aligned by sequence, superposed on their Cα atoms and colored by deviation.
+        </p>
+      )}
+
+      {comparisons.length > 0 && (
+        <>
+          <DeviationLegend />
+          <button
+            onClick={() => onComparisonsChange([])}
+            className="w-full py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-medium transition-colors"
+          >
+            Exit compare mode
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
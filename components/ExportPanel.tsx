@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Camera, Film, X } from 'lucide-react';
+import { CommandParams, CommandType, MovieFormat, MovieMotion } from '../types';
+import {
+  DEFAULT_IMAGE_SCALE, DEFAULT_MOVIE_FPS, DEFAULT_SUPERSAMPLING, ExportedMedia, GIF_MAX_WIDTH, ImageSize, imageSize, MAX_IMAGE_SIZE, MAX_MOVIE_FPS, MAX_MOVIE_SECONDS, planMovie, SUPERSAMPLING_LEVELS
+} from '../services/mediaExport';
+
+interface ExportPanelProps {
+  viewSize: ImageSize;
+  trajectoryFrames: number;
+  onExportImage: (params: CommandParams[CommandType.EXPORT_IMAGE]) => Promise<ExportedMedia>;
+  onExportMovie: (params: CommandParams[CommandType.EXPORT_MOVIE], onProgress?: (fraction: number) => void) => Promise<ExportedMedia>;
+  onClose: () => void;
+}
+
+const SCALES = [1, 2, 4];
+
+const toggleClass = (active: boolean) => `py-1 rounded text-[10px] font-medium transition-colors ${
+  active ? 'bg-pink-600/30 text-pink-300 border border-pink-500/50' : 'bg-slate-800 text-slate-400 border border-transparent hover:text-white'
+}`;
+
+const NUMBER_CLASS = 'w-14 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] font-mono text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-pink-500';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ viewSize, trajectoryFrames, onExportImage, onExportMovie, onClose }) => {
+  const [scale, setScale] = useState(DEFAULT_IMAGE_SCALE);
+  const [supersampling, setSupersampling] = useState(DEFAULT_SUPERSAMPLING);
+  const [transparent, setTransparent] = useState(false);
+  const [format, setFormat] = useState<MovieFormat>('webm');
+  const [motion, setMotion] = useState<MovieMotion>(trajectoryFrames > 1 ? 'trajectory' : 'spin');
+  const [fps, setFps] = useState('');
+  const [duration, setDuration] = useState('');
+  const [busy, setBusy] = useState<'image' | 'movie' | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [status, setStatus] = useState<{ text: string; error: boolean } | null>(null);
+
+  const size = imageSize(viewSize, { scale });
+  const tooLarge = Math.max(size.width, size.height) * supersampling > MAX_IMAGE_SIZE;
+  const hasTrajectory = trajectoryFrames > 1;
+  const movieMotion = hasTrajectory ? motion : 'spin';
+  const movieParams: CommandParams[CommandType.EXPORT_MOVIE] = {
+    format,
+    motion: movieMotion,
+    ...(Number(fps) > 0 ? { fps: Math.min(Math.max(Math.round(Number(fps)), 1), MAX_MOVIE_FPS) } : {}),
+    ...(Number(duration) > 0 ? { duration: Math.min(Math.max(Number(duration), 0.5), MAX_MOVIE_SECONDS) } : {})
+  };
+  const plan = planMovie({ motion: movieMotion, fps: movieParams.fps }, trajectoryFrames);
+
+  const run = async (kind: 'image' | 'movie', exportMedia: () => Promise<ExportedMedia>) => {
+    setBusy(kind);
+    setProgress(0);
+    setStatus(null);
+    try {
+      const media = await exportMedia();
+      setStatus({ text: `Saved ${media.fileName} (${media.width}×${media.height} px${media.frames ? `, ${media.frames} frames` : ''}).`, error: false });
+    } catch (error) {
+      setStatus({ text: error instanceof Error ? error.message : 'Export failed.', error: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="w-72 bg-slate-900/95 backdrop-blur-md border border-slate-700 rounded-lg shadow-xl p-3 space-y-3 text-slate-300">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold uppercase tracking-wider flex items-center gap-2">
+          <Camera size={12} className="text-pink-400" /> Export View
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-[10px]">
+          <span className="font-bold uppercase text-slate-500">PNG image</span>
+          <span className="font-mono text-slate-400">{size.width}×{size.height} px</span>
+        </div>
+        <div className="grid grid-cols-3 gap-1">
+          {SCALES.map(s => (
+            <button key={s} onClick={() => setScale(s)} className={toggleClass(s === scale)} title={`${s}× the view size`}>{s}×</button>
+          ))}
+        </div>
+        <div className="flex items-center justify-between text-[10px]">
+          <label className="flex items-center gap-1.5" title="Render larger and scale down for smooth edges">
+            Supersampling
+            <select
+              value={supersampling}
+              onChange={(e) => setSupersampling(Number(e.target.value))}
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] focus:outline-none"
+            >
+              {SUPERSAMPLING_LEVELS.map(level => <option key={level} value={level}>{level === 1 ? 'Off' : `${level}×`}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} className="accent-pink-500" />
+            Transparent
+          </label>
+        </div>
+        <button
+          disabled={busy !== null || tooLarge}
+          onClick={() => run('image', () => onExportImage({ scale, supersampling, transparent }))}
+          className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded-md bg-pink-600 hover:bg-pink-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-xs font-medium transition-colors"
+        >
+          {busy === 'image' ? <span className="animate-spin rounded-full h-3 w-3 border-b-2 border-white" /> : <Camera size={12} />}
+          Save PNG
+        </button>
+        {tooLarge && <p className="text-[10px] text-amber-400">Over the {MAX_IMAGE_SIZE} px rendering limit; lower the size or the supersampling.</p>}
+      </div>
+
+      <div className="space-y-2 pt-2 border-t border-slate-800">
+        <span className="text-[10px] font-bold uppercase text-slate-500">Movie</span>
+        <div className="grid grid-cols-2 gap-1">
+          {(['webm', 'gif'] as MovieFormat[]).map(f => (
+            <button key={f} onClick={() => setFormat(f)} className={toggleClass(f === format)}>{f === 'webm' ? 'WebM' : 'GIF'}</button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          <button onClick={() => setMotion('spin')} className={toggleClass(movieMotion === 'spin')}>Spin</button>
+          <button
+            disabled={!hasTrajectory}
+            onClick={() => setMotion('trajectory')}
+            className={`${toggleClass(movieMotion === 'trajectory')} disabled:opacity-40 disabled:hover:text-slate-400`}
+            title={hasTrajectory ? `Play the ${trajectoryFrames} trajectory frames` : 'No trajectory loaded'}
+          >
+            Trajectory
+          </button>
+        </div>
+        <div className="flex items-center gap-3 text-[10px]">
+          <label className="flex items-center gap-1.5">
+            FPS
+            <input type="number" min={1} max={MAX_MOVIE_FPS} value={fps} onChange={(e) => setFps(e.target.value)} placeholder={String(DEFAULT_MOVIE_FPS)} className={NUMBER_CLASS} />
+          </label>
+          <label className="flex items-center gap-1.5">
+            Seconds
+            <input
+              type="number" min={0.5} max={MAX_MOVIE_SECONDS} step={0.5}
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              placeholder={(plan.frames / plan.fps).toFixed(1)}
+              className={NUMBER_CLASS}
+            />
+          </label>
+        </div>
+        <button
+          disabled={busy !== null}
+          onClick={() => run('movie', () => onExportMovie(movieParams, setProgress))}
+          className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded-md bg-pink-600 hover:bg-pink-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-xs font-medium transition-colors"
+        >
+          <Film size={12} />
+          {busy === 'movie' ? `Recording… ${Math.round(progress * 100)}%` : 'Record movie'}
+        </button>
+        {busy === 'movie' && (
+          <div className="h-1 rounded bg-slate-800 overflow-hidden">
+            <div className="h-full bg-pink-500 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+        <p className="text-[10px] text-slate-600">WebM records in real time; GIFs are at most {GIF_MAX_WIDTH} px wide.</p>
+      </div>
+
+      {status && <p className={`text-[10px] break-all ${status.error ? 'text-red-400' : 'text-emerald-400'}`}>{status.text}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
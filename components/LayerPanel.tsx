@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, Layers, Plus, Trash2, X } from 'lucide-react';
+import { Atom, ColorScheme, NamedSelection, Representation, RepresentationLayer } from '../types';
+import { COLOR_SCHEMES, REPRESENTATIONS } from '../services/commandTools';
+import { describeSelection, resolveSelection, selectAtoms } from '../services/atomSelection';
+import { createLayer, defaultOpacity, MAX_LAYERS } from '../services/representationLayers';
+
+interface LayerPanelProps {
+  layers: RepresentationLayer[];
+  representation: Representation; // Base representation, always drawn under the layers
+  colorScheme: ColorScheme;
+  atoms?: Atom[]; // Loaded structure; new selections are checked against it
+  selections: NamedSelection[];
+  onLayersChange: (layers: RepresentationLayer[]) => void;
+  onClose: () => void;
+}
+
+const SELECT_CLASS = 'bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200 focus:outline-none focus:border-emerald-500';
+
+const LayerPanel: React.FC<LayerPanelProps> = ({ layers, representation, colorScheme, atoms, selections, onLayersChange, onClose }) => {
+  const [style, setStyle] = useState<Representation>('licorice');
+  const [selection, setSelection] = useState('ligand');
+  const [color, setColor] = useState<ColorScheme>('element');
+  const [opacity, setOpacity] = useState(defaultOpacity('licorice'));
+
+  // The new layer's selection with saved names resolved, or why it can't be drawn
+  let preview: { expression: string; summary: string } | { error: string } | null = null;
+  if (selection.trim() && atoms) {
+    try {
+      const expression = resolveSelection(selection.trim(), selections);
+      const indices = selectAtoms(atoms, expression);
+      preview = indices.length > 0 ? { expression, summary: describeSelection(atoms, indices) } : { error: 'No atoms match.' };
+    } catch (error) {
+      preview = { error: error instanceof Error ? error.message : 'Invalid selection.' };
+    }
+  }
+  const canAdd = !!preview && 'expression' in preview && layers.length < MAX_LAYERS;
+
+  const handleAdd = () => {
+    if (!preview || !('expression' in preview) || !canAdd) return;
+    onLayersChange([...layers, createLayer(style, preview.expression, color, opacity)]);
+  };
+
+  const update = (id: string, changes: Partial<RepresentationLayer>) =>
+    onLayersChange(layers.map(layer => layer.id === id ? { ...layer, ...changes } : layer));
+
+  const move = (index: number, offset: number) => {
+    const moved = [...layers];
+    [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+    onLayersChange(moved);
+  };
+
+  return (
+    <div className="w-80 bg-slate-900/95 backdrop-blur-md border border-slate-700 rounded-lg shadow-xl p-3 space-y-3 text-slate-300">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold uppercase tracking-wider flex items-center gap-2">
+          <Layers size={12} className="text-emerald-400" /> Layers
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* Top of the stack first, as drawn */}
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+          <li key={layer.id} className={`px-2 py-1.5 rounded bg-slate-800/60 text-[10px] space-y-1 ${layer.visible ? '' : 'opacity-50'}`}>
+            <div className="flex items-center gap-1.5">
+              <span className="w-4 font-mono text-slate-500">{index + 1}</span>
+              <button
+                onClick={() => update(layer.id, { visible: !layer.visible })}
+                className="shrink-0 text-slate-400 hover:text-white transition-colors"
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+              >
+                {layer.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+              </button>
+              <select value={layer.representation} onChange={(e) => update(layer.id, { representation: e.target.value as Representation })} className={SELECT_CLASS}>
+                {REPRESENTATIONS.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+              <select value={layer.colorScheme} onChange={(e) => update(layer.id, { colorScheme: e.target.value as ColorScheme })} className={SELECT_CLASS}>
+                {COLOR_SCHEMES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <div className="flex-1" />
+              <button
+                disabled={index === layers.length - 1}
+                onClick={() => move(index, 1)}
+                className="shrink-0 text-slate-500 hover:text-white disabled:text-slate-700 transition-colors"
+                title="Move up"
+              >
+                <ChevronUp size={12} />
+              </button>
+              <button
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+                className="shrink-0 text-slate-500 hover:text-white disabled:text-slate-700 transition-colors"
+                title="Move down"
+              >
+                <ChevronDown size={12} />
+              </button>
+              <button
+                onClick={() => onLayersChange(layers.filter(other => other.id !== layer.id))}
+                className="shrink-0 text-slate-500 hover:text-red-400 transition-colors"
+                title="Remove layer"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+            <div className="flex items-center gap-2 pl-5">
+              <span className="flex-1 min-w-0 font-mono text-slate-400 truncate" title={layer.selection}>{layer.selection}</span>
+              <input
+                type="range" min={0.1} max={1} step={0.05}
+                value={layer.opacity}
+                onChange={(e) => update(layer.id, { opacity: Number(e.target.value) })}
+                className="w-16 accent-emerald-500"
+                title={`Opacity ${Math.round(layer.opacity * 100)}%`}
+              />
+            </div>
+          </li>
+        ))}
+        <li className="flex items-center gap-1.5 px-2 py-1.5 rounded border border-dashed border-slate-700 text-[10px] text-slate-500">
+          <span className="w-4" />
+          Base: <span className="text-slate-300">{representation}</span> of all atoms, <span className="text-slate-300">{colorScheme}</span> colors
+        </li>
+      </ul>
+
+      <div className="space-y-1.5 pt-1 border-t border-slate-800">
+        <div className="flex items-center gap-1.5">
+          <select
+            value={style}
+            onChange={(e) => {
+              const next = e.target.value as Representation;
+              setStyle(next);
+              setOpacity(defaultOpacity(next));
+            }}
+            className={SELECT_CLASS}
+          >
+            {REPRESENTATIONS.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <select value={color} onChange={(e) => setColor(e.target.value as ColorScheme)} className={SELECT_CLASS}>
+            {COLOR_SCHEMES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <input
+            type="range" min={0.1} max={1} step={0.05}
+            value={opacity}
+            onChange={(e) => setOpacity(Number(e.target.value))}
+            className="flex-1 min-w-0 accent-emerald-500"
+            title={`Opacity ${Math.round(opacity * 100)}%`}
+          />
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={selection}
+            onChange={(e) => setSelection(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+            placeholder="Selection, e.g. byres within 5 of ligand"
+            className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-emerald-500"
+          />
+          <button
+            disabled={!canAdd}
+            onClick={handleAdd}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-xs font-medium transition-colors"
+            title={layers.length >= MAX_LAYERS ? `At most ${MAX_LAYERS} layers` : 'Add the layer on top'}
+          >
+            <Plus size={12} /> Add
+          </button>
+        </div>
+        {preview && ('error' in preview
+          ? <p className="text-[10px] text-amber-400">{preview.error}</p>
+          : <p className="text-[10px] text-slate-500">{preview.summary}</p>)}
+        {!atoms && <p className="text-[10px] text-slate-600">Selections can be checked once the structure has loaded.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default LayerPanel;
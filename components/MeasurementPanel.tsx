@@ -0,0 +1,122 @@
+import React from 'react';
+import { Download, Ruler, Trash2, TrendingUp, X } from 'lucide-react';
+import { Atom, AtomRef, Measurement, MeasurementKind, Trajectory } from '../types';
+import { ATOM_COUNTS, formatAtomRef, formatMeasurementValue, measureAtoms, measurementsToCSV } from '../services/measurements';
+
+interface MeasurementPanelProps {
+  measurements: Measurement[];
+  atoms?: Atom[]; // Loaded structure; values are measured on its coordinates
+  trajectory?: Trajectory;
+  kind: MeasurementKind;
+  picked: AtomRef[];
+  onKindChange: (kind: MeasurementKind) => void;
+  onMeasurementsChange: (measurements: Measurement[]) => void;
+  onClose: () => void;
+}
+
+const KINDS: MeasurementKind[] = ['distance', 'angle', 'dihedral'];
+
+const MeasurementPanel: React.FC<MeasurementPanelProps> = ({ measurements, atoms, trajectory, kind, picked, onKindChange, onMeasurementsChange, onClose }) => {
+  const remaining = ATOM_COUNTS[kind] - picked.length;
+
+  const handleExport = () => {
+    const blob = new Blob([measurementsToCSV(measurements, atoms ?? [], trajectory)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'measurements.csv';
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const toggleTracked = (id: string) =>
+    onMeasurementsChange(measurements.map(m => m.id === id ? { ...m, tracked: !m.tracked } : m));
+
+  return (
+    <div className="w-72 bg-slate-900/95 backdrop-blur-md border border-slate-700 rounded-lg shadow-xl p-3 space-y-3 text-slate-300">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold uppercase tracking-wider flex items-center gap-2">
+          <Ruler size={12} className="text-cyan-400" /> Measurements
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1">
+        {KINDS.map(k => (
+          <button
+            key={k}
+            onClick={() => onKindChange(k)}
+            className={`py-1 rounded text-[10px] font-medium capitalize transition-colors ${
+              k === kind ? 'bg-cyan-600/30 text-cyan-300 border border-cyan-500/50' : 'bg-slate-800 text-slate-400 border border-transparent hover:text-white'
+            }`}
+          >
+            {k}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-500">
+        Click {remaining} more atom{remaining === 1 ? '' : 's'} in the view
+        {picked.length > 0 && <span className="font-mono text-cyan-400/80"> after {picked.map(formatAtomRef).join(', ')}</span>}.
+        Clicking a picked atom again drops it.
+      </p>
+
+      {measurements.length > 0 ? (
+        <ul className="space-y-1 max-h-56 overflow-y-auto">
+          {measurements.map(m => {
+            const value = atoms ? measureAtoms(atoms, m) : null;
+            return (
+              <li key={m.id} className="flex items-center gap-2 px-2 py-1 rounded bg-slate-800/60 text-[10px]">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-slate-500 capitalize">{m.kind}</span>
+                    <span className="font-mono text-cyan-300">{value !== null ? formatMeasurementValue(m.kind, value) : 'n/a'}</span>
+                  </div>
+                  <div className="font-mono text-slate-400 truncate" title={m.atoms.map(formatAtomRef).join(' – ')}>
+                    {m.atoms.map(formatAtomRef).join(' – ')}
+                  </div>
+                </div>
+                <button
+                  onClick={() => toggleTracked(m.id)}
+                  className={`shrink-0 transition-colors ${m.tracked ? 'text-cyan-400 hover:text-cyan-300' : 'text-slate-600 hover:text-slate-400'}`}
+                  title={m.tracked ? 'Tracked over trajectories; click to stop' : 'Track over trajectories'}
+                >
+                  <TrendingUp size={12} />
+                </button>
+                <button
+                  onClick={() => onMeasurementsChange(measurements.filter(other => other.id !== m.id))}
+                  className="shrink-0 text-slate-500 hover:text-red-400 transition-colors"
+                  title="Delete measurement"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-[10px] text-slate-600 text-center py-2">No measurements yet.</p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          disabled={measurements.length === 0}
+          onClick={handleExport}
+          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-xs font-medium transition-colors"
+        >
+          <Download size={12} /> Export CSV
+        </button>
+        <button
+          disabled={measurements.length === 0}
+          onClick={() => onMeasurementsChange([])}
+          className="px-3 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 disabled:text-slate-600 text-slate-300 text-xs font-medium transition-colors"
+        >
+          Clear all
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MeasurementPanel;
@@ -1,21 +1,93 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { MolecularState, StructureMetadata } from '../types';
-import { Info, Microscope, Tag, Calendar, FileText, Sparkles } from 'lucide-react';
+import { CommandParams, CommandType, MolecularState, StructureMetadata, StructureFormat, ActiveMetadata, ParsedStructure, Atom, AtomRef, Measurement, MeasurementKind, ComparedStructure, RepresentationLayer } from '../types';
+import { STRUCTURE_FILE_ACCEPT } from '../services/structureFiles';
+import { parseStructure, getStructureStats } from '../services/structureModel';
+import { resolveStructureSource } from '../services/structureSources';
+import { buildPlaybackMap, framePositions, smoothedFrame, PlaybackMap } from '../services/trajectoryPlayback';
+import { isTrajectoryFile } from '../services/trajectoryImport';
+import { selectAtoms, toNglSelection } from '../services/atomSelection';
+import { ATOM_COUNTS, atomRefFromNgl, nglAtomIndex } from '../services/measurements';
+import { DEFAULT_SUPERSAMPLING, ExportedMedia, imageSize, mediaFileName, planMovie, recordMovie, renderImage, trajectoryFrameAt } from '../services/mediaExport';
+import { deviationColor, fetchComparedCoordinates, REFERENCE_COLOR, UNALIGNED_COLOR } from '../services/structureComparison';
+import TrajectoryPlayer from './TrajectoryPlayer';
+import TrajectoryImport from './TrajectoryImport';
+import MeasurementPanel from './MeasurementPanel';
+import ComparisonPanel, { DeviationLegend } from './ComparisonPanel';
+import LayerPanel from './LayerPanel';
+import ExportPanel from './ExportPanel';
+import { Info, Microscope, Tag, Calendar, FileText, Sparkles, Upload, Film, Crosshair, Ruler, GitCompare, Layers, Camera, X } from 'lucide-react';
 
 interface MolecularViewerProps {
   molecularState: MolecularState;
   onLoadComplete?: () => void;
   onError?: (msg: string) => void;
+  onFileLoad?: (file: File) => void;
+  onTrajectoryImport?: (topology: File, trajectory?: File) => void;
+  onMetadataLoaded?: (metadata: ActiveMetadata, structure: ParsedStructure) => void;
+  onClearHighlight?: () => void;
+  onMeasurementsChange?: (measurements: Measurement[]) => void;
+  onCompare?: (pdbId: string) => Promise<boolean>;
+  onComparisonsChange?: (comparisons: ComparedStructure[]) => void;
+  onLayersChange?: (layers: RepresentationLayer[]) => void;
+  exportRef?: React.MutableRefObject<ViewerExporter | null>; // Set while mounted, for exports asked for in chat
 }
 
-const MolecularViewer: React.FC<MolecularViewerProps> = ({ molecularState, onLoadComplete, onError }) => {
+// Renders and downloads images and movies of the current view
+export interface ViewerExporter {
+  exportImage: (params: CommandParams[CommandType.EXPORT_IMAGE]) => Promise<ExportedMedia>;
+  exportMovie: (params: CommandParams[CommandType.EXPORT_MOVIE], onProgress?: (fraction: number) => void) => Promise<ExportedMedia>;
+}
+
+const HIGHLIGHT_COLOR = '#facc15'; // yellow-400, distinct from every color scheme's carbon
+const MEASURE_COLOR = '#22d3ee'; // cyan-400
+const MEASURE_REPRESENTATIONS: Record<MeasurementKind, { type: string; atomsParam: string }> = {
+  distance: { type: 'distance', atomsParam: 'atomPair' },
+  angle: { type: 'angle', atomsParam: 'atomTriple' },
+  dihedral: { type: 'dihedral', atomsParam: 'atomQuad' }
+};
+
+// NGL color scheme painting each residue of a compared structure by its deviation from the reference
+const registerDeviationScheme = (compared: ComparedStructure): string => {
+  const colors = new Map(compared.deviations.map(d => [`${d.chainId}|${d.resSeq}|${d.insCode}`, deviationColor(d.deviation)]));
+  const unaligned = parseInt(UNALIGNED_COLOR.slice(1), 16);
+  return window.NGL.ColormakerRegistry.addScheme(function (this: any) {
+    this.atomColor = (atom: any) => colors.get(`${atom.chainname || ''}|${atom.resno}|${atom.inscode || ''}`) ?? unaligned;
+  }, `deviation-${compared.pdbId}`);
+};
+
+const sameRef = (a: AtomRef, b: AtomRef) =>
+  a.chainId === b.chainId && a.resSeq === b.resSeq && a.insCode === b.insCode && a.name === b.name;
+
+const MolecularViewer: React.FC<MolecularViewerProps> = ({ molecularState, onLoadComplete, onError, onFileLoad, onTrajectoryImport, onMetadataLoaded, onClearHighlight, onMeasurementsChange, onCompare, onComparisonsChange, onLayersChange, exportRef }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const stageRef = useRef<any>(null); // NGL Stage
   const componentRef = useRef<any>(null); // Current loaded structure component
   const [isLoading, setIsLoading] = useState(false);
   const [structureInfo, setStructureInfo] = useState<StructureMetadata | null>(null);
   const [isInfoExpanded, setIsInfoExpanded] = useState(true);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  // Measure mode: clicked atoms collect in `picked` until the chosen kind has all its atoms
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [measureKind, setMeasureKind] = useState<MeasurementKind>('distance');
+  const [picked, setPicked] = useState<AtomRef[]>([]);
+
+  // Compare mode: one extra component per compared structure, keyed by the comparison it shows
+  const comparisonsRef = useRef(new Map<ComparedStructure, { component: any; schemeId: string }>());
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isLayersOpen, setIsLayersOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const recordingRef = useRef(false); // One movie at a time: recording poses the camera and coordinates
+
+  // Trajectory playback (-1 shows the input coordinates)
+  const playbackRef = useRef<{ component: any; atoms: Atom[]; map: PlaybackMap } | null>(null);
+  const [structureVersion, setStructureVersion] = useState(0);
+  const [frameIndex, setFrameIndex] = useState(-1);
+  const [smoothing, setSmoothing] = useState(0);
+  const [followLive, setFollowLive] = useState(true);
 
   // Initialize NGL Stage
   useEffect(() => {
@@ -33,6 +105,10 @@ const MolecularViewer: React.FC<MolecularViewerProps> = ({ molecularState, onLoa
     
         return () => {
           window.removeEventListener("resize", handleResize);
+          comparisonsRef.current.forEach(({ schemeId }) => window.NGL.ColormakerRegistry.removeScheme(schemeId));
+          comparisonsRef.current.clear();
+          stage.dispose(); // The viewer is remounted per project
+          stageRef.current = null;
         };
     } catch(e) {
         console.error("Failed to init NGL", e);
@@ -42,6 +118,8 @@ const MolecularViewer: React.FC<MolecularViewerProps> = ({ molecularState, onLoa
 
   // React to PDB ID changes (Load Structure & Fetch Data)
   useEffect(() => {
+    let cancelled = false; // Set when the structure changes or the viewer unmounts mid-load
+
     const loadStructureData = async () => {
       if (!stageRef.current || !molecularState.pdbId) return;
       
@@ -57,43 +135,64 @@ const MolecularViewer: React.FC<MolecularViewerProps> = ({ molecularState, onLoa
       stageRef.current.removeAllComponents();
 
       try {
-        // 1. Determine Metadata Source (Custom AI Data vs RCSB)
-        if (molecularState.customData) {
-            setStructureInfo(molecularState.customData);
+        let text: string;
+        let ext: StructureFormat = 'pdb';
+        let info: StructureMetadata | null = null;
+        const local = molecularState.localStructure;
+
+        if (local && local.fileName === molecularState.pdbId) {
+            // Local files carry their own coordinates; no RCSB round trip needed
+            info = {
+                title: local.fileName,
+                method: 'Local File',
+                resolution: 'N/A',
+                keywords: local.format.toUpperCase()
+            };
+            setStructureInfo(info);
+            text = local.data;
+            ext = local.format;
         } else {
-            // Fetch Metadata from RCSB Data API
-            try {
-                const metadataResponse = await fetch(`https://data.rcsb.org/rest/v1/core/entry/${pdbId}`);
-                if (metadataResponse.ok) {
-                    const data = await metadataResponse.json();
-                    setStructureInfo({
-                        title: data.struct?.title || 'Unknown Title',
-                        method: data.exptl?.[0]?.method || 'Unknown Method',
-                        resolution: data.rcsb_entry_info?.resolution_combined?.[0] 
-                            ? `${data.rcsb_entry_info.resolution_combined[0]} Å` 
-                            : 'N/A',
-                        keywords: data.struct_keywords?.pdbx_keywords || 'N/A',
-                        releaseDate: data.rcsb_accession_info?.initial_release_date 
-                            ? new Date(data.rcsb_accession_info.initial_release_date).getFullYear().toString()
-                            : ''
-                    });
-                }
-            } catch (metaError) {
-                console.warn("Failed to fetch RCSB metadata", metaError);
+            const source = resolveStructureSource(pdbId, molecularState.structureSource);
+
+            // 1. Determine Metadata Source (Custom AI Data vs structure source)
+            if (molecularState.customData) {
+                info = molecularState.customData;
+                setStructureInfo(info);
+            } else {
+                info = await source.fetchMetadata(pdbId);
+                if (info) setStructureInfo(info);
             }
+
+            // 2. Download Coordinates
+            const coordinates = await source.fetchCoordinates(pdbId);
+            text = coordinates.text;
+            ext = coordinates.format;
         }
 
-        // 2. Load 3D Structure
-        const url = `https://files.rcsb.org/download/${pdbId}.pdb`;
-        
-        const response = await fetch(url);
-        if (!response.ok) {
-            throw new Error(`Failed to fetch PDB ${pdbId} (${response.status})`);
+        // 3. Parse coordinates so the assistant and analyses get real counts
+        const parsed = parseStructure(text, ext);
+        if (parsed.models.length === 0) {
+            throw new Error(`No atoms found in ${pdbId}`);
+        }
+        if (cancelled) return; // Don't attribute a stale load to the structure or project now shown
+        if (onMetadataLoaded) {
+            onMetadataLoaded({
+                title: info?.title || parsed.title || pdbId,
+                method: info?.method || parsed.method || 'Unknown Method',
+                resolution: info && info.resolution !== 'N/A' ? info.resolution : parsed.resolution || 'N/A',
+                keywords: info?.keywords,
+                releaseDate: info?.releaseDate,
+                ...getStructureStats(parsed)
+            }, parsed);
         }
-        const blob = await response.blob();
         
-        const component = await stageRef.current.loadFile(blob, { ext: 'pdb' });
+        // 4. Load 3D Structure
+        if (!stageRef.current) return;
+        const blob = new Blob([text], { type: 'text/plain' });
+        const component = await stageRef.current.loadFile(blob, { ext });
         componentRef.current = component;
+        playbackRef.current = null;
+        setStructureVersion(v => v + 1);
         
         component.addRepresentation(molecularState.representation, {
           colorScheme: molecularState.colorScheme
@@ -104,28 +203,156 @@ const MolecularViewer: React.FC<MolecularViewerProps> = ({ molecularState, onLoa
         if (onLoadComplete) onLoadComplete();
       } catch (error) {
         console.error("NGL Load Error:", error);
-        if (onError) onError(`Failed to load structure ${pdbId}.`);
+        if (onError && !cancelled) onError(`Failed to load structure ${pdbId}.${error instanceof Error ? ` ${error.message}` : ''}`);
       } finally {
         setIsLoading(false);
       }
     };
 
     loadStructureData();
+    return () => { cancelled = true; };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [molecularState.pdbId, molecularState.customData]); 
+  }, [molecularState.pdbId, molecularState.structureSource, molecularState.customData, molecularState.localStructure]); 
 
-  // React to Representation/Color changes
+  // Picks atoms while measure mode is on; NGL's own click actions stay as they are
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage || !isMeasuring) return;
+    const handleClick = (pickingProxy: any) => {
+      if (!pickingProxy?.atom) return;
+      const ref = atomRefFromNgl(pickingProxy.atom);
+      setPicked(prev => prev.some(p => sameRef(p, ref)) ? prev.filter(p => !sameRef(p, ref)) : [...prev, ref]);
+    };
+    stage.signals.clicked.add(handleClick);
+    return () => { stage.signals.clicked.remove(handleClick); };
+  }, [isMeasuring]);
+
+  // The last atom of a pick completes the measurement
+  useEffect(() => {
+    if (picked.length < ATOM_COUNTS[measureKind]) return;
+    const measurement: Measurement = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, kind: measureKind, atoms: picked, tracked: true };
+    if (onMeasurementsChange) onMeasurementsChange([...(molecularState.measurements ?? []), measurement]);
+    setPicked([]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [picked, measureKind]);
+
+  const comparing = (molecularState.comparisons?.length ?? 0) > 0;
+
+  const styleComparison = ({ component, schemeId }: { component: any; schemeId: string }) => {
+    component.removeAllRepresentations();
+    component.addRepresentation(molecularState.representation, {
+      colorScheme: schemeId,
+      opacity: molecularState.representation === 'surface' ? 0.8 : 1.0
+    });
+  };
+
+  // Load compared structures, moved onto the reference by their superposition; drop ones no longer compared
+  // and ones removed with the reference when it reloaded
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const shown = comparisonsRef.current;
+    const wanted = molecularState.comparisons ?? [];
+    shown.forEach((entry, compared) => {
+      if (wanted.includes(compared) && stage.compList.includes(entry.component)) return;
+      if (stage.compList.includes(entry.component)) stage.removeComponent(entry.component);
+      window.NGL.ColormakerRegistry.removeScheme(entry.schemeId);
+      shown.delete(compared);
+    });
+
+    let cancelled = false;
+    wanted.filter(compared => !shown.has(compared)).forEach(async compared => {
+      try {
+        const { text, format } = await fetchComparedCoordinates(compared.pdbId, compared.source);
+        if (cancelled || !stageRef.current) return;
+        const component = await stageRef.current.loadFile(new Blob([text], { type: 'text/plain' }), { ext: format, name: compared.pdbId });
+        if (cancelled) {
+          stageRef.current?.removeComponent(component);
+          return;
+        }
+        component.setTransform(new window.NGL.Matrix4().set(...compared.transform));
+        const entry = { component, schemeId: registerDeviationScheme(compared) };
+        shown.set(compared, entry);
+        styleComparison(entry);
+      } catch (error) {
+        console.error("Comparison Load Error:", error);
+        if (onError && !cancelled) onError(`Failed to show ${compared.pdbId} for comparison.${error instanceof Error ? ` ${error.message}` : ''}`);
+      }
+    });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [molecularState.comparisons, structureVersion]);
+
+  // React to Representation/Color/Layer/Highlight/Measurement changes
   useEffect(() => {
     if (!componentRef.current) return;
     
     const component = componentRef.current;
     component.removeAllRepresentations();
     component.addRepresentation(molecularState.representation, {
-      colorScheme: molecularState.colorScheme,
+      // In compare mode the reference is neutral so the compared structures' deviation colors stand out
+      ...(comparing ? { color: REFERENCE_COLOR } : { colorScheme: molecularState.colorScheme }),
       opacity: molecularState.representation === 'surface' ? 0.8 : 1.0
     });
+    comparisonsRef.current.forEach(styleComparison);
+
+    // Layers are drawn over the base in stack order, each on the atoms its selection matches
+    const { highlight, parsedStructure } = molecularState;
+    if (parsedStructure?.models[0] && component.structure) {
+      const atoms = parsedStructure.models[0].atoms;
+      for (const layer of molecularState.layers ?? []) {
+        if (!layer.visible) continue;
+        try {
+          const sele = layer.selection === 'all' ? undefined : toNglSelection(component.structure, atoms, selectAtoms(atoms, layer.selection));
+          if (sele === null) continue;
+          component.addRepresentation(layer.representation, {
+            ...(sele ? { sele } : {}),
+            colorScheme: layer.colorScheme,
+            opacity: layer.opacity
+          });
+        } catch (error) {
+          console.error("Layer Error:", error);
+        }
+      }
+    }
 
-  }, [molecularState.representation, molecularState.colorScheme]);
+    // The highlight is matched on the parsed atoms, then drawn over the main representation and layers
+    if (highlight && parsedStructure?.models[0] && component.structure) {
+      try {
+        const atoms = parsedStructure.models[0].atoms;
+        const sele = toNglSelection(component.structure, atoms, selectAtoms(atoms, highlight.expression));
+        if (sele) {
+          component.addRepresentation(highlight.style, {
+            sele,
+            color: HIGHLIGHT_COLOR,
+            opacity: highlight.style === 'surface' ? 0.6 : 1.0
+          });
+        }
+      } catch (error) {
+        console.error("Highlight Error:", error);
+      }
+    }
+
+    // Measurements and pending picks are found by atom name, so they survive reloads of the same structure
+    if (component.structure) {
+      for (const measurement of molecularState.measurements ?? []) {
+        const indices = measurement.atoms.map(ref => nglAtomIndex(component.structure, ref));
+        if (indices.some(i => i === null)) continue;
+        const { type, atomsParam } = MEASURE_REPRESENTATIONS[measurement.kind];
+        component.addRepresentation(type, {
+          [atomsParam]: [indices],
+          color: MEASURE_COLOR,
+          labelColor: MEASURE_COLOR,
+          labelSize: 2,
+          ...(measurement.kind === 'distance' ? { labelUnit: 'angstrom' } : {}) // Angle labels carry their own degree sign
+        });
+      }
+      const pickedIndices = picked.map(ref => nglAtomIndex(component.structure, ref)).filter((i): i is number => i !== null);
+      if (pickedIndices.length > 0) {
+        component.addRepresentation('spacefill', { sele: `@${pickedIndices.join(',')}`, color: MEASURE_COLOR, radiusScale: 0.4 });
+      }
+    }
+  }, [molecularState.representation, molecularState.colorScheme, molecularState.layers, molecularState.highlight, molecularState.parsedStructure, molecularState.measurements, picked, comparing, structureVersion]);
 
   // React to Spin changes
   useEffect(() => {
@@ -137,9 +364,325 @@ const MolecularViewer: React.FC<MolecularViewerProps> = ({ molecularState, onLoa
     }
   }, [molecularState.isSpinning]);
 
+  // New trajectory (fresh run or import): start from the input structure and follow live frames
+  const trajectory = molecularState.trajectory;
+  const frameCount = trajectory?.frames.length ?? 0;
+  useEffect(() => {
+    setFrameIndex(-1);
+    setFollowLive(true);
+  }, [trajectory?.atoms]);
+
+  // Keep the view on the newest frame while the simulation runs
+  useEffect(() => {
+    if (molecularState.simulationRunning && followLive && frameCount > 0) {
+      setFrameIndex(frameCount - 1);
+    }
+  }, [frameCount, followLive, molecularState.simulationRunning]);
+
+  // Push a frame's coordinates into the NGL component; outside the trajectory restores the input coordinates
+  const showTrajectoryFrame = (index: number) => {
+    const component = componentRef.current;
+    if (!component?.structure) return;
+
+    let playback = playbackRef.current;
+    if (playback && playback.component !== component) playback = playbackRef.current = null;
+
+    const restoreBase = () => {
+      if (!playback) return;
+      component.structure.updatePosition(playback.map.base);
+      component.updateRepresentations({ position: true });
+    };
+
+    if (!trajectory || index < 0 || index >= trajectory.frames.length) {
+      restoreBase();
+      playbackRef.current = null;
+      return;
+    }
+
+    if (!playback || playback.atoms !== trajectory.atoms) {
+      restoreBase(); // Map must be built from the untouched input coordinates
+      playback = { component, atoms: trajectory.atoms, map: buildPlaybackMap(component.structure, trajectory) };
+      playbackRef.current = playback;
+    }
+
+    const coords = smoothedFrame(trajectory, index, smoothing);
+    component.structure.updatePosition(framePositions(playback.map, trajectory, coords));
+    component.updateRepresentations({ position: true });
+  };
+
+  useEffect(() => {
+    showTrajectoryFrame(frameIndex);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [frameIndex, smoothing, trajectory, structureVersion]);
+
+  const saveFile = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const exportImage = async (params: CommandParams[CommandType.EXPORT_IMAGE]): Promise<ExportedMedia> => {
+    const stage = stageRef.current;
+    if (!stage || !componentRef.current) throw new Error('The structure has not finished loading.');
+    const size = imageSize({ width: stage.viewer.width, height: stage.viewer.height }, params);
+    const blob = await renderImage(stage, size, params.supersampling ?? DEFAULT_SUPERSAMPLING, params.transparent ?? false);
+    const fileName = mediaFileName(molecularState.pdbId, 'png');
+    saveFile(blob, fileName);
+    return { blob, fileName, ...size };
+  };
+
+  // Spins turn the camera one full turn about the screen's vertical axis; the view is put back afterwards
+  const exportMovie = async (params: CommandParams[CommandType.EXPORT_MOVIE], onProgress?: (fraction: number) => void): Promise<ExportedMedia> => {
+    const stage = stageRef.current;
+    if (!stage || !componentRef.current) throw new Error('The structure has not finished loading.');
+    if (recordingRef.current) throw new Error('A movie is already being recorded.');
+    const plan = planMovie(params, frameCount);
+    const orientation = stage.viewerControls.getOrientation();
+    recordingRef.current = true;
+    stage.setSpin(false);
+    try {
+      const movie = await recordMovie(stage, plan, plan.motion === 'spin'
+        ? (frame) => { if (frame > 0) stage.viewerControls.spin([0, 1, 0], 2 * Math.PI / plan.frames); }
+        : (frame) => showTrajectoryFrame(trajectoryFrameAt(frame, plan.frames, frameCount)), onProgress);
+      const fileName = mediaFileName(molecularState.pdbId, plan.format);
+      saveFile(movie.blob, fileName);
+      return { ...movie, fileName };
+    } finally {
+      recordingRef.current = false;
+      if (plan.motion === 'trajectory') showTrajectoryFrame(frameIndex);
+      stage.viewerControls.orient(orientation);
+      stage.setSpin(molecularState.isSpinning);
+    }
+  };
+
+  useEffect(() => {
+    if (!exportRef) return;
+    exportRef.current = { exportImage, exportMovie };
+    return () => { exportRef.current = null; };
+  });
+
+  // Local File Upload (picker + drag-and-drop)
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onFileLoad) onFileLoad(file);
+    e.target.value = ''; // Allow re-selecting the same file
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onFileLoad || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leave events fired when moving between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files: File[] = Array.from(e.dataTransfer.files || []);
+
+    // Topology + trajectory dropped together
+    const trajectoryFile = files.find(f => isTrajectoryFile(f.name));
+    if (trajectoryFile) {
+      const topologyFile = files.find(f => f !== trajectoryFile);
+      if (!onTrajectoryImport) return;
+      if (topologyFile) onTrajectoryImport(topologyFile, trajectoryFile);
+      else if (onError) onError(`Drop ${trajectoryFile.name} together with its topology file (.pdb, .gro, .psf, .prmtop).`);
+      return;
+    }
+
+    if (files[0] && onFileLoad) onFileLoad(files[0]);
+  };
+
+  const closeMeasuring = () => {
+    setIsMeasuring(false);
+    setPicked([]);
+  };
+
+  const handleImport = (topology: File, trajectoryFile?: File) => {
+    setIsImportOpen(false);
+    if (onTrajectoryImport) onTrajectoryImport(topology, trajectoryFile);
+  };
+
   return (
-    <div className="relative w-full h-full rounded-xl overflow-hidden border border-slate-700 shadow-2xl bg-slate-900 group">
+    <div 
+      className="relative w-full h-full rounded-xl overflow-hidden border border-slate-700 shadow-2xl bg-slate-900 group"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <div ref={containerRef} className="w-full h-full" />
+
+      {/* Drop Target Overlay */}
+      {isDragging && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-blue-950/60 backdrop-blur-sm border-2 border-dashed border-blue-500 rounded-xl pointer-events-none">
+          <div className="flex flex-col items-center gap-2 text-blue-300">
+            <Upload size={32} />
+            <span className="text-sm font-medium">Drop structure file to load</span>
+            <span className="text-[10px] text-blue-400/70 font-mono">.pdb .cif .mmcif .gro .sdf</span>
+            {onTrajectoryImport && (
+              <span className="text-[10px] text-blue-400/70 font-mono">or topology + .dcd .xtc .trr together</span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Upload Buttons */}
+      {onFileLoad && (
+        <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-2">
+          <div className="flex items-center gap-2">
+            <input 
+              ref={fileInputRef}
+              type="file"
+              accept={STRUCTURE_FILE_ACCEPT}
+              className="hidden"
+              onChange={handleFileInput}
+            />
+            <button 
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-900/90 backdrop-blur-md border border-slate-700 text-xs font-medium text-slate-300 hover:text-white hover:border-slate-500 transition-colors shadow-xl"
+              title="Open a local PDB/mmCIF/GRO/SDF file"
+            >
+              <Upload size={14} />
+              Open File
+            </button>
+            {onTrajectoryImport && (
+              <button 
+                onClick={() => setIsImportOpen(!isImportOpen)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-900/90 backdrop-blur-md border text-xs font-medium transition-colors shadow-xl ${
+                  isImportOpen ? 'border-blue-500 text-white' : 'border-slate-700 text-slate-300 hover:text-white hover:border-slate-500'
+                }`}
+                title="Import a DCD/XTC/TRR or multi-model PDB trajectory"
+              >
+                <Film size={14} />
+                Trajectory
+              </button>
+            )}
+            {onMeasurementsChange && (
+              <button 
+                onClick={() => isMeasuring ? closeMeasuring() : setIsMeasuring(true)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-900/90 backdrop-blur-md border text-xs font-medium transition-colors shadow-xl ${
+                  isMeasuring ? 'border-cyan-500 text-white' : 'border-slate-700 text-slate-300 hover:text-white hover:border-slate-500'
+                }`}
+                title="Measure distances, angles and dihedrals by clicking atoms"
+              >
+                <Ruler size={14} />
+                Measure
+                {(molecularState.measurements?.length ?? 0) > 0 && (
+                  <span className="px-1 rounded bg-cyan-600/30 text-cyan-300 text-[10px] font-mono">{molecularState.measurements!.length}</span>
+                )}
+              </button>
+            )}
+            {onLayersChange && (
+              <button 
+                onClick={() => setIsLayersOpen(!isLayersOpen)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-900/90 backdrop-blur-md border text-xs font-medium transition-colors shadow-xl ${
+                  isLayersOpen ? 'border-emerald-500 text-white' : 'border-slate-700 text-slate-300 hover:text-white hover:border-slate-500'
+                }`}
+                title="Draw parts of the structure in other representations over the base one"
+              >
+                <Layers size={14} />
+                Layers
+                {(molecularState.layers?.length ?? 0) > 0 && (
+                  <span className="px-1 rounded bg-emerald-600/30 text-emerald-300 text-[10px] font-mono">{molecularState.layers!.length}</span>
+                )}
+              </button>
+            )}
+            <button 
+              onClick={() => setIsExportOpen(!isExportOpen)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-900/90 backdrop-blur-md border text-xs font-medium transition-colors shadow-xl ${
+                isExportOpen ? 'border-pink-500 text-white' : 'border-slate-700 text-slate-300 hover:text-white hover:border-slate-500'
+              }`}
+              title="Save the view as a PNG image or a WebM/GIF movie"
+            >
+              <Camera size={14} />
+              Export
+            </button>
+            {onCompare && onComparisonsChange && (
+              <button 
+                onClick={() => setIsCompareOpen(!isCompareOpen)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-900/90 backdrop-blur-md border text-xs font-medium transition-colors shadow-xl ${
+                  isCompareOpen ? 'border-violet-500 text-white' : 'border-slate-700 text-slate-300 hover:text-white hover:border-slate-500'
+                }`}
+                title="Superpose other structures onto this one"
+              >
+                <GitCompare size={14} />
+                Compare
+                {comparing && (
+                  <span className="px-1 rounded bg-violet-600/30 text-violet-300 text-[10px] font-mono">{molecularState.comparisons!.length}</span>
+                )}
+              </button>
+            )}
+          </div>
+          {isImportOpen && onTrajectoryImport && (
+            <TrajectoryImport onImport={handleImport} onClose={() => setIsImportOpen(false)} />
+          )}
+          {isExportOpen && (
+            <ExportPanel
+              viewSize={stageRef.current ? { width: stageRef.current.viewer.width, height: stageRef.current.viewer.height } : { width: 0, height: 0 }}
+              trajectoryFrames={frameCount}
+              onExportImage={exportImage}
+              onExportMovie={exportMovie}
+              onClose={() => setIsExportOpen(false)}
+            />
+          )}
+          {isLayersOpen && onLayersChange && (
+            <LayerPanel
+              layers={molecularState.layers ?? []}
+              representation={molecularState.representation}
+              colorScheme={molecularState.colorScheme}
+              atoms={molecularState.parsedStructure?.models[0]?.atoms}
+              selections={molecularState.selections ?? []}
+              onLayersChange={onLayersChange}
+              onClose={() => setIsLayersOpen(false)}
+            />
+          )}
+          {isCompareOpen && onCompare && onComparisonsChange && (
+            <ComparisonPanel
+              referenceId={molecularState.pdbId}
+              comparisons={molecularState.comparisons ?? []}
+              onCompare={onCompare}
+              onComparisonsChange={onComparisonsChange}
+              onClose={() => setIsCompareOpen(false)}
+            />
+          )}
+          {comparing && !isCompareOpen && (
+            <div className="px-2.5 py-1.5 rounded-md bg-slate-900/90 backdrop-blur-md border border-violet-500/40 shadow-xl">
+              <DeviationLegend />
+            </div>
+          )}
+          {isMeasuring && onMeasurementsChange && (
+            <MeasurementPanel
+              measurements={molecularState.measurements ?? []}
+              atoms={molecularState.parsedStructure?.models[0]?.atoms}
+              trajectory={molecularState.trajectory}
+              kind={measureKind}
+              picked={picked}
+              onKindChange={(kind) => { setMeasureKind(kind); setPicked([]); }}
+              onMeasurementsChange={onMeasurementsChange}
+              onClose={closeMeasuring}
+            />
+          )}
+          {molecularState.highlight && (
+            <div className="flex items-center gap-2 max-w-[260px] px-2.5 py-1 rounded-md bg-slate-900/90 backdrop-blur-md border border-yellow-500/40 text-[10px] text-yellow-300 shadow-xl">
+              <Crosshair size={12} className="shrink-0" />
+              <span className="font-mono truncate" title={molecularState.highlight.expression}>{molecularState.highlight.expression}</span>
+              {onClearHighlight && (
+                <button onClick={onClearHighlight} className="text-slate-400 hover:text-white shrink-0" title="Clear highlight">
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
       
       {/* Loading Overlay */}
       {isLoading && (
@@ -164,7 +707,7 @@ const MolecularViewer: React.FC<MolecularViewerProps> = ({ molecularState, onLoa
                 >
                     <div className="flex items-center gap-3">
                         <div className={`p-1.5 rounded font-bold font-mono text-sm border ${molecularState.customData ? 'bg-purple-600/20 text-purple-400 border-purple-500/30' : 'bg-blue-600/20 text-blue-400 border-blue-500/30'}`}>
-                            {molecularState.customData ? 'AI-MODEL' : molecularState.pdbId}
+                            {molecularState.customData ? 'AI-MODEL' : molecularState.localStructure ? 'LOCAL' : molecularState.pdbId}
                         </div>
                         {!isInfoExpanded && structureInfo && (
                              <span className="text-xs text-slate-300 truncate max-w-[150px] font-medium">
@@ -243,12 +786,33 @@ const MolecularViewer: React.FC<MolecularViewerProps> = ({ molecularState, onLoa
         </div>
       )}
 
+      {/* Trajectory Player */}
+      {trajectory && frameCount > 0 && (
+        <div className="absolute bottom-4 left-4 right-4 z-10">
+          <TrajectoryPlayer 
+            frameCount={frameCount}
+            frameIndex={frameIndex}
+            frameTime={frameIndex >= 0 ? trajectory.frames[frameIndex]?.time : undefined}
+            isLive={molecularState.simulationRunning}
+            followLive={followLive}
+            onFollowLiveChange={setFollowLive}
+            onFrameIndexChange={setFrameIndex}
+            smoothing={smoothing}
+            onSmoothingChange={setSmoothing}
+          />
+        </div>
+      )}
+
       {/* Controls Overlay Hint */}
-      <div className="absolute bottom-4 right-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none">
-        <div className="bg-black/50 backdrop-blur px-2 py-1 rounded text-[10px] text-slate-400">
-            Left Click: Rotate • Right Click: Pan • Scroll: Zoom
+      {frameCount === 0 && (
+        <div className={`absolute bottom-4 right-4 transition-opacity duration-300 pointer-events-none ${isMeasuring ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+          <div className="bg-black/50 backdrop-blur px-2 py-1 rounded text-[10px] text-slate-400">
+              {isMeasuring
+                ? `Click: Pick atom for the ${measureKind} • Drag: Rotate • Scroll: Zoom`
+                : 'Left Click: Rotate • Right Click: Pan • Scroll: Zoom • Drop a file to open'}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,171 @@
+
+import React, { useState } from 'react';
+import { Barostat, Ensemble, SimulationProtocol, Thermostat } from '../types';
+import { DEFAULT_PROTOCOL } from '../services/mdEngine';
+import { PROTOCOL_LIMITS, productionTime, randomSeed, resolveProtocol } from '../services/simulationProtocol';
+import { Dices, Play, RotateCcw, SlidersHorizontal, X } from 'lucide-react';
+
+interface SimulationSetupProps {
+  protocol: SimulationProtocol;
+  canRun: boolean; // A parsed structure is loaded and no run is in progress
+  onSave: (protocol: SimulationProtocol) => void;
+  onRun: (protocol: SimulationProtocol) => void;
+  onClose: () => void;
+}
+
+type Draft = Record<keyof SimulationProtocol, string>;
+
+const toDraft = (protocol: SimulationProtocol): Draft => ({
+  ensemble: protocol.ensemble,
+  temperature: String(protocol.temperature),
+  pressure: String(protocol.pressure),
+  timestep: String(parseFloat((protocol.timestep * 1000).toFixed(3))), // Edited in fs
+  minimizationSteps: String(protocol.minimizationSteps),
+  equilibrationSteps: String(protocol.equilibrationSteps),
+  productionSteps: String(protocol.productionSteps),
+  frameInterval: String(protocol.frameInterval),
+  thermostat: protocol.thermostat,
+  barostat: protocol.barostat,
+  cutoff: String(protocol.cutoff),
+  seed: String(protocol.seed)
+});
+
+const inputClassName = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500 disabled:opacity-40";
+const labelClassName = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+const SimulationSetup: React.FC<SimulationSetupProps> = ({ protocol, canRun, onSave, onRun, onClose }) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(protocol));
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof SimulationProtocol, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  // Validate through the same resolver the chat commands use
+  const resolve = (): SimulationProtocol | null => {
+    try {
+      const timestep = draft.timestep.trim() === '' ? '' : Number(draft.timestep) / 1000;
+      return resolveProtocol({ ...draft, timestep }, protocol);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Invalid protocol.');
+      return null;
+    }
+  };
+
+  const numberField = (field: keyof typeof PROTOCOL_LIMITS, label: string, disabled = false) => (
+    <label className="block">
+      <span className={labelClassName}>{label}</span>
+      <input
+        type="number"
+        className={inputClassName}
+        value={draft[field]}
+        disabled={disabled}
+        onChange={(e) => update(field, e.target.value)}
+      />
+    </label>
+  );
+
+  const previewSteps = Number(draft.productionSteps);
+  const previewTimestep = Number(draft.timestep) / 1000;
+  const preview = Number.isFinite(previewSteps * previewTimestep)
+    ? productionTime({ ...protocol, productionSteps: previewSteps, timestep: previewTimestep })
+    : NaN;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-[440px] bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-bold text-slate-200 flex items-center gap-2">
+            <SlidersHorizontal size={16} className="text-blue-400" /> Simulation Protocol
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <label className="block">
+            <span className={labelClassName}>Ensemble</span>
+            <select className={inputClassName} value={draft.ensemble} onChange={(e) => update('ensemble', e.target.value as Ensemble)}>
+              <option value="NVE">NVE</option>
+              <option value="NVT">NVT</option>
+              <option value="NPT">NPT</option>
+            </select>
+          </label>
+          {numberField('temperature', 'Temp (K)')}
+          {numberField('pressure', 'Pressure (bar)', draft.ensemble !== 'NPT')}
+
+          <label className="block">
+            <span className={labelClassName}>Thermostat</span>
+            <select className={inputClassName} value={draft.thermostat} disabled={draft.ensemble === 'NVE'} onChange={(e) => update('thermostat', e.target.value as Thermostat)}>
+              <option value="langevin">Langevin</option>
+              <option value="berendsen">Berendsen</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className={labelClassName}>Barostat</span>
+            <select className={inputClassName} value={draft.barostat} disabled={draft.ensemble !== 'NPT'} onChange={(e) => update('barostat', e.target.value as Barostat)}>
+              <option value="montecarlo">Monte Carlo</option>
+              <option value="berendsen">Berendsen</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className={labelClassName}>Timestep (fs)</span>
+            <input type="number" className={inputClassName} value={draft.timestep} onChange={(e) => update('timestep', e.target.value)} />
+          </label>
+
+          {numberField('minimizationSteps', 'Minimization')}
+          {numberField('equilibrationSteps', 'Equilibration')}
+          {numberField('productionSteps', 'Production')}
+
+          {numberField('frameInterval', 'Frame every')}
+          {numberField('cutoff', 'Cutoff (Å)')}
+          <label className="block">
+            <span className={labelClassName}>Seed</span>
+            <div className="flex gap-1">
+              <input type="number" className={inputClassName} value={draft.seed} onChange={(e) => update('seed', e.target.value)} />
+              <button onClick={() => update('seed', String(randomSeed()))} className="px-1.5 text-slate-400 hover:text-white transition-colors" title="Random seed">
+                <Dices size={14} />
+              </button>
+            </div>
+          </label>
+        </div>
+
+        <div className="text-[10px] text-slate-500 space-y-1">
+          <p>Step counts are per stage; production covers {Number.isFinite(preview) ? `${preview.toFixed(1)} ps` : '—'}.</p>
+          {draft.ensemble === 'NPT' && (
+            <p className="text-amber-400/80">The Gō engine has no periodic box; NPT runs record the pressure settings but integrate as NVT.</p>
+          )}
+          {error && <p className="text-rose-400">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-between pt-1">
+          <button
+            onClick={() => { setDraft(toDraft({ ...DEFAULT_PROTOCOL, seed: protocol.seed })); setError(null); }}
+            className="flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            <RotateCcw size={12} /> Defaults
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => { const resolved = resolve(); if (resolved) onSave(resolved); }}
+              className="px-3 py-1.5 rounded-md border border-slate-700 text-xs text-slate-300 hover:text-white hover:border-slate-500 transition-colors"
+            >
+              Save
+            </button>
+            <button
+              disabled={!canRun}
+              onClick={() => { const resolved = resolve(); if (resolved) onRun(resolved); }}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-xs font-medium transition-colors"
+            >
+              <Play size={12} /> Run
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SimulationSetup;
@@ -0,0 +1,61 @@
+
+import React, { useState } from 'react';
+import { Film, X } from 'lucide-react';
+import { TOPOLOGY_FILE_ACCEPT, TRAJECTORY_FILE_ACCEPT } from '../services/trajectoryImport';
+
+interface TrajectoryImportProps {
+  onImport: (topology: File, trajectory?: File) => void;
+  onClose: () => void;
+}
+
+const fileInputClassName = "block w-full text-[10px] text-slate-400 file:mr-2 file:px-2 file:py-1 file:rounded file:border-0 file:bg-slate-800 file:text-slate-300 hover:file:bg-slate-700 file:cursor-pointer";
+
+const TrajectoryImport: React.FC<TrajectoryImportProps> = ({ onImport, onClose }) => {
+  const [topology, setTopology] = useState<File | null>(null);
+  const [trajectory, setTrajectory] = useState<File | null>(null);
+
+  return (
+    <div className="w-72 bg-slate-900/95 backdrop-blur-md border border-slate-700 rounded-lg shadow-xl p-3 space-y-3 text-slate-300">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold uppercase tracking-wider flex items-center gap-2">
+          <Film size={12} className="text-blue-400" /> Import Trajectory
+        </h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-[10px] font-bold text-slate-500 uppercase">Topology</span>
+        <input
+          type="file"
+          accept={TOPOLOGY_FILE_ACCEPT}
+          className={fileInputClassName}
+          onChange={(e) => setTopology(e.target.files?.[0] || null)}
+        />
+        <span className="block text-[9px] text-slate-600 font-mono">.pdb .cif .gro .psf .prmtop</span>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-[10px] font-bold text-slate-500 uppercase">Trajectory</span>
+        <input
+          type="file"
+          accept={TRAJECTORY_FILE_ACCEPT}
+          className={fileInputClassName}
+          onChange={(e) => setTrajectory(e.target.files?.[0] || null)}
+        />
+        <span className="block text-[9px] text-slate-600 font-mono">.dcd .xtc .trr, or leave empty for a multi-model PDB</span>
+      </label>
+
+      <button
+        disabled={!topology}
+        onClick={() => topology && onImport(topology, trajectory || undefined)}
+        className="w-full py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-xs font-medium transition-colors"
+      >
+        Import
+      </button>
+    </div>
+  );
+};
+
+export default TrajectoryImport;
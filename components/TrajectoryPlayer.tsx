@@ -0,0 +1,147 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, SkipBack, Repeat, Radio } from 'lucide-react';
+
+interface TrajectoryPlayerProps {
+  frameCount: number;
+  frameIndex: number;
+  frameTime?: number;
+  isLive: boolean; // Simulation is still producing frames
+  followLive: boolean;
+  onFollowLiveChange: (follow: boolean) => void;
+  onFrameIndexChange: (index: number) => void;
+  smoothing: number;
+  onSmoothingChange: (window: number) => void;
+}
+
+const BASE_FPS = 10;
+const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4];
+const SMOOTHING_OPTIONS = [
+  { value: 0, label: 'Off' },
+  { value: 1, label: '3 fr' },
+  { value: 2, label: '5 fr' },
+  { value: 4, label: '9 fr' }
+];
+
+const TrajectoryPlayer: React.FC<TrajectoryPlayerProps> = ({
+  frameCount,
+  frameIndex,
+  frameTime,
+  isLive,
+  followLive,
+  onFollowLiveChange,
+  onFrameIndexChange,
+  smoothing,
+  onSmoothingChange
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(true);
+  const frameRef = useRef(frameIndex);
+  frameRef.current = frameIndex;
+
+  // Playback timer
+  useEffect(() => {
+    if (!isPlaying || frameCount === 0) return;
+    const interval = setInterval(() => {
+      const next = frameRef.current + 1;
+      if (next < frameCount) {
+        onFrameIndexChange(next);
+      } else if (loop) {
+        onFrameIndexChange(0);
+      } else {
+        setIsPlaying(false);
+      }
+    }, 1000 / (BASE_FPS * speed));
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, loop, frameCount, onFrameIndexChange]);
+
+  const handlePlayPause = () => {
+    if (!isPlaying) {
+      onFollowLiveChange(false);
+      if (frameRef.current >= frameCount - 1) onFrameIndexChange(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const handleScrub = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onFollowLiveChange(false);
+    onFrameIndexChange(parseInt(e.target.value, 10));
+  };
+
+  return (
+    <div className="flex items-center gap-3 bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-lg px-3 py-2 shadow-xl text-slate-300">
+      <button
+        onClick={() => { onFollowLiveChange(false); onFrameIndexChange(0); }}
+        className="p-1 hover:text-white transition-colors"
+        title="First frame"
+      >
+        <SkipBack size={14} />
+      </button>
+      <button
+        onClick={handlePlayPause}
+        className="p-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white transition-colors"
+        title={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={Math.max(frameCount - 1, 0)}
+        value={Math.max(frameIndex, 0)}
+        onChange={handleScrub}
+        className="flex-1 accent-blue-500 h-1 cursor-pointer"
+      />
+
+      <div className="flex flex-col items-end min-w-[72px] font-mono">
+        <span className="text-[10px] text-slate-300">{Math.max(frameIndex, 0) + 1} / {frameCount}</span>
+        {frameTime !== undefined && <span className="text-[9px] text-slate-500">{frameTime.toFixed(1)} ps</span>}
+      </div>
+
+      <select
+        value={speed}
+        onChange={(e) => setSpeed(parseFloat(e.target.value))}
+        className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] focus:outline-none"
+        title="Playback speed"
+      >
+        {SPEED_OPTIONS.map(s => <option key={s} value={s}>{s}x</option>)}
+      </select>
+
+      <select
+        value={smoothing}
+        onChange={(e) => onSmoothingChange(parseInt(e.target.value, 10))}
+        className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] focus:outline-none"
+        title="Smoothing window"
+      >
+        {SMOOTHING_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+
+      <button
+        onClick={() => setLoop(!loop)}
+        className={`p-1 transition-colors ${loop ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}`}
+        title="Loop playback"
+      >
+        <Repeat size={14} />
+      </button>
+
+      {isLive && (
+        <button
+          onClick={() => { setIsPlaying(false); onFollowLiveChange(!followLive); }}
+          className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold border transition-colors ${
+            followLive
+            ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-400'
+            : 'border-slate-700 text-slate-500 hover:text-slate-300'
+          }`}
+          title="Follow the running simulation"
+        >
+          <Radio size={10} className={followLive ? 'animate-pulse' : ''} />
+          LIVE
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TrajectoryPlayer;
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { compareRevisions, listRevisions, loadRepositoryConfig, ProjectRevision, RepositoryConfig, RevisionDiff, saveRepositoryConfig } from '../services/projectRepository';
+import { CloudUpload, GitBranch, GitCommitHorizontal, GitCompare, Loader2, RotateCcw, X } from 'lucide-react';
+
+interface VersionControlProps {
+  projectId: string;
+  projectName: string;
+  canCheckout: boolean; // No run in progress
+  onCommit: (message: string) => Promise<void>;
+  onPush: () => Promise<void>;
+  onCheckout: (revision: ProjectRevision) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500";
+const labelClassName = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+const CHANGE_STYLES = { added: 'text-emerald-400', removed: 'text-rose-400', modified: 'text-amber-300' };
+
+const VersionControl: React.FC<VersionControlProps> = ({ projectId, projectName, canCheckout, onCommit, onPush, onCheckout, onClose }) => {
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [config, setConfig] = useState<RepositoryConfig | null>(null);
+  const [message, setMessage] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [base, setBase] = useState<string | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [isRemoteOpen, setIsRemoteOpen] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null); // Label of the running action
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    const history = await listRevisions(projectId);
+    setRevisions(history);
+    setSelected(history[0]?.oid ?? null);
+    setBase(history[1]?.oid ?? null);
+  };
+
+  // Runs one repository action at a time and reports its failure in the panel
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `${label} failed.`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  useEffect(() => {
+    run('Loading', async () => {
+      setConfig(await loadRepositoryConfig(projectId));
+      await refresh();
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  useEffect(() => {
+    setDiff(null);
+    if (!selected || !base || selected === base) return;
+    let cancelled = false;
+    compareRevisions(projectId, base, selected)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : 'Comparison failed.'); });
+    return () => { cancelled = true; };
+  }, [projectId, selected, base]);
+
+  const selectRevision = (oid: string) => {
+    const index = revisions.findIndex(r => r.oid === oid);
+    setSelected(oid);
+    setBase(revisions[index + 1]?.oid ?? null); // Default to its parent
+  };
+
+  const selectedRevision = revisions.find(r => r.oid === selected);
+  const field = (key: keyof RepositoryConfig, label: string, type = 'text', placeholder = '') => (
+    <label className="block">
+      <span className={labelClassName}>{label}</span>
+      <input
+        type={type}
+        className={inputClassName}
+        placeholder={placeholder}
+        value={config?.[key] ?? ''}
+        onChange={(e) => setConfig(prev => prev ? { ...prev, [key]: e.target.value } : prev)}
+      />
+    </label>
+  );
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-[600px] max-h-[90%] overflow-y-auto bg-slate-900 border border-slate-700 rounded-xl shadow-2xl p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-bold text-slate-200 flex items-center gap-2">
+            <GitBranch size={16} className="text-blue-400" /> Versions: {projectName}
+          </h3>
+          <div className="flex items-center gap-3">
+            {busy && <span className="flex items-center gap-1 text-[10px] text-slate-400"><Loader2 size={12} className="animate-spin" /> {busy}...</span>}
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><X size={16} /></button>
+          </div>
+        </div>
+
+        {/* Commit */}
+        <div className="flex gap-2">
+          <input
+            className={inputClassName}
+            placeholder="Describe this revision, e.g. &quot;310 K production, 2 ns&quot;"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+          />
+          <button
+            disabled={!!busy || !message.trim()}
+            onClick={() => run('Committing', async () => {
+              await onCommit(message);
+              setMessage('');
+              await refresh();
+            })}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-500 text-white text-xs font-medium transition-colors whitespace-nowrap"
+          >
+            <GitCommitHorizontal size={12} /> Commit
+          </button>
+          <button
+            disabled={!!busy || revisions.length === 0}
+            onClick={() => run('Pushing', onPush)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md border border-slate-700 text-xs text-slate-300 hover:text-white hover:border-slate-500 disabled:opacity-40 transition-colors whitespace-nowrap"
+            title={config?.remoteUrl ? `Push to ${config.remoteUrl}` : 'Set a remote first'}
+          >
+            <CloudUpload size={12} /> Push
+          </button>
+        </div>
+
+        {/* History */}
+        <div>
+          <span className={labelClassName}>History</span>
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {revisions.map(revision => (
+              <button
+                key={revision.oid}
+                onClick={() => selectRevision(revision.oid)}
+                className={`w-full text-left px-2 py-1.5 rounded border text-xs transition-colors ${
+                  revision.oid === selected ? 'bg-blue-900/20 border-blue-500/50' : 'bg-slate-800/50 border-slate-700 hover:border-slate-600'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-slate-200 truncate">{revision.message}</span>
+                  <span className="font-mono text-[10px] text-slate-500">{revision.oid.slice(0, 7)}</span>
+                </div>
+                <span className="text-[10px] text-slate-500">{revision.author} · {new Date(revision.timestamp).toLocaleString()}</span>
+              </button>
+            ))}
+            {revisions.length === 0 && !busy && <p className="text-xs text-slate-500 italic">No revisions yet. Commit to record the project's current state.</p>}
+          </div>
+        </div>
+
+        {/* Comparison */}
+        {selectedRevision && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <GitCompare size={12} />
+              <span>Compare</span>
+              <span className="font-mono text-slate-200">{selectedRevision.oid.slice(0, 7)}</span>
+              <span>with</span>
+              <select
+                className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-200 focus:outline-none"
+                value={base ?? ''}
+                onChange={(e) => setBase(e.target.value || null)}
+              >
+                <option value="">(nothing)</option>
+                {revisions.filter(r => r.oid !== selectedRevision.oid).map(r => (
+                  <option key={r.oid} value={r.oid}>{r.oid.slice(0, 7)}: {r.message.slice(0, 40)}</option>
+                ))}
+              </select>
+              <button
+                disabled={!!busy || !canCheckout}
+                onClick={() => run('Checking out', () => onCheckout(selectedRevision))}
+                className="ml-auto flex items-center gap-1 px-2 py-1 rounded-md border border-slate-700 text-slate-300 hover:text-white hover:border-slate-500 disabled:opacity-40 transition-colors"
+                title={canCheckout ? 'Restore the project to this revision' : 'Stop the running simulation first'}
+              >
+                <RotateCcw size={12} /> Checkout
+              </button>
+            </div>
+
+            {diff && (
+              <div className="grid grid-cols-2 gap-3 text-[11px]">
+                {[{ title: 'Parameters', rows: diff.parameters }, { title: 'Metrics', rows: diff.metrics }].map(({ title, rows }) => (
+                  <div key={title} className="bg-slate-800/50 border border-slate-700/50 rounded p-2">
+                    <span className={labelClassName}>{title}</span>
+                    {rows.length === 0 && <p className="text-slate-500 italic">Unchanged</p>}
+                    {rows.map(row => (
+                      <div key={row.label} className="flex justify-between gap-2 font-mono">
+                        <span className="text-slate-400 truncate">{row.label}</span>
+                        <span className="text-slate-200 whitespace-nowrap">{row.before ?? '—'} → {row.after ?? '—'}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+                <div className="col-span-2 bg-slate-800/50 border border-slate-700/50 rounded p-2">
+                  <span className={labelClassName}>Files</span>
+                  {diff.files.length === 0 && <p className="text-slate-500 italic">Identical</p>}
+                  {diff.files.map(file => (
+                    <div key={file.path} className="flex justify-between font-mono">
+                      <span className="text-slate-300">{file.path}</span>
+                      <span className={CHANGE_STYLES[file.change]}>{file.change}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Remote */}
+        <div className="border-t border-slate-800 pt-3">
+          <button onClick={() => setIsRemoteOpen(open => !open)} className="text-xs text-slate-400 hover:text-white transition-colors">
+            {isRemoteOpen ? '▾' : '▸'} Remote and author
+          </button>
+          {isRemoteOpen && config && (
+            <div className="mt-3 space-y-3">
+              <div className="grid grid-cols-3 gap-3">
+                <div className="col-span-2">{field('remoteUrl', 'Remote URL', 'text', 'https://git.example.org/lab/study.git')}</div>
+                {field('remoteBranch', 'Branch')}
+                {field('username', 'Username')}
+                {field('token', 'Token / password', 'password')}
+                {field('corsProxy', 'CORS proxy', 'text', 'https://cors.isomorphic-git.org')}
+                {field('authorName', 'Author name')}
+                <div className="col-span-2">{field('authorEmail', 'Author email')}</div>
+              </div>
+              <p className="text-[10px] text-slate-500">Settings are kept in this project's repository config in the browser, including the token.</p>
+              <div className="flex justify-end">
+                <button
+                  disabled={!!busy}
+                  onClick={() => run('Saving', () => saveRepositoryConfig(projectId, config))}
+                  className="px-3 py-1.5 rounded-md border border-slate-700 text-xs text-slate-300 hover:text-white hover:border-slate-500 transition-colors"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-[10px] text-rose-400">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default VersionControl;
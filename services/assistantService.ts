@@ -0,0 +1,157 @@
+
+import { ActiveMetadata, Command, CommandType } from "../types";
+import { LLMProvider, LLMRequest, LLMToolCall } from "./llmProviders";
+import { COMMAND_TOOLS, validateCommand } from "./commandTools";
+import { parsePlan } from "./commandParser";
+import { describeStatistics, findUnsupportedNumbers, formatStatistics, SimulationStatistics } from "./simulationAnalysis";
+
+const SYSTEM_INSTRUCTION = `
+You are MolSim AI, an advanced computational chemistry assistant. 
+Your goal is to help users visualize molecules, set up molecular dynamics simulations, and analyze trajectories.
+You understand protocols for AlphaFold structure prediction and AMBER/CHARMM MD simulations.
+
+Answer every request by calling the tools, one call per action. Each tool is a command the app runs; fill only the
+parameters the user states, and put a short explanation of the action in 'explanation'. If nothing fits, call UNKNOWN.
+
+Multi-step requests:
+A message may ask for several actions ("load 4HHB, show it as surface colored by hydrophobicity, then run a simulation").
+Make one call per action, in the order they should happen. Most messages need a single call.
+
+Follow-ups:
+The prompt may start with the current state and the recent turns of the conversation, each with the commands it produced.
+Resolve references like "it", "that", "the same" or "again" from them: "do the same for 1CRN" repeats the last turn's
+commands with the new structure; "color that by chain" applies to the structure currently loaded. Commands marked
+[failed] or [skipped] did not take effect.
+`;
+
+const TOOLS = Object.values(COMMAND_TOOLS);
+
+// Validates every call; one invalid call rejects the whole plan so nothing runs half-done.
+// UNKNOWN calls are dropped from longer plans.
+const toPlan = (calls: LLMToolCall[], text: string): Command[] => {
+  if (calls.length === 0) {
+    return [{ type: CommandType.UNKNOWN, params: {}, explanation: text.trim() || "I couldn't work out what to do with that request." }];
+  }
+  const problems: string[] = [];
+  const steps = calls.flatMap(({ name, args }, i) => {
+    try {
+      return [validateCommand(name, args, args.explanation)];
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Invalid parameters.';
+      problems.push(calls.length > 1 ? `Step ${i + 1}: ${reason}` : reason);
+      return [];
+    }
+  });
+  if (problems.length > 0) {
+    return [{ type: CommandType.UNKNOWN, params: {}, explanation: `I can't do that as asked. ${problems.join(' ')}` }];
+  }
+  const known = steps.filter(step => step.type !== CommandType.UNKNOWN);
+  return known.length > 0 ? known : [steps[0]];
+};
+
+export interface IntentOptions {
+  localFirst?: boolean; // Messages the offline grammar fully understands skip the model
+  metadata?: ActiveMetadata; // Lets the offline grammar answer simple questions about the structure
+}
+
+/**
+ * Turns a chat message into an ordered plan of commands (usually one). Uses the offline grammar
+ * first when `localFirst` is set, and instead of the model when the model fails.
+ */
+export const parseUserIntent = async (llm: LLMProvider, userText: string, context?: string, options: IntentOptions = {}): Promise<Command[]> => {
+  const local = parsePlan(userText, options.metadata);
+  if (options.localFirst && local?.complete) return local.steps;
+
+  try {
+    const processedInput = userText.length > 2000 ? userText.substring(0, 2000) + "...[truncated]" : userText;
+    
+    let prompt = processedInput;
+    if (context) {
+        prompt = `${context}\n\nUser Request: ${processedInput}`;
+    }
+
+    const { calls, text } = await llm.callTools({ system: SYSTEM_INSTRUCTION, prompt }, TOOLS);
+    const plan = toPlan(calls, text);
+    return plan[0].type === CommandType.UNKNOWN && local ? local.steps : plan;
+  } catch (error) {
+    console.error(`Assistant error (${llm.id}):`, error);
+    const reason = error instanceof Error ? error.message : 'The model could not be reached.';
+    if (local) {
+      const partial = local.complete ? '' : ' Only part of the message may have been understood.';
+      const [firstStep, ...rest] = local.steps;
+      return [{ ...firstStep, explanation: `${firstStep.explanation} (Handled offline: ${reason}${partial})` }, ...rest];
+    }
+    return [{
+      type: CommandType.UNKNOWN,
+      params: {},
+      explanation: `I'm sorry, I encountered an error processing your request. ${reason} Routine commands such as "load 1UBQ", "color by chain" or "run a simulation at 310 K" still work offline.`,
+    }];
+  }
+};
+
+export interface StreamOptions {
+  onText?: (text: string) => void; // The reply so far, after every chunk
+  signal?: AbortSignal;
+}
+
+// Streams a prose reply. A stopped or broken stream keeps the text that arrived, with `ending` saying why
+// it ends there; `fallback` is used only when nothing arrived
+const streamReply = async (llm: LLMProvider, request: LLMRequest, fallback: string, { onText, signal }: StreamOptions = {}): Promise<{ text: string; ending?: string }> => {
+    let received = '';
+    try {
+        return { text: await llm.stream(request, chunk => {
+            received += chunk;
+            onText?.(received);
+        }, signal) };
+    } catch (error) {
+        if (signal?.aborted) return received ? { text: received.trimEnd(), ending: '(Stopped.)' } : { text: 'Stopped before the reply started.' };
+        console.error(`Assistant error (${llm.id}):`, error);
+        if (!received) return { text: fallback };
+        const reason = error instanceof Error ? error.message : 'The connection was lost.';
+        return { text: received.trimEnd(), ending: `(The reply was cut off: ${reason})` };
+    }
+};
+
+const streamProse = async (llm: LLMProvider, request: LLMRequest, fallback: string, stream?: StreamOptions): Promise<string> => {
+    const { text, ending } = await streamReply(llm, request, fallback, stream);
+    return ending ? `${text}\n\n${ending}` : text;
+};
+
+/**
+ * Summarizes a run from its computed statistics. The model is asked to cite only those numbers, and
+ * any number in its reply that matches none of them is flagged under the reply.
+ */
+export const generateAnalysisSummary = async (llm: LLMProvider, stats: SimulationStatistics, stream?: StreamOptions): Promise<string> => {
+    const fallback = describeStatistics(stats);
+    const { text, ending } = await streamReply(llm, {
+        system: `You are MolSim AI, summarizing a molecular dynamics run for a materials scientist. Base every statement on the statistics
+you are given. When you quote a number, copy it exactly as it appears in the statistics (you may drop trailing digits, but never
+convert units or compute new values). If the data cannot support a conclusion, for example the RMSD never settles, say so.`,
+        prompt: `Statistics of the run:
+${formatStatistics(stats)}
+
+Write a brief scientific conclusion (one or two short paragraphs) about the structure's stability: whether and when it equilibrated,
+how much the RMSD drifts in the last stage, how well the temperature holds its target, and how the potential energy trends.`,
+    }, fallback, stream);
+    if (text === fallback) return text;
+
+    const unsupported = findUnsupportedNumbers(text, stats);
+    const check = unsupported.length > 0
+        ? `(Check: ${unsupported.join(', ')} ${unsupported.length === 1 ? 'does' : 'do'} not match the computed statistics.)`
+        : undefined;
+    return [text, ending, check].filter(Boolean).join('\n\n');
+}
+
+export const getValidationMethodology = async (llm: LLMProvider, stream?: StreamOptions): Promise<string> => {
+    return streamProse(llm, {
+            prompt: `Explain the AI validation methodology used to evaluate this protein structure prediction model. 
+            Provide a detailed, scientific explanation covering these four pillars:
+            
+            1. **Accuracy**: How is structural accuracy measured? Mention Root Mean Square Deviation (RMSD) and Global Distance Test (GDT_TS) against crystallographic ground truth.
+            2. **Fairness**: How do we ensure the model works across diverse protein families? Discuss testing on underrepresented classes like membrane proteins or disordered regions to prevent training bias.
+            3. **Robustness**: How is the model tested against perturbations? Explain the injection of Gaussian noise (0.1Å - 1.0Å) into atomic coordinates to measure prediction stability.
+            4. **Interpretability**: How do we explain the model's confidence? Mention per-residue confidence scores (pLDDT) and feature importance analysis (e.g., SHAP values) to identify critical folding determinants.
+            
+            Format the response as a clean, professional markdown section suitable for a scientific dashboard.`,
+    }, "Unable to retrieve validation methodology.", stream);
+}
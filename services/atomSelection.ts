@@ -0,0 +1,349 @@
+import { Atom, NamedSelection } from "../types";
+import { classifyResidue, ResidueClass } from "./structureModel";
+
+// Atom selection language shared by the viewer highlight, the chat command and the analyses, e.g.
+// "chain A and resid 40-50" or "resname LYS and byres within 5 of ligand"
+
+export const PROTEIN_BACKBONE = new Set(['N', 'CA', 'C', 'O']);
+export const NUCLEIC_BACKBONE = new Set(['P', 'OP1', 'OP2', 'O1P', 'O2P', "O5'", "C5'", "C4'", "C3'", "O3'"]);
+
+// One-line grammar summary for the model's tool description and error messages
+export const SELECTION_SYNTAX = "Keywords: all, none, protein, nucleic, backbone, sidechain, ligand, water, hetero, hydrogen. " +
+  "Properties: chain A B, resid 40-50 60, resname LYS ARG, name CA CB, element FE (names accept * wildcards). " +
+  "Distance: within 5 of ligand (Å). Whole residues: byres <selection>. Combine with and, or, not and parentheses; " +
+  "saved selections are referred to by name.";
+
+type Flag = 'all' | 'none' | 'protein' | 'nucleic' | 'backbone' | 'sidechain' | 'ligand' | 'water' | 'hetero' | 'hydrogen';
+
+export type SelectionNode =
+  | { kind: Flag }
+  | { kind: 'chain'; ids: string[] }
+  | { kind: 'resid'; ranges: [number, number][] }
+  | { kind: 'resname' | 'name' | 'element'; patterns: string[] }
+  | { kind: 'within'; distance: number; target: SelectionNode }
+  | { kind: 'byres'; target: SelectionNode }
+  | { kind: 'not'; operand: SelectionNode }
+  | { kind: 'and' | 'or'; left: SelectionNode; right: SelectionNode }
+  | { kind: 'ref'; name: string }; // A saved selection, replaced by its expression before evaluation
+
+const FLAGS = new Set<string>(['all', 'none', 'protein', 'nucleic', 'backbone', 'sidechain', 'ligand', 'water', 'hetero', 'hydrogen']);
+const PROPERTIES: Record<string, 'chain' | 'resid' | 'resname' | 'name' | 'element'> = {
+  chain: 'chain', chains: 'chain', resid: 'resid', resi: 'resid', residue: 'resid', residues: 'resid', resseq: 'resid',
+  resname: 'resname', resn: 'resname', name: 'name', atomname: 'name', element: 'element', elem: 'element',
+};
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = { and: 'and', '&': 'and', '&&': 'and', or: 'or', '|': 'or', '||': 'or', not: 'not', '!': 'not' };
+const RESERVED = new Set([...FLAGS, ...Object.keys(PROPERTIES), ...Object.keys(OPERATORS), 'within', 'of', 'byres', 'to']);
+
+// Own keys only, so words such as "constructor" are not read off Object.prototype
+const propertyOf = (token: string) => Object.hasOwn(PROPERTIES, token) ? PROPERTIES[token] : undefined;
+const operatorOf = (token: string | undefined) => token !== undefined && Object.hasOwn(OPERATORS, token) ? OPERATORS[token] : undefined;
+const DISTANCE_UNITS = new Set(['å', 'a', 'angstrom', 'angstroms']);
+
+const NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+const RANGE_PATTERN = /^(-?\d+)(?:[-–:](-?\d+))?$/;
+
+// Names a selection can be saved under: a word that is not part of the language nor an Object.prototype member
+export const isSelectionName = (name: string) =>
+  NAME_PATTERN.test(name) && !RESERVED.has(name.toLowerCase()) && !Object.hasOwn(Object.prototype, name);
+
+const tokenize = (expression: string) => expression.match(/[()]|&&|\|\||[&|!]|[^\s(),&|!]+/g) ?? [];
+
+/**
+ * Parses a selection expression. Throws an Error naming the offending word and what was expected
+ * there; saved selection names are kept as references.
+ */
+export const parseSelection = (expression: string): SelectionNode => {
+  const tokens = tokenize(expression);
+  let position = 0;
+  const peek = () => tokens[position]?.toLowerCase();
+  const fail = (expected: string): never => {
+    const found = tokens[position];
+    throw new Error(found === undefined
+      ? `The selection "${expression.trim()}" ends early; expected ${expected}.`
+      : `Unexpected "${found}" in the selection "${expression.trim()}"; expected ${expected}.`);
+  };
+  // Values run until the next keyword, operator or parenthesis
+  const isValue = (token: string | undefined) => token !== undefined && token !== '(' && token !== ')' && !RESERVED.has(token) && !operatorOf(token);
+
+  const parseOr = (): SelectionNode => {
+    let node = parseAnd();
+    while (operatorOf(peek()) === 'or') {
+      position++;
+      node = { kind: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): SelectionNode => {
+    let node = parseNot();
+    while (operatorOf(peek()) === 'and') {
+      position++;
+      node = { kind: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): SelectionNode => {
+    const token = peek();
+    if (operatorOf(token) === 'not') {
+      position++;
+      return { kind: 'not', operand: parseNot() };
+    }
+    if (token === 'byres') {
+      position++;
+      return { kind: 'byres', target: parseNot() };
+    }
+    if (token === 'within') {
+      position++;
+      const match = tokens[position]?.match(/^(\d+(?:\.\d+)?)(?:å|a)?$/i); // "5", "5Å"
+      const distance = match ? Number(match[1]) : 0;
+      if (!(distance > 0)) fail('a distance in Å after "within"');
+      position++;
+      if (DISTANCE_UNITS.has(peek() ?? '')) position++;
+      if (peek() !== 'of') fail('"of" after the distance');
+      position++;
+      return { kind: 'within', distance, target: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): SelectionNode => {
+    const token = peek();
+    if (token === undefined) return fail('a keyword, property or saved selection');
+    if (token === '(') {
+      position++;
+      const node = parseOr();
+      if (peek() !== ')') fail('")"');
+      position++;
+      return node;
+    }
+    if (FLAGS.has(token)) {
+      position++;
+      return { kind: token as Flag };
+    }
+    const property = propertyOf(token);
+    if (property) {
+      position++;
+      const values: string[] = [];
+      while (isValue(peek())) {
+        values.push(tokens[position++]);
+        // "resid 40 to 50"
+        if (property === 'resid' && peek() === 'to' && isValue(tokens[position + 1]?.toLowerCase())) {
+          values[values.length - 1] += `-${tokens[position + 1]}`;
+          position += 2;
+        }
+      }
+      if (values.length === 0) fail(`at least one value after "${token}"`);
+      if (property === 'chain') return { kind: 'chain', ids: values };
+      if (property === 'resid') {
+        const ranges = values.map(value => {
+          const match = value.match(RANGE_PATTERN);
+          if (!match) throw new Error(`"${value}" is not a residue number or range (e.g. 40-50).`);
+          const start = Number(match[1]);
+          const end = match[2] !== undefined ? Number(match[2]) : start;
+          return [Math.min(start, end), Math.max(start, end)] as [number, number];
+        });
+        return { kind: 'resid', ranges };
+      }
+      return { kind: property, patterns: values.map(value => value.toUpperCase()) };
+    }
+    if (isSelectionName(tokens[position])) return { kind: 'ref', name: tokens[position++] };
+    return fail('a keyword, property or saved selection');
+  };
+
+  if (tokens.length === 0) throw new Error('The selection is empty.');
+  const node = parseOr();
+  if (position < tokens.length) fail('"and", "or" or the end of the selection');
+  return node;
+};
+
+const group = (node: SelectionNode) => node.kind === 'and' || node.kind === 'or' ? `(${formatSelection(node)})` : formatSelection(node);
+
+// Canonical text of a parsed selection; parsing it again gives the same tree
+export const formatSelection = (node: SelectionNode): string => {
+  switch (node.kind) {
+    case 'chain': return `chain ${node.ids.join(' ')}`;
+    case 'resid': return `resid ${node.ranges.map(([start, end]) => start === end ? `${start}` : `${start}-${end}`).join(' ')}`;
+    case 'resname':
+    case 'name':
+    case 'element':
+      return `${node.kind} ${node.patterns.join(' ')}`;
+    case 'within': return `within ${node.distance} of ${group(node.target)}`;
+    case 'byres': return `byres ${group(node.target)}`;
+    case 'not': return `not ${group(node.operand)}`;
+    case 'and':
+    case 'or':
+      return `${node.left.kind !== node.kind ? group(node.left) : formatSelection(node.left)} ${node.kind} ${group(node.right)}`;
+    case 'ref': return node.name;
+    default: return node.kind;
+  }
+};
+
+const expand = (node: SelectionNode, saved: NamedSelection[], trail: string[]): SelectionNode => {
+  switch (node.kind) {
+    case 'ref': {
+      const entry = saved.find(selection => selection.name.toLowerCase() === node.name.toLowerCase());
+      if (!entry) {
+        throw new Error(`There is no saved selection called "${node.name}".${saved.length > 0 ? ` Saved selections: ${saved.map(s => s.name).join(', ')}.` : ''}`);
+      }
+      if (trail.includes(entry.name)) throw new Error(`The selection "${entry.name}" refers to itself.`);
+      return expand(parseSelection(entry.expression), saved, [...trail, entry.name]);
+    }
+    case 'within':
+    case 'byres':
+      return { ...node, target: expand(node.target, saved, trail) };
+    case 'not': return { kind: 'not', operand: expand(node.operand, saved, trail) };
+    case 'and':
+    case 'or':
+      return { kind: node.kind, left: expand(node.left, saved, trail), right: expand(node.right, saved, trail) };
+    default: return node;
+  }
+};
+
+/**
+ * Checks `expression` and replaces saved selection names with their definitions, so the result
+ * stands on its own when stored or evaluated later. Throws an Error for syntax errors and unknown names.
+ */
+export const resolveSelection = (expression: string, saved: NamedSelection[] = []): string =>
+  formatSelection(expand(parseSelection(expression), saved, []));
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`, 'i');
+
+const matcher = (patterns: string[]) => {
+  const exact = new Set(patterns.filter(p => !p.includes('*')));
+  const wildcards = patterns.filter(p => p.includes('*')).map(globToRegExp);
+  return (value: string) => exact.has(value.toUpperCase()) || wildcards.some(re => re.test(value));
+};
+
+const residueKey = (atom: Atom) => `${atom.chainId}|${atom.resSeq}|${atom.insCode}|${atom.resName}`;
+
+// Atoms within `distance` of any atom in `target`, using a grid with cells one distance wide
+const withinMask = (atoms: Atom[], target: Uint8Array, distance: number): Uint8Array => {
+  const cellOf = (v: number) => Math.floor(v / distance);
+  const cells = new Map<string, number[]>();
+  atoms.forEach((atom, i) => {
+    if (!target[i]) return;
+    const key = `${cellOf(atom.x)},${cellOf(atom.y)},${cellOf(atom.z)}`;
+    const members = cells.get(key);
+    if (members) members.push(i);
+    else cells.set(key, [i]);
+  });
+
+  const squared = distance * distance;
+  const mask = new Uint8Array(atoms.length);
+  if (cells.size === 0) return mask;
+  atoms.forEach((atom, i) => {
+    const cx = cellOf(atom.x), cy = cellOf(atom.y), cz = cellOf(atom.z);
+    for (let dx = -1; dx <= 1 && !mask[i]; dx++) {
+      for (let dy = -1; dy <= 1 && !mask[i]; dy++) {
+        for (let dz = -1; dz <= 1 && !mask[i]; dz++) {
+          const members = cells.get(`${cx + dx},${cy + dy},${cz + dz}`);
+          if (!members) continue;
+          for (const j of members) {
+            const other = atoms[j];
+            if ((atom.x - other.x) ** 2 + (atom.y - other.y) ** 2 + (atom.z - other.z) ** 2 <= squared) {
+              mask[i] = 1;
+              break;
+            }
+          }
+        }
+      }
+    }
+  });
+  return mask;
+};
+
+const evaluate = (node: SelectionNode, atoms: Atom[], classes: ResidueClass[]): Uint8Array => {
+  const test = (predicate: (atom: Atom, i: number) => boolean) => Uint8Array.from(atoms, (atom, i) => predicate(atom, i) ? 1 : 0);
+  switch (node.kind) {
+    case 'all': return test(() => true);
+    case 'none': return new Uint8Array(atoms.length);
+    case 'protein': return test((_, i) => classes[i] === 'protein');
+    case 'nucleic': return test((_, i) => classes[i] === 'nucleic');
+    case 'water': return test((_, i) => classes[i] === 'water');
+    case 'ligand': return test((atom, i) => atom.isHetero && classes[i] === 'other');
+    case 'hetero': return test(atom => atom.isHetero);
+    case 'hydrogen': return test(atom => atom.element === 'H');
+    case 'backbone':
+      return test((atom, i) => (classes[i] === 'protein' && PROTEIN_BACKBONE.has(atom.name)) || (classes[i] === 'nucleic' && NUCLEIC_BACKBONE.has(atom.name)));
+    case 'sidechain':
+      return test((atom, i) => classes[i] === 'protein' && !PROTEIN_BACKBONE.has(atom.name));
+    case 'chain': {
+      // Chain IDs are case-sensitive in mmCIF; fall back to ignoring case when nothing matches exactly
+      const present = new Set(atoms.map(atom => atom.chainId));
+      const ids = new Set(node.ids.flatMap(id => present.has(id) ? [id] : [...present].filter(p => p.toUpperCase() === id.toUpperCase())));
+      return test(atom => ids.has(atom.chainId));
+    }
+    case 'resid': return test(atom => node.ranges.some(([start, end]) => atom.resSeq >= start && atom.resSeq <= end));
+    case 'resname': {
+      const matches = matcher(node.patterns);
+      return test(atom => matches(atom.resName));
+    }
+    case 'name': {
+      const matches = matcher(node.patterns);
+      return test(atom => matches(atom.name));
+    }
+    case 'element': {
+      const matches = matcher(node.patterns);
+      return test(atom => matches(atom.element));
+    }
+    case 'within': return withinMask(atoms, evaluate(node.target, atoms, classes), node.distance);
+    case 'byres': {
+      const target = evaluate(node.target, atoms, classes);
+      const residues = new Set(atoms.filter((_, i) => target[i]).map(residueKey));
+      return test(atom => residues.has(residueKey(atom)));
+    }
+    case 'not': return evaluate(node.operand, atoms, classes).map(v => v ? 0 : 1);
+    case 'and': {
+      const left = evaluate(node.left, atoms, classes);
+      const right = evaluate(node.right, atoms, classes);
+      return left.map((v, i) => v & right[i]);
+    }
+    case 'or': {
+      const left = evaluate(node.left, atoms, classes);
+      const right = evaluate(node.right, atoms, classes);
+      return left.map((v, i) => v | right[i]);
+    }
+    case 'ref':
+      throw new Error(`The selection "${node.name}" must be resolved before it can be evaluated.`);
+  }
+};
+
+/**
+ * Indices of the atoms matching `expression`, which must not refer to saved selections (see
+ * resolveSelection). Throws an Error when the expression does not parse.
+ */
+export const selectAtoms = (atoms: Atom[], expression: string): Int32Array => {
+  const node = parseSelection(expression);
+  const byName = new Map<string, ResidueClass>();
+  const classes = atoms.map(atom => {
+    let kind = byName.get(atom.resName);
+    if (!kind) byName.set(atom.resName, kind = classifyResidue(atom.resName));
+    return kind;
+  });
+  const mask = evaluate(node, atoms, classes);
+  const picked: number[] = [];
+  mask.forEach((v, i) => { if (v) picked.push(i); });
+  return Int32Array.from(picked);
+};
+
+// "77 atoms in 11 residues"
+export const describeSelection = (atoms: Atom[], indices: Int32Array): string => {
+  const residues = new Set(Array.from(indices, i => residueKey(atoms[i]))).size;
+  return `${indices.length} atom${indices.length === 1 ? '' : 's'} in ${residues} residue${residues === 1 ? '' : 's'}`;
+};
+
+/**
+ * NGL selection string ("@0,1,2") for the loaded component's atoms that correspond to the selected
+ * parsed atoms. Atoms are matched by chain, residue and atom name, as in trajectory playback, so every
+ * model of an ensemble is covered.
+ */
+export const toNglSelection = (structure: any, atoms: Atom[], indices: Int32Array): string | null => {
+  const keys = new Set(Array.from(indices, i => `${residueKey(atoms[i])}|${atoms[i].name}`));
+  const picked: number[] = [];
+  structure.eachAtom((ap: any) => {
+    if (keys.has(`${ap.chainname || ''}|${ap.resno}|${ap.inscode || ''}|${ap.resname}|${ap.atomname}`)) picked.push(ap.index);
+  });
+  return picked.length > 0 ? `@${picked.join(',')}` : null;
+};
@@ -0,0 +1,729 @@
+import { ActiveMetadata, Command, CommandType, MeasurementKind, StructureSourceId } from "../types";
+import { STRUCTURE_SOURCES } from "./structureSources";
+import { ProtocolOverrides } from "./simulationProtocol";
+import { validateCommand } from "./commandTools";
+import { isSelectionName } from "./atomSelection";
+import { ATOM_COUNTS, parseAtomSpec } from "./measurements";
+import { MAX_LAYERS } from "./representationLayers";
+
+// Deterministic grammar for routine chat commands. It stands in when no language model answers
+// and can run in front of the model, so "load 1UBQ" gives the same result every time.
+
+export interface LocalParse {
+  command: Command;
+  complete: boolean; // Every word of the message was understood, not just a command inside it
+}
+
+export interface LocalPlan {
+  steps: Command[];
+  complete: boolean; // Every clause was understood completely
+}
+
+interface RuleMatch {
+  type: CommandType;
+  params?: Record<string, unknown>;
+  explanation: string;
+  consumed?: string[]; // Parts of the message matched as values (IDs, sequences, names)
+}
+
+type Rule = (text: string, raw: string, metadata?: ActiveMetadata) => RuleMatch | null;
+
+// Words that carry no command meaning
+const FILLER = new Set(`please can could would you will i i'd want like to the a an this that it it's its me my now ok okay
+  thanks thank just let's lets us go ahead and of for with on in at by as structure protein molecule model system again
+  instead mode also some bit`.split(/\s+/));
+
+const words = (list: string) => new Set(list.split(/\s+/));
+
+// Vocabulary of each command; a message made only of these (plus filler) is parsed completely
+const VOCABULARY: Partial<Record<CommandType, Set<string>>> = {
+  [CommandType.LOAD_PDB]: words('load open fetch get show display view visualize visualise bring up pull download from pdb entry id rcsb pdbe alphafold db database mirror local custom source uniprot'),
+  [CommandType.SET_REPRESENTATION]: words('show display render draw view switch change set use make representation style rep ball-and-stick balls-and-sticks cartoon cartoons ribbon ribbons licorice stick sticks ball balls spacefill space-filling space filling cpk sphere spheres vdw surface surfaces molecular'),
+  [CommandType.SET_COLOR_SCHEME]: words('color colour colored coloured coloring colouring scheme change set switch per chain chains chainid residue residues index residueindex rainbow sequence element elements atom atoms type cpk hydrophobicity hydrophobic hydropathy'),
+  [CommandType.TOGGLE_SPIN]: words('spin spinning rotate rotating rotation turn turntable start stop on off enable disable begin toggle freeze keep'),
+  [CommandType.RUN_SIMULATION]: words(`run start launch perform do begin kick off set simulate simulation simulations md dynamics molecular equilibrate
+    stability check ensemble nve nvt npt temperature pressure timestep time step steps dt duration production minimization minimisation
+    equilibration cutoff cut-off seed thermostat barostat langevin berendsen monte carlo montecarlo k kelvin °c c celsius degrees bar atm
+    fs ps ns å angstrom angstroms long random trajectory`),
+  [CommandType.PAUSE_SIMULATION]: words('pause hold suspend run simulation md dynamics'),
+  [CommandType.RESUME_SIMULATION]: words('resume continue unpause restart run simulation md dynamics'),
+  [CommandType.STOP_SIMULATION]: words('stop cancel abort halt kill end terminate run simulation md dynamics'),
+  [CommandType.EXTEND_SIMULATION]: words('extend extension longer more additional another production run simulation md dynamics continue fs ps ns steps step'),
+  [CommandType.ANALYZE_DATA]: words('analyze analyse analysis show plot plots graph graphs chart charts results data rmsd energy energies temperature trajectory display view open panel'),
+  [CommandType.EVALUATE_MODEL]: words('evaluate evaluation validate validation accuracy fairness robustness interpretability trust model ai prediction run'),
+  [CommandType.PROCESS_SEQUENCE]: words('predict prediction fold folding alphafold sequence run called named'),
+  [CommandType.SELECT_ATOMS]: words(`highlight highlighted highlighting select selection mark pick out show display draw render residues residue atoms atom
+    chain chains ligand ligands water waters backbone side sidechain sidechains everything all as save call name clear remove hide unhighlight
+    ball-and-stick balls-and-sticks cartoon cartoons ribbon ribbons licorice stick sticks ball balls spacefill space-filling space filling cpk
+    sphere spheres vdw surface surfaces`),
+  [CommandType.COMPARE_STRUCTURES]: words(`compare comparing comparison superpose superimpose superposition overlay with to against onto vs versus
+    exit leave stop end clear close quit structures structure models from pdb entry rcsb pdbe alphafold db database mirror loaded one`),
+  [CommandType.EDIT_LAYERS]: words(`layer layers add new put over on for of around covering as to show hide unhide turn off remove delete clear all
+    move up down top bottom position make set change colored coloured colors colours color colour by opacity opaque solid transparent
+    semi-transparent translucent see-through half percent ball-and-stick balls-and-sticks cartoon cartoons ribbon ribbons licorice stick sticks
+    ball balls spacefill space-filling space filling cpk sphere spheres vdw surface surfaces molecular chain chainid subunit residue residues
+    index residueindex rainbow sequence element elements atom atoms type hydrophobicity hydrophobic hydropathy ligand ligands water waters
+    backbone side sidechain sidechains nucleic dna rna everything whole`),
+  [CommandType.EXPORT_IMAGE]: words(`save export take download make render capture grab create get png image images picture screenshot snapshot
+    figure high resolution res high-res high-resolution publication quality print transparent background supersampling supersampled
+    antialiasing antialiased x × px pixel pixels wide width scale times file view`),
+  [CommandType.EXPORT_MOVIE]: words(`save export make record create render download capture get movie movies video videos animation animated gif webm
+    clip spin spinning rotation rotating rotate turntable full turn trajectory simulation run md playback playing frames fps frame per second
+    seconds second sec secs s long file view`),
+  [CommandType.MEASURE]: words('measure measurement measurements show what is the distance distances angle angles dihedral dihedrals torsion between from to formed by clear remove delete all')
+};
+
+// Rules whose vocabulary includes bare numbers (step counts, seeds, temperatures)
+const NUMERIC = new Set([CommandType.RUN_SIMULATION, CommandType.EXTEND_SIMULATION]);
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const AMINO_ACID_BLOCK = /\b[ACDEFGHIKLMNPQRSTVWY]{10,}\b/gi;
+const PDB_ID = /\b[0-9][a-z0-9]{3}\b/gi;
+const UNIT_TOKEN = /^\d+(?:k|ps|ns|fs|å|a)$/i; // 310K, 10ns: quantities, not PDB IDs
+const ALPHAFOLD_ID = /\bAF-[A-Z0-9]+-F\d+\b/i;
+const STRUCTURE_ID = String.raw`\b(?:AF-[A-Z0-9]+-F\d+|[0-9](?=[A-Za-z0-9]{0,2}[A-Za-z])[A-Za-z0-9]{3})\b`; // PDB or AlphaFold, as written
+const COMPARE_VERB = String.raw`compare|superpose|superimpose|overlay`;
+const UNIPROT_ACCESSION = /\b(?:[OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9](?:[A-Z][A-Z0-9]{2}[0-9]){1,2})\b/;
+
+const REPRESENTATIONS: [RegExp, string][] = [
+  [/\bsurfaces?\b/, 'surface'],
+  [/\b(spacefill|space[- ]filling|spheres?|cpk|vdw)\b/, 'spacefill'],
+  [/\b(licorice|sticks?|ball[- ]and[- ]stick|balls? and sticks?)\b/, 'licorice'],
+  [/\bribbons?\b/, 'ribbon'],
+  [/\bcartoons?\b/, 'cartoon']
+];
+
+const COLOR_SCHEMES: [RegExp, string, string][] = [
+  [/\bhydro(phobicity|phobic|pathy)\b/, 'hydrophobicity', 'hydrophobicity'],
+  [/\b(elements?|atom types?|cpk)\b/, 'element', 'element'],
+  [/\b(chains?|chainid|subunits?)\b/, 'chainid', 'chain'],
+  [/\b(residues?( index)?|residueindex|rainbow|sequence)\b/, 'residueindex', 'residue index']
+];
+
+const SOURCES: [RegExp, StructureSourceId][] = [
+  [/\bpdbe\b/, 'pdbe'],
+  [/\brcsb\b/, 'rcsb'],
+  [/\b(alphafold|uniprot)\b/, 'alphafold'],
+  [/\bmirror\b/, 'mirror'],
+  [/\bcustom (source|url|server)\b/, 'custom']
+];
+
+// Amino acids by their English names ("lysines") and three-letter codes, for selections
+const AMINO_ACID_NAMES: Record<string, string> = {
+  alanine: 'ALA', arginine: 'ARG', asparagine: 'ASN', aspartate: 'ASP', 'aspartic acid': 'ASP', cysteine: 'CYS', glutamine: 'GLN',
+  glutamate: 'GLU', 'glutamic acid': 'GLU', glycine: 'GLY', histidine: 'HIS', isoleucine: 'ILE', leucine: 'LEU', lysine: 'LYS',
+  methionine: 'MET', phenylalanine: 'PHE', proline: 'PRO', serine: 'SER', threonine: 'THR', tryptophan: 'TRP', tyrosine: 'TYR', valine: 'VAL'
+};
+const AMINO_ACID_WORD = new RegExp(`\\b(${Object.keys(AMINO_ACID_NAMES).join('|')})s?\\b`, 'g');
+const AMINO_ACID_CODE = new RegExp(`\\b(${[...new Set(Object.values(AMINO_ACID_NAMES))].join('|')})\\b`, 'g'); // Upper case only: "his", "met"
+const RESIDUE_RANGE = String.raw`residues?\s+(-?\d+)(?:\s*(?:-|–|to|through)\s*(-?\d+))?`;
+const CHAIN_ID = String.raw`chains?\s+([a-z0-9])\b`;
+const WITHIN = new RegExp(String.raw`\bwithin\s+(\d+(?:\.\d+)?)\s*(?:å|a|angstroms?)?\s+of\s+(?:the\s+)?(ligands?|waters?|${CHAIN_ID}|${RESIDUE_RANGE})`);
+
+// Words naming a whole class of atoms, for layers over "the protein" or "everything"
+const SELECTION_KEYWORDS: [RegExp, string][] = [
+  [/^(proteins?|polypeptides?)$/, 'protein'],
+  [/^(nucleic|dna|rna)$/, 'nucleic'],
+  [/^ligands?$/, 'ligand'],
+  [/^waters?$/, 'water'],
+  [/^(all|everything|whole)$/, 'all']
+];
+
+const residRange = (start: string, end?: string) => `resid ${start}${end !== undefined ? `-${end}` : ''}`;
+
+// What a phrase such as "the ligand", "chain B" or "residues 10-20" selects
+const selectionTarget = (phrase: string): string => {
+  if (/^ligand/.test(phrase)) return 'ligand';
+  if (/^water/.test(phrase)) return 'water';
+  const chain = phrase.match(new RegExp(`^${CHAIN_ID}`));
+  if (chain) return `chain ${chain[1].toUpperCase()}`;
+  const range = phrase.match(new RegExp(`^${RESIDUE_RANGE}`));
+  return range ? residRange(range[1], range[2]) : 'none';
+};
+
+/**
+ * Selection expression for phrases like "residues 40-50 on chain A" or "lysines within 5 Å of the
+ * ligand", with the parts of the text it was read from. Null when the text names no atoms.
+ */
+const readSelection = (text: string, raw: string): { expression: string; consumed: string[] } | null => {
+  const terms: string[] = [];
+  const consumed: string[] = [];
+  const within = text.match(WITHIN);
+  const subject = within ? text.replace(within[0], ' ') : text;
+  if (within) consumed.push(within[0]);
+
+  const names = new Set<string>();
+  for (const match of subject.matchAll(AMINO_ACID_WORD)) {
+    names.add(AMINO_ACID_NAMES[match[1]]);
+    consumed.push(match[0]);
+  }
+  for (const match of raw.matchAll(AMINO_ACID_CODE)) {
+    names.add(match[1]);
+    consumed.push(match[1].toLowerCase());
+  }
+  if (names.size > 0) terms.push(`resname ${[...names].join(' ')}`);
+
+  const range = subject.match(new RegExp(`\\b${RESIDUE_RANGE}`));
+  if (range) {
+    terms.push(residRange(range[1], range[2]));
+    consumed.push(range[0]);
+  }
+  const chain = subject.match(new RegExp(`\\b${CHAIN_ID}`));
+  if (chain) {
+    terms.push(`chain ${chain[1].toUpperCase()}`);
+    consumed.push(chain[0]);
+  }
+  if (/\bbackbone\b/.test(subject)) terms.push('backbone');
+  else if (/\bside[- ]?chains?\b/.test(subject)) terms.push('sidechain');
+  if (terms.length === 0 && /\bligands?\b/.test(subject)) terms.push('ligand');
+  if (terms.length === 0 && /\bwaters?\b/.test(subject)) terms.push('water');
+
+  if (within) {
+    // Residues near something are shown whole, not just the atoms that happen to be in range
+    const byResidue = names.size > 0 || /\bresidues?\b/.test(subject);
+    terms.push(`${byResidue ? 'byres ' : ''}within ${within[1]} of ${selectionTarget(within[2])}`);
+  }
+  return terms.length > 0 ? { expression: terms.join(' and '), consumed } : null;
+};
+
+const first = (text: string, pattern: RegExp) => text.match(pattern)?.[1];
+const toNumber = (value: string | undefined) => value === undefined ? undefined : Number(value);
+
+// Opacity from "transparent", "30% opaque" or "opacity 0.3"
+const readOpacity = (text: string): { opacity: number; consumed: string[] } | undefined => {
+  const percent = text.match(/(\d+(?:\.\d+)?)\s*(?:%|percent)\s*(opaque|opacity|transparent|transparency)\b/);
+  if (percent) {
+    const value = Number(percent[1]) / 100;
+    return { opacity: /^transparen/.test(percent[2]) ? 1 - value : value, consumed: [percent[0]] };
+  }
+  const value = text.match(/\bopacity\s*(?:of\s+|to\s+|=\s*)?(\d*\.?\d+)/);
+  if (value) return { opacity: Number(value[1]), consumed: [value[0]] };
+  if (/\b(semi-?transparent|translucent|half[- ]transparent)\b/.test(text)) return { opacity: 0.5, consumed: [] };
+  if (/\b(transparent|see-through)\b/.test(text)) return { opacity: 0.4, consumed: [] };
+  if (/\b(opaque|solid)\b/.test(text)) return { opacity: 1, consumed: [] };
+  return undefined;
+};
+
+// Step counts written as "10k steps"
+const expandThousands = (text: string) =>
+  text.replace(new RegExp(`${NUMBER}\\s*k(?=\\s+(?:[a-z]+\\s+)?steps?\\b)`, 'g'), (_, n) => String(Number(n) * 1000));
+
+const readDuration = (text: string): number | undefined => {
+  const match = text.match(new RegExp(`${NUMBER}\\s*(ns|ps)\\b(?!\\s*(?:time ?step|dt))`));
+  if (!match || /(?:time ?step|dt)\s*(?:of|=|:)?\s*$/.test(text.slice(0, match.index))) return undefined;
+  return Number(match[1]) * (match[2] === 'ns' ? 1000 : 1);
+};
+
+const readProtocol = (text: string): ProtocolOverrides => {
+  const protocol: ProtocolOverrides = {};
+  const kelvin = first(text, new RegExp(`${NUMBER}\\s*(?:k|kelvin)\\b`));
+  const celsius = first(text, new RegExp(`(-?\\d+(?:\\.\\d+)?)\\s*(?:°\\s*c|degrees?\\s*c(?:elsius)?|celsius)\\b`));
+  if (kelvin) protocol.temperature = Number(kelvin);
+  else if (celsius) protocol.temperature = parseFloat((Number(celsius) + 273.15).toFixed(2));
+
+  const pressure = text.match(new RegExp(`${NUMBER}\\s*(bar|atm)\\b`));
+  if (pressure) protocol.pressure = parseFloat((Number(pressure[1]) * (pressure[2] === 'atm' ? 1.01325 : 1)).toFixed(4));
+
+  const femtoseconds = first(text, new RegExp(`${NUMBER}\\s*fs\\b`));
+  const picoseconds = first(text, new RegExp(`(?:time ?step|dt)\\s*(?:of|=|:)?\\s*${NUMBER}\\s*ps\\b`));
+  if (femtoseconds) protocol.timestep = Number(femtoseconds) / 1000;
+  else if (picoseconds) protocol.timestep = Number(picoseconds);
+
+  const duration = readDuration(text.replace(new RegExp(`(?:time ?step|dt)\\s*(?:of|=|:)?\\s*${NUMBER}\\s*ps\\b`), ''));
+  if (duration !== undefined) protocol.duration = duration;
+
+  const ensemble = first(text, /\b(nve|nvt|npt)\b/);
+  if (ensemble) protocol.ensemble = ensemble.toUpperCase();
+  const thermostat = first(text, /\b(langevin|berendsen)\b(?!\s+barostat)/);
+  if (thermostat) protocol.thermostat = thermostat;
+  if (/\bmonte ?carlo\b/.test(text)) protocol.barostat = 'montecarlo';
+  else if (/\bberendsen\s+barostat\b/.test(text)) protocol.barostat = 'berendsen';
+
+  const cutoff = first(text, new RegExp(`cut-?off\\s*(?:of|=|:)?\\s*${NUMBER}`)) ?? first(text, new RegExp(`${NUMBER}\\s*(?:å|angstroms?)\\s+cut-?off`));
+  if (cutoff) protocol.cutoff = Number(cutoff);
+  const seed = first(text, /\bseed\s*(?:of|=|:)?\s*(\d+)/);
+  if (seed) protocol.seed = Number(seed);
+
+  (['minimization', 'equilibration', 'production'] as const).forEach(stage => {
+    const name = stage === 'minimization' ? 'minimi[sz]ation' : stage;
+    const steps = first(text, new RegExp(`(\\d+)\\s+(?:${name}\\s+steps?|steps? of ${name})`)) ?? first(text, new RegExp(`${name}\\s*(?:steps)?\\s*(?:of|=|:|for)?\\s*(\\d+)\\s*steps?`));
+    if (steps) protocol[`${stage}Steps`] = Number(steps);
+  });
+  return protocol;
+};
+
+const describeOverrides = (protocol: ProtocolOverrides) => {
+  const parts: string[] = [];
+  if (protocol.ensemble) parts.push(String(protocol.ensemble));
+  if (protocol.temperature !== undefined) parts.push(`${protocol.temperature} K`);
+  if (protocol.pressure !== undefined) parts.push(`${protocol.pressure} bar`);
+  if (protocol.timestep !== undefined) parts.push(`${parseFloat((Number(protocol.timestep) * 1000).toFixed(3))} fs timestep`);
+  if (protocol.minimizationSteps !== undefined) parts.push(`${protocol.minimizationSteps} minimization steps`);
+  if (protocol.equilibrationSteps !== undefined) parts.push(`${protocol.equilibrationSteps} equilibration steps`);
+  if (protocol.productionSteps !== undefined) parts.push(`${protocol.productionSteps} production steps`);
+  else if (protocol.duration !== undefined) parts.push(`${protocol.duration} ps of production`);
+  if (protocol.thermostat) parts.push(`${protocol.thermostat} thermostat`);
+  if (protocol.barostat) parts.push(`${protocol.barostat} barostat`);
+  if (protocol.cutoff !== undefined) parts.push(`${protocol.cutoff} Å cutoff`);
+  if (protocol.seed !== undefined) parts.push(`seed ${protocol.seed}`);
+  return parts;
+};
+
+const findSequence = (raw: string): { sequence: string; name?: string; consumed: string[] } | null => {
+  const fasta = raw.match(/^\s*>\s*([^\n]*)\n([A-Za-z*\s]+)$/);
+  if (fasta) {
+    const sequence = fasta[2].replace(/[\s*]/g, '').toUpperCase();
+    if (/^[ACDEFGHIKLMNPQRSTVWYXBZUO]+$/.test(sequence)) {
+      return { sequence, name: fasta[1].trim() || undefined, consumed: [fasta[0].toLowerCase()] };
+    }
+  }
+  const blocks = raw.match(AMINO_ACID_BLOCK) ?? [];
+  const sequence = blocks.join('').toUpperCase();
+  if (sequence.length < 20) return null;
+  const name = raw.match(/\b(?:called|named)\s+"?([\w-]+(?: [\w-]+)*?)"?(?=$|[,.;:])/i)?.[1];
+  return { sequence, name, consumed: [...blocks.map(b => b.toLowerCase()), ...(name ? [name.toLowerCase()] : [])] };
+};
+
+const findStructureId = (text: string, raw: string): string | undefined => {
+  const alphafold = raw.match(ALPHAFOLD_ID)?.[0];
+  if (alphafold) return alphafold.toUpperCase();
+  const pdb = (text.match(PDB_ID) ?? []).find(id => !UNIT_TOKEN.test(id) && /[a-z]/.test(id));
+  if (pdb) return pdb.toUpperCase();
+  // Lower-case accessions are only trusted when the message mentions UniProt or AlphaFold
+  const accession = raw.match(UNIPROT_ACCESSION)?.[0] ?? (/\b(uniprot|alphafold)\b/.test(text) ? raw.toUpperCase().match(UNIPROT_ACCESSION)?.[0] : undefined);
+  return accession?.toUpperCase();
+};
+
+// Every PDB and AlphaFold ID in the message, in the order written
+const findStructureIds = (text: string, raw: string): string[] => {
+  const found: { id: string; index: number }[] = [];
+  for (const match of raw.matchAll(new RegExp(ALPHAFOLD_ID.source, 'gi'))) found.push({ id: match[0].toUpperCase(), index: match.index! });
+  const rest = text.replace(new RegExp(ALPHAFOLD_ID.source, 'gi'), match => ' '.repeat(match.length));
+  for (const match of rest.matchAll(PDB_ID)) {
+    if (!UNIT_TOKEN.test(match[0]) && /[a-z]/.test(match[0])) found.push({ id: match[0].toUpperCase(), index: match.index! });
+  }
+  return found.sort((a, b) => a.index - b.index).map(({ id }) => id);
+};
+
+const isQuestion = (text: string) => /\?\s*$/.test(text) || /^(how|what|which|who|when|where|is|are|does|do|tell me)\b/.test(text);
+
+// Simple factual questions answered from the loaded structure's metadata
+const answerFromMetadata = (text: string, metadata: ActiveMetadata): string | null => {
+  const name = metadata.title && metadata.title !== 'Unknown Title' ? `"${metadata.title}"` : 'The loaded structure';
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  if (/\b(chains?|subunits?|monomers?|oligomer)\b/.test(text)) return `${name} has ${plural(metadata.chainCount, 'chain')}.`;
+  if (/\batoms?\b/.test(text)) return `${name} has ${plural(metadata.atomCount, 'atom')}.`;
+  if (/\b(residues?|amino acids?|length)\b/.test(text)) return `${name} has ${plural(metadata.residueCount, 'polymer residue')}.`;
+  if (/\b(ligands?|bound|cofactors?|hetero)\b/.test(text)) {
+    return metadata.ligandCount > 0
+      ? `${name} has ${plural(metadata.ligandCount, 'ligand')}: ${metadata.ligandNames.join(', ')}.`
+      : `${name} has no ligands.`;
+  }
+  if (/\bwaters?\b/.test(text)) return `${name} has ${plural(metadata.waterCount, 'crystallographic water')}.`;
+  if (/\bmodels?\b/.test(text)) return `${name} has ${plural(metadata.modelCount, 'model')}.`;
+  if (/\bresolution\b/.test(text)) return `The resolution of ${name} is ${metadata.resolution}.`;
+  if (/\b(method|solved|determined|experiment\w*)\b/.test(text)) return `${name} was determined by ${metadata.method}.`;
+  if (/\b(released?|published|year|date)\b/.test(text) && metadata.releaseDate) return `${name} was released in ${metadata.releaseDate}.`;
+  if (/\b(title|name|called|what is (this|it|loaded))\b/.test(text)) return `The loaded structure is ${name}${metadata.keywords && metadata.keywords !== 'N/A' ? ` (${metadata.keywords})` : ''}.`;
+  return null;
+};
+
+// Ordered: the first rule that matches wins
+const RULES: Rule[] = [
+  (_text, raw) => {
+    const found = findSequence(raw);
+    if (!found) return null;
+    return {
+      type: CommandType.PROCESS_SEQUENCE,
+      params: { sequence: found.sequence, ...(found.name ? { name: found.name } : {}) },
+      explanation: `Predicting the structure of the ${found.sequence.length}-residue sequence.`,
+      consumed: found.consumed
+    };
+  },
+
+  // "Compare with X, Y": the structures to superpose onto the loaded one. Naming the reference as well
+  // ("compare X with Y") is rewritten by parsePlan into loading X first.
+  (text, raw) => {
+    if (/\bstop comparing\b|\b(exit|leave|stop|end|clear|close|quit)\b.*\b(compare|comparison)\b/.test(text)) {
+      return { type: CommandType.COMPARE_STRUCTURES, params: { clear: true }, explanation: 'Leaving compare mode.' };
+    }
+    if (!new RegExp(`\\b(${COMPARE_VERB})\\b`).test(text)) return null;
+    const pdbIds = findStructureIds(text, raw);
+    if (pdbIds.length === 0) return null;
+    const source = SOURCES.find(([pattern]) => pattern.test(text))?.[1];
+    return {
+      type: CommandType.COMPARE_STRUCTURES,
+      params: { pdbIds, ...(source ? { source } : {}) },
+      explanation: `Superposing ${pdbIds.join(', ')} onto the loaded structure.`,
+      consumed: pdbIds.map(id => id.toLowerCase())
+    };
+  },
+
+  // Movies and images come before loading: "1920 px" reads like a PDB ID
+  text => {
+    if (!/\b(movie|video|animation|animated|gif|webm|clip)\b/.test(text) || !/\b(save|export|make|record|create|render|download|capture|get)\b/.test(text)) return null;
+    const consumed: string[] = [];
+    const fps = text.match(/(\d+)\s*(?:fps|frames? (?:per|a) second)\b/);
+    if (fps) consumed.push(fps[0]);
+    const seconds = text.match(/(\d+(?:\.\d+)?)\s*(?:-\s*)?(?:s|secs?|seconds?)\b/);
+    if (seconds) consumed.push(seconds[0]);
+    const format = /\bgif\b/.test(text) ? 'gif' : /\b(webm|video)\b/.test(text) ? 'webm' : undefined;
+    const motion = /\b(spin\w*|rotat\w*|turntable|full turn|360)\b/.test(text) ? 'spin'
+      : /\b(trajectory|simulation|run|md|playback|playing|frames)\b/.test(text.replace(fps?.[0] ?? '', '')) ? 'trajectory' : undefined;
+    if (/\b360\b/.test(text)) consumed.push('360');
+    const params = {
+      ...(format ? { format } : {}), ...(motion ? { motion } : {}),
+      ...(fps ? { fps: Number(fps[1]) } : {}), ...(seconds ? { duration: Number(seconds[1]) } : {})
+    };
+    return {
+      type: CommandType.EXPORT_MOVIE,
+      params,
+      explanation: `Recording a ${format === 'gif' ? 'GIF' : 'WebM'} movie${motion === 'spin' ? ' of the structure spinning' : motion === 'trajectory' ? ' of the trajectory' : ''}.`,
+      consumed
+    };
+  },
+
+  text => {
+    if (!/\b(png|image|picture|screenshot|snapshot|figure)\b/.test(text) || !/\b(save|export|take|download|make|render|capture|grab|create|get)\b/.test(text)) return null;
+    const consumed: string[] = [];
+    let rest = text;
+    const supersampling = rest.match(/(\d+)\s*(?:x|×)\s*(?:super-?sampl\w*|anti-?alias\w*)/);
+    if (supersampling) {
+      consumed.push(supersampling[0]);
+      rest = rest.replace(supersampling[0], ' ');
+    }
+    const width = rest.match(/(\d+)\s*(?:px|pixels?)(?:\s+wide)?\b/);
+    const scale = rest.match(/(\d+(?:\.\d+)?)\s*(?:x|×|times)(?=\s|$)/);
+    if (width) consumed.push(width[0]);
+    else if (scale) consumed.push(scale[0]);
+    const highResolution = /\b(high[- ]?res\w*|publication|print)\b/.test(text);
+    const transparent = /\btransparent\b/.test(text);
+    const params = {
+      ...(width ? { width: Number(width[1]) } : scale ? { scale: Number(scale[1]) } : highResolution ? { scale: 4 } : {}),
+      ...(supersampling ? { supersampling: Number(supersampling[1]) } : {}),
+      ...(transparent ? { transparent } : {})
+    };
+    return {
+      type: CommandType.EXPORT_IMAGE,
+      params,
+      explanation: `Saving the view as a PNG image${transparent ? ' with a transparent background' : ''}.`,
+      consumed
+    };
+  },
+
+  // A structure ID comes first: everything else in the message needs it loaded
+  (text, raw) => {
+    const id = findStructureId(text, raw);
+    if (!id) return null;
+    const source = SOURCES.find(([pattern]) => pattern.test(text))?.[1];
+    return {
+      type: CommandType.LOAD_PDB,
+      params: { pdbId: id, ...(source ? { source } : {}) },
+      explanation: `Loading ${id}${source ? ` from ${STRUCTURE_SOURCES[source].label}` : ''}.`,
+      consumed: [id.toLowerCase()]
+    };
+  },
+
+  (text, raw) => {
+    if (/\b(clear|remove|delete)\b.*\bmeasurements?\b/.test(text)) {
+      return { type: CommandType.MEASURE, params: { clear: true }, explanation: 'Removing all measurements.' };
+    }
+    const match = raw.match(/\b(distance|angle|dihedral|torsion)(?: angle)?\s+(?:between|of|for|from|formed by)\s+(.+?)[.?!]?\s*$/i);
+    if (!match) return null;
+    const kind: MeasurementKind = match[1].toLowerCase() === 'torsion' ? 'dihedral' : match[1].toLowerCase() as MeasurementKind;
+    const atoms = match[2].split(/\s*(?:,|\band\b|\bto\b)\s*/i).filter(Boolean);
+    // Anything that is not a list of the right number of atoms is left to the model
+    if (atoms.length !== ATOM_COUNTS[kind]) return null;
+    try {
+      atoms.forEach(parseAtomSpec);
+    } catch {
+      return null;
+    }
+    return {
+      type: CommandType.MEASURE,
+      params: { atoms },
+      explanation: `Measuring the ${kind} between ${atoms.join(', ')}.`,
+      consumed: atoms.map(atom => atom.toLowerCase().replace(/\s+/g, ' '))
+    };
+  },
+
+  text => {
+    if (!/\b(spin\w*|rotat\w*|turntable)\b/.test(text)) return null;
+    const active = /\b(stop|off|disable|no|don't|freeze|halt|pause)\b/.test(text)
+      ? false
+      : /\b(start|on|enable|begin|keep)\b/.test(text) ? true : undefined;
+    return {
+      type: CommandType.TOGGLE_SPIN,
+      params: active === undefined ? {} : { active },
+      explanation: active === undefined ? 'Toggling the rotation.' : active ? 'Starting the rotation.' : 'Stopping the rotation.'
+    };
+  },
+
+  text => {
+    const expanded = expandThousands(text);
+    if (!/\b(extend\w*|longer|additional|another|more)\b/.test(expanded)) return null;
+    const duration = readDuration(expanded);
+    const steps = toNumber(first(expanded, /(\d+)\s*(?:more |additional |extra )?steps?\b/));
+    if (duration === undefined && steps === undefined) return null;
+    return {
+      type: CommandType.EXTEND_SIMULATION,
+      params: steps !== undefined ? { steps } : { duration },
+      explanation: `Extending production by ${steps !== undefined ? `${steps} steps` : `${duration} ps`}.`
+    };
+  },
+
+  text => /\b(pause|suspend)\b|\bhold on\b/.test(text)
+    ? { type: CommandType.PAUSE_SIMULATION, explanation: 'Pausing the simulation.' }
+    : null,
+
+  text => /\b(resume|unpause|continue)\b/.test(text)
+    ? { type: CommandType.RESUME_SIMULATION, explanation: 'Resuming the simulation from its last state.' }
+    : null,
+
+  text => /\b(stop|cancel|abort|halt|terminate)\b/.test(text) && !/\b(color|colour|show|load)\b/.test(text)
+    ? { type: CommandType.STOP_SIMULATION, explanation: 'Stopping the simulation.' }
+    : null,
+
+  text => {
+    const expanded = expandThousands(text);
+    const protocol = readProtocol(expanded);
+    const triggered = /\b(simulate|equilibrate)\b/.test(expanded)
+      || /\b(run|start|launch|perform|do|begin|kick off)\b.*\b(simulations?|md|dynamics|minimi[sz]ation|equilibration)\b/.test(expanded)
+      || /\bcheck (the |its )?stability\b/.test(expanded)
+      || (/\brun\b/.test(expanded) && Object.keys(protocol).length > 0);
+    if (!triggered) return null;
+    const settings = describeOverrides(protocol);
+    return {
+      type: CommandType.RUN_SIMULATION,
+      params: Object.keys(protocol).length > 0 ? { protocol } : {},
+      explanation: settings.length > 0
+        ? `Starting an MD simulation with ${settings.join(', ')}; other settings come from the saved protocol.`
+        : 'Starting an MD simulation with the saved protocol.'
+    };
+  },
+
+  // Layers over the base representation: "add a transparent surface over the pocket", "hide layer 2"
+  (text, raw) => {
+    const named = /\blayers?\b/.test(text);
+    if (!named && !/^(?:\w+\s+)*?add\b/.test(text)) return null;
+    if (/\b(clear|remove|delete)\b.*\b(all|the)\s+layers\b|\bclear layers\b|\bno layers\b/.test(text)) {
+      return { type: CommandType.EDIT_LAYERS, params: { action: 'clear' }, explanation: 'Removing all layers.' };
+    }
+    const numbered = text.match(/\blayer\s+(?:number\s+)?(\d+)\b/);
+    const layer = numbered ? Number(numbered[1]) : undefined;
+    const consumed = numbered ? [numbered[0]] : [];
+    const colorText = text.match(/\bcolou?r\w*\b.*$/)?.[0] ?? '';
+    const styleText = text.slice(0, text.length - colorText.length);
+    const style = REPRESENTATIONS.find(([pattern]) => pattern.test(styleText))?.[1];
+    const color = COLOR_SCHEMES.find(([pattern]) => pattern.test(colorText))?.[1];
+    const opacity = readOpacity(text);
+    if (opacity) consumed.push(...opacity.consumed);
+    const label = layer !== undefined ? `layer ${layer}` : 'the newest layer';
+
+    if (/\bmove\b/.test(text)) {
+      const to = text.match(/\bto (?:position |number )?(\d+)\b/);
+      const position = /\b(top|front)\b/.test(text) ? MAX_LAYERS
+        : /\b(bottom|back)\b/.test(text) ? 1
+        : to ? Number(to[1])
+        : layer !== undefined && /\bup\b/.test(text) ? layer + 1
+        : layer !== undefined && /\bdown\b/.test(text) ? Math.max(layer - 1, 1)
+        : undefined;
+      if (position === undefined) return null;
+      if (to) consumed.push(to[0]);
+      return {
+        type: CommandType.EDIT_LAYERS,
+        params: { action: 'move', position, ...(layer !== undefined ? { layer } : {}) },
+        explanation: `Moving ${label} ${position === MAX_LAYERS ? 'to the top' : position === 1 ? 'to the bottom' : `to position ${position}`}.`,
+        consumed
+      };
+    }
+    if (named && /\b(remove|delete)\b/.test(text)) {
+      return { type: CommandType.EDIT_LAYERS, params: { action: 'remove', ...(layer !== undefined ? { layer } : {}) }, explanation: `Removing ${label}.`, consumed };
+    }
+    if (named && !style && !color && !opacity && /\b(hide|turn off|show|unhide|turn on)\b/.test(text)) {
+      const action = /\b(hide|turn off)\b/.test(text) ? 'hide' : 'show';
+      return { type: CommandType.EDIT_LAYERS, params: { action, ...(layer !== undefined ? { layer } : {}) }, explanation: `${action === 'hide' ? 'Hiding' : 'Showing'} ${label}.`, consumed };
+    }
+    if (!/\badd\b/.test(text)) {
+      if (layer === undefined || (!style && !color && !opacity)) return null;
+      return {
+        type: CommandType.EDIT_LAYERS,
+        params: { action: 'update', layer, ...(style ? { style } : {}), ...(color ? { color } : {}), ...(opacity ? { opacity: opacity.opacity } : {}) },
+        explanation: `Updating layer ${layer}.`,
+        consumed
+      };
+    }
+    if (!style) return null;
+
+    // The atoms: a selection phrase, a class of atoms, or a saved selection by name
+    let selection: string | undefined;
+    const found = readSelection(styleText, raw);
+    if (found) {
+      selection = found.expression;
+      consumed.push(...found.consumed);
+    } else {
+      const target = styleText.match(/\b(?:over|on|for|of|around|covering|to)\s+(?:the\s+|all\s+the\s+)?([a-z_][\w-]*)/)?.[1];
+      const keyword = target && SELECTION_KEYWORDS.find(([pattern]) => pattern.test(target))?.[1];
+      if (keyword) selection = keyword;
+      else if (target && isSelectionName(target) && !FILLER.has(target) && !VOCABULARY[CommandType.EDIT_LAYERS]?.has(target)) {
+        selection = target;
+        consumed.push(target);
+      }
+    }
+    return {
+      type: CommandType.EDIT_LAYERS,
+      params: { action: 'add', style, ...(selection ? { selection } : {}), ...(color ? { color } : {}), ...(opacity ? { opacity: opacity.opacity } : {}) },
+      explanation: `Adding a ${style} layer over ${selection ?? 'all atoms'}.`,
+      consumed
+    };
+  },
+
+  (text, raw) => {
+    if (/\b(clear|remove|hide|turn off)\b.*\bhighlight\w*|\bunhighlight\b/.test(text)) {
+      return { type: CommandType.SELECT_ATOMS, params: { clear: true }, explanation: 'Clearing the highlight.' };
+    }
+    if (!/\b(highlight\w*|select|mark|pick out|show|display|draw|render)\b/.test(text) || /\b(rmsd|plots?|graphs?|analy[sz]\w*|distance|angle|dihedral|torsion)\b/.test(text)) return null;
+    const found = readSelection(text, raw);
+    if (!found) return null;
+    const style = REPRESENTATIONS.find(([pattern]) => pattern.test(text))?.[1];
+    const saveAs = text.match(/\b(?:save (?:it |this |that |them )?as|call (?:it|this|that|them)|name (?:it|this|that|them))\s+"?([a-z_][\w-]*)"?/);
+    return {
+      type: CommandType.SELECT_ATOMS,
+      params: { selection: found.expression, ...(saveAs ? { name: saveAs[1] } : {}), ...(style ? { style } : {}) },
+      explanation: `Highlighting ${found.expression}${style ? ` as ${style}` : ''}${saveAs ? ` and saving it as "${saveAs[1]}"` : ''}.`,
+      consumed: [...found.consumed, ...(saveAs ? [saveAs[1]] : [])]
+    };
+  },
+
+  text => {
+    // "CPK" next to a color word names the element scheme, not the space-filling style
+    const styleText = text.replace(/\bcpk colou?r\w*|\bcolou?r\w* (?:by |with )?cpk\b/g, '');
+    const style = REPRESENTATIONS.find(([pattern]) => pattern.test(styleText))?.[1];
+    return style ? { type: CommandType.SET_REPRESENTATION, params: { style }, explanation: `Switching to the ${style} representation.` } : null;
+  },
+
+  text => {
+    if (!/\b(colou?r(ed|ing|s)?|rainbow)\b/.test(text)) return null;
+    const scheme = COLOR_SCHEMES.find(([pattern]) => pattern.test(text));
+    return scheme ? { type: CommandType.SET_COLOR_SCHEME, params: { color: scheme[1] }, explanation: `Coloring by ${scheme[2]}.` } : null;
+  },
+
+  text => /\b(evaluat\w*|validat\w*|accuracy|fairness|robustness|interpretab\w*|trust\w*)\b/.test(text)
+    ? { type: CommandType.EVALUATE_MODEL, explanation: 'Running the model evaluation: accuracy, fairness, robustness and interpretability.' }
+    : null,
+
+  text => {
+    if (!/\b(analy[sz]e|analysis|graphs?|plots?|charts?|rmsd|results|energ(y|ies))\b/.test(text)) return null;
+    // "RMSD of pocket": a saved selection to fit on, checked against the project's selections when it runs
+    const name = first(text, /\brmsd (?:of|for|on) (?:the )?([a-z_][\w-]*)/);
+    const selection = name && isSelectionName(name) && !FILLER.has(name) && !VOCABULARY[CommandType.ANALYZE_DATA]?.has(name) ? name : undefined;
+    return selection
+      ? { type: CommandType.ANALYZE_DATA, params: { selection }, explanation: `Opening the trajectory analysis with the RMSD fitted on "${selection}".`, consumed: [selection] }
+      : { type: CommandType.ANALYZE_DATA, explanation: 'Opening the trajectory analysis.' };
+  },
+
+  text => /\b(alphafold|predict\w*|fold)\b/.test(text)
+    ? { type: CommandType.PROCESS_SEQUENCE, explanation: 'Starting a structure prediction.' }
+    : null,
+
+  (text, _raw, metadata) => {
+    if (!metadata || !isQuestion(text)) return null;
+    const answer = answerFromMetadata(text, metadata);
+    return answer ? { type: CommandType.QUERY_STRUCTURE, explanation: answer } : null;
+  }
+];
+
+const isComplete = (match: RuleMatch, text: string) => {
+  if (match.type === CommandType.QUERY_STRUCTURE) return true;
+  let rest = expandThousands(text);
+  (match.consumed ?? []).forEach(part => { rest = rest.split(part).join(' '); });
+  const vocabulary = VOCABULARY[match.type] ?? new Set<string>();
+  return rest
+    .replace(/(\d)(?=[a-zå°])/g, '$1 ') // 310k -> 310 k
+    .split(/[\s,;:!?()"]+|\.(?!\d)/)
+    .filter(Boolean)
+    .every(word => FILLER.has(word) || vocabulary.has(word) || (NUMERIC.has(match.type) && /^-?\d+(\.\d+)?$/.test(word)));
+};
+
+/**
+ * Parses `text` with the offline grammar. Returns null when no command is recognised;
+ * `metadata` lets simple questions about the loaded structure be answered.
+ */
+export const parseCommand = (text: string, metadata?: ActiveMetadata): LocalParse | null => {
+  const raw = text.trim();
+  const normalized = raw.toLowerCase().replace(/[’‘]/g, "'").replace(/[ \t]+/g, ' ');
+  for (const rule of RULES) {
+    const match = rule(normalized, raw, metadata);
+    if (!match) continue;
+    // Values the grammar reads can still be out of range ("simulate at 5000 K"); say so instead of guessing
+    try {
+      return { command: validateCommand(match.type, match.params, match.explanation), complete: isComplete(match, normalized) };
+    } catch (error) {
+      return {
+        command: { type: CommandType.UNKNOWN, params: {}, explanation: `I can't do that as asked. ${error instanceof Error ? error.message : ''}`.trim() },
+        complete: isComplete(match, normalized)
+      };
+    }
+  }
+  return null;
+};
+
+// "compare 4HHB, 1A3N and 2DN2" names one list, and its first structure is the reference:
+// "load 4HHB, then compare with 1A3N vs 2DN2". With "onto" the reference comes last.
+const rewriteComparison = (text: string) => {
+  if (!new RegExp(`\\b(${COMPARE_VERB})\\b`, 'i').test(text)) return text;
+  return text
+    .replace(new RegExp(`(${STRUCTURE_ID})\\s*(?:,\\s*(?:and\\s+)?|\\s+and\\s+)(?=${STRUCTURE_ID})`, 'gi'), '$1 vs ')
+    .replace(new RegExp(`\\b(${COMPARE_VERB})\\s+(${STRUCTURE_ID}(?:\\s+vs\\s+${STRUCTURE_ID})*)\\s+onto\\s+(${STRUCTURE_ID})`, 'gi'), 'load $3, then $1 $2')
+    .replace(new RegExp(`\\b(${COMPARE_VERB})\\s+(${STRUCTURE_ID})\\s+(?:with|to|against|vs\\.?|versus)\\s+`, 'gi'), 'load $2, then $1 with ');
+};
+
+// Clause separators, kept so that fragments can be joined back: "then", ";", sentence ends, commas and "and"
+const CLAUSE_BREAK = /(\s*(?:,?\s*(?:and\s+)?then\b|;|\.\s+|,\s*(?:and\b)?|\s+and\b)\s*)/i;
+
+/**
+ * Splits a message into clauses and parses each as one step, e.g. "load 4HHB, show it as surface
+ * colored by hydrophobicity, then run a simulation" gives four steps. Fragments that are no command
+ * on their own ("seed 42") stay with the clause before them. Returns null when nothing is recognised.
+ */
+export const parsePlan = (text: string, metadata?: ActiveMetadata): LocalPlan | null => {
+  const raw = text.trim();
+  if (raw.startsWith('>')) {
+    const single = parseCommand(raw, metadata); // FASTA input is a single sequence
+    return single ? { steps: [single.command], complete: single.complete } : null;
+  }
+
+  const prepared = rewriteComparison(raw)
+    .replace(/(\d),(?=\d{3}\b)/g, '$1') // 10,000 steps
+    .replace(/\b(balls?) and (sticks?)\b/gi, '$1-and-$2')
+    // "surface colored by ..." is a second step, except within a layer, which has its own colors
+    .replace(/([^\s,;])\s+(?=colou?r(?:ed|ing)?\s+(?:it\s+|them\s+)?by\b)/gi, (match, last: string, offset: number, whole: string) =>
+      /\b(add|layers?)\b/i.test(whole.slice(0, offset).split(/[,;]|\bthen\b/i).pop() ?? '') ? match : `${last}, `);
+  const parts = prepared.split(CLAUSE_BREAK);
+
+  const clauses: string[] = [];
+  let current = parts[0];
+  for (let i = 1; i < parts.length; i += 2) {
+    const next = parts[i + 1];
+    const joined = current + parts[i] + next;
+    if (!parseCommand(current, metadata) || !parseCommand(next, metadata)) current = joined;
+    else {
+      clauses.push(current);
+      current = next;
+    }
+  }
+  clauses.push(current);
+
+  const parsed = clauses.map(clause => parseCommand(clause, metadata));
+  const steps: Command[] = [];
+  parsed.forEach(result => {
+    if (!result) return;
+    const previous = steps[steps.length - 1];
+    const repeated = previous && JSON.stringify(previous) === JSON.stringify(result.command);
+    if (!repeated) steps.push(result.command);
+  });
+  if (steps.length === 0) return null;
+  // A step with invalid values rejects the whole plan, as it does for the model's plans
+  const rejected = steps.find(step => step.type === CommandType.UNKNOWN);
+  return { steps: rejected ? [rejected] : steps, complete: parsed.every(result => result?.complete) };
+};
@@ -0,0 +1,403 @@
+import { ColorScheme, Command, CommandParams, CommandType, LayerAction, MovieFormat, MovieMotion, ProtocolRequest, Representation, StructureSourceId } from "../types";
+import { JsonSchema, LLMTool } from "./llmProviders";
+import { resolveProtocol } from "./simulationProtocol";
+import { isStructureId, STRUCTURE_SOURCES } from "./structureSources";
+import { isSelectionName, parseSelection, SELECTION_SYNTAX } from "./atomSelection";
+import { parseAtomSpec } from "./measurements";
+import { MAX_IMAGE_SCALE, MAX_IMAGE_SIZE, MAX_MOVIE_FPS, MAX_MOVIE_SECONDS, SUPERSAMPLING_LEVELS } from "./mediaExport";
+
+// Every command as a tool with its own parameter schema, and the runtime check that turns a tool call
+// (from the model or the offline grammar) into a typed Command
+
+export const REPRESENTATIONS: Representation[] = ['cartoon', 'licorice', 'spacefill', 'surface', 'ribbon'];
+export const COLOR_SCHEMES: ColorScheme[] = ['residueindex', 'chainid', 'element', 'hydrophobicity'];
+
+const LAYER_ACTIONS: LayerAction[] = ['add', 'update', 'remove', 'show', 'hide', 'move', 'clear'];
+const MOVIE_FORMATS: MovieFormat[] = ['webm', 'gif'];
+const MOVIE_MOTIONS: MovieMotion[] = ['spin', 'trajectory'];
+const ENSEMBLES = ['NVE', 'NVT', 'NPT'];
+const THERMOSTATS = ['berendsen', 'langevin'];
+const BAROSTATS = ['berendsen', 'montecarlo'];
+
+const AMINO_ACIDS = /^[ACDEFGHIKLMNPQRSTVWYBXZUO]+$/;
+const MAX_SEQUENCE_LENGTH = 5000;
+
+const EXPLANATION: JsonSchema = {
+  type: 'string',
+  description: "A short scientific explanation of the action, shown to the user.",
+};
+
+const object = (properties: Record<string, JsonSchema> = {}, required: string[] = []): JsonSchema => ({
+  type: 'object',
+  properties: { ...properties, explanation: EXPLANATION },
+  required: [...required, 'explanation'],
+});
+
+const PROTOCOL_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: "Only the settings the user states; leave the rest out.",
+  properties: {
+    ensemble: { type: 'string', enum: ENSEMBLES },
+    temperature: { type: 'number', description: "Kelvin" },
+    pressure: { type: 'number', description: "bar, NPT only" },
+    timestep: { type: 'number', description: "ps (2 fs = 0.002)" },
+    duration: { type: 'number', description: "Production length in ps (5 ns = 5000)" },
+    minimizationSteps: { type: 'integer' },
+    equilibrationSteps: { type: 'integer' },
+    productionSteps: { type: 'integer' },
+    thermostat: { type: 'string', enum: THERMOSTATS },
+    barostat: { type: 'string', enum: BAROSTATS },
+    cutoff: { type: 'number', description: "Non-bonded cutoff in Å" },
+    seed: { type: 'integer' },
+  },
+};
+
+export const COMMAND_TOOLS: Record<CommandType, LLMTool> = {
+  [CommandType.LOAD_PDB]: {
+    name: CommandType.LOAD_PDB,
+    description: "Load a structure by PDB ID (e.g. '1AXC'), AlphaFold DB ID ('AF-P69905-F1') or UniProt accession.",
+    parameters: object({
+      pdbId: { type: 'string', description: "The identifier exactly as given" },
+      source: {
+        type: 'string',
+        enum: Object.keys(STRUCTURE_SOURCES),
+        description: "Only when the user names a database or the ID implies it: rcsb, pdbe, alphafold (AlphaFold/UniProt IDs), mirror (local mirror), custom (configured URL)",
+      },
+    }, ['pdbId']),
+  },
+  [CommandType.SET_REPRESENTATION]: {
+    name: CommandType.SET_REPRESENTATION,
+    description: "Change the visual style. Ball-and-stick and sticks are 'licorice'; CPK spheres are 'spacefill'.",
+    parameters: object({ style: { type: 'string', enum: REPRESENTATIONS } }, ['style']),
+  },
+  [CommandType.SET_COLOR_SCHEME]: {
+    name: CommandType.SET_COLOR_SCHEME,
+    description: "Change the coloring: rainbow along the sequence is 'residueindex', per chain 'chainid', CPK/by atom 'element'.",
+    parameters: object({ color: { type: 'string', enum: COLOR_SCHEMES } }, ['color']),
+  },
+  [CommandType.TOGGLE_SPIN]: {
+    name: CommandType.TOGGLE_SPIN,
+    description: "Start or stop rotating the view. Leave 'active' out to toggle.",
+    parameters: object({ active: { type: 'boolean' } }),
+  },
+  [CommandType.RUN_SIMULATION]: {
+    name: CommandType.RUN_SIMULATION,
+    description: "Run an MD simulation (\"simulate\", \"run MD\", \"check stability\"). Unstated settings come from the project's protocol.",
+    parameters: object({ protocol: PROTOCOL_SCHEMA }),
+  },
+  [CommandType.ANALYZE_DATA]: {
+    name: CommandType.ANALYZE_DATA,
+    description: "Show the trajectory analysis (RMSD, energy, temperature graphs) and summarize the run.",
+    parameters: object({
+      selection: { type: 'string', description: "Name of a saved selection to fit the RMSD on, only if the user asks for one" },
+    }),
+  },
+  [CommandType.PROCESS_SEQUENCE]: {
+    name: CommandType.PROCESS_SEQUENCE,
+    description: "Predict a structure from an amino-acid sequence (\"AlphaFold\", \"fold this sequence\", or a pasted sequence).",
+    parameters: object({
+      sequence: { type: 'string', description: "One-letter amino-acid codes" },
+      name: { type: 'string', description: "Name for the prediction, if the user gives one" },
+    }),
+  },
+  [CommandType.EVALUATE_MODEL]: {
+    name: CommandType.EVALUATE_MODEL,
+    description: "Evaluate the prediction model: accuracy, validation, fairness, robustness, interpretability, trust.",
+    parameters: object(),
+  },
+  [CommandType.QUERY_STRUCTURE]: {
+    name: CommandType.QUERY_STRUCTURE,
+    description: "Answer a question about the loaded structure (\"How many subunits?\", \"What is the resolution?\"). Put the answer in 'explanation'.",
+    parameters: object(),
+  },
+  [CommandType.PAUSE_SIMULATION]: {
+    name: CommandType.PAUSE_SIMULATION,
+    description: "Pause the running simulation (\"pause the run\", \"hold on\").",
+    parameters: object(),
+  },
+  [CommandType.RESUME_SIMULATION]: {
+    name: CommandType.RESUME_SIMULATION,
+    description: "Resume a paused run, or continue a stopped or interrupted one from its last checkpoint.",
+    parameters: object(),
+  },
+  [CommandType.STOP_SIMULATION]: {
+    name: CommandType.STOP_SIMULATION,
+    description: "Stop the running simulation early (\"stop\", \"cancel the run\", \"abort MD\").",
+    parameters: object(),
+  },
+  [CommandType.EXTEND_SIMULATION]: {
+    name: CommandType.EXTEND_SIMULATION,
+    description: "Add production time to the current or last run (\"extend production by 1 ns\", \"run 500 ps longer\"). Give either duration or steps.",
+    parameters: object({
+      duration: { type: 'number', description: "Extra production in ps (1 ns = 1000)" },
+      steps: { type: 'integer', description: "Extra production steps, if the user gives a step count" },
+    }),
+  },
+  [CommandType.SELECT_ATOMS]: {
+    name: CommandType.SELECT_ATOMS,
+    description: "Highlight part of the structure on top of the current view (\"highlight residues 40-50 on chain A\", \"show lysines within 5 Å of the ligand as sticks\"), optionally saving it under a name for later requests and analyses.",
+    parameters: object({
+      selection: { type: 'string', description: `Selection expression. ${SELECTION_SYNTAX} Example: resname LYS and byres within 5 of ligand` },
+      name: { type: 'string', description: "Save the selection under this one-word name, only if the user names it" },
+      style: { type: 'string', enum: REPRESENTATIONS, description: "How to draw the highlighted atoms; defaults to licorice (sticks)" },
+      clear: { type: 'boolean', description: "True to remove the current highlight instead" },
+    }),
+  },
+  [CommandType.MEASURE]: {
+    name: CommandType.MEASURE,
+    description: "Measure a distance (2 atoms), angle (3) or dihedral (4) in the loaded structure (\"distance between CA of K48 and G76\"). It is drawn in the viewer and tracked over the trajectory.",
+    parameters: object({
+      atoms: {
+        type: 'array',
+        items: { type: 'string' },
+        description: "2 to 4 atoms in order, each as [chain:]residue number[.atom], e.g. A:K48.CA, LYS48.NZ or G76 (atom defaults to CA)",
+      },
+      clear: { type: 'boolean', description: "True to remove all measurements instead" },
+    }),
+  },
+  [CommandType.COMPARE_STRUCTURES]: {
+    name: CommandType.COMPARE_STRUCTURES,
+    description: "Compare other structures with the loaded one (e.g. an AlphaFold model against the crystal structure): each is aligned by sequence, superposed and colored by per-residue deviation, with RMSD and TM-score reported. To compare two entries when neither is loaded, load the first one before this.",
+    parameters: object({
+      pdbIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: "Identifiers of the structures to superpose onto the loaded one, exactly as given",
+      },
+      source: {
+        type: 'string',
+        enum: Object.keys(STRUCTURE_SOURCES),
+        description: "Only when the user names a database for them",
+      },
+      clear: { type: 'boolean', description: "True to leave compare mode and remove the compared structures instead" },
+    }),
+  },
+  [CommandType.EDIT_LAYERS]: {
+    name: CommandType.EDIT_LAYERS,
+    description: "Edit the layers drawn over the main representation, for scenes like a cartoon protein with a ball-and-stick ligand and a transparent surface over the pocket (\"add a transparent surface over the pocket\", \"hide layer 2\", \"move layer 1 to the top\"). Layers are numbered from 1, bottom first; later layers are drawn on top.",
+    parameters: object({
+      action: { type: 'string', enum: LAYER_ACTIONS, description: "add a layer, update/remove/show/hide/move one, or clear all layers" },
+      layer: { type: 'integer', description: "Number of the layer to change; defaults to the newest" },
+      style: { type: 'string', enum: REPRESENTATIONS, description: "Representation of the layer; licorice for sticks or ball-and-stick. Required for add" },
+      selection: { type: 'string', description: `Atoms the layer draws; defaults to all. ${SELECTION_SYNTAX}` },
+      color: { type: 'string', enum: COLOR_SCHEMES, description: "Color scheme of the layer; defaults to the current one" },
+      opacity: { type: 'number', description: "0 (invisible) to 1 (opaque); transparent is about 0.4. Surfaces default to 0.5" },
+      position: { type: 'integer', description: "For move: the layer's new number, 1 for the bottom" },
+    }, ['action']),
+  },
+  [CommandType.EXPORT_IMAGE]: {
+    name: CommandType.EXPORT_IMAGE,
+    description: "Save the 3D view as a PNG image for slides or papers (\"save a 4x image with a transparent background\"). Give width or scale, not both; without either the image is twice the view size.",
+    parameters: object({
+      width: { type: 'integer', description: `Image width in pixels, up to ${MAX_IMAGE_SIZE}; the height follows the view's aspect ratio` },
+      scale: { type: 'number', description: `Size as a multiple of the view, up to ${MAX_IMAGE_SCALE}` },
+      supersampling: { type: 'integer', description: `One of ${SUPERSAMPLING_LEVELS.join(', ')}: render this many times larger and scale down, for smooth edges; defaults to 2` },
+      transparent: { type: 'boolean', description: "True for a transparent background" },
+    }),
+  },
+  [CommandType.EXPORT_MOVIE]: {
+    name: CommandType.EXPORT_MOVIE,
+    description: "Save a movie of the 3D view (\"save a movie of this\", \"make a 10 s GIF of it spinning\"): a full turn of the camera, or the trajectory playing.",
+    parameters: object({
+      format: { type: 'string', enum: MOVIE_FORMATS, description: "webm (default) or gif" },
+      motion: { type: 'string', enum: MOVIE_MOTIONS, description: "spin, or trajectory to play the simulation frames; defaults to the trajectory when there is one" },
+      fps: { type: 'integer', description: `Frames per second, up to ${MAX_MOVIE_FPS}` },
+      duration: { type: 'number', description: `Length in seconds, up to ${MAX_MOVIE_SECONDS}` },
+    }),
+  },
+  [CommandType.UNKNOWN]: {
+    name: CommandType.UNKNOWN,
+    description: "The request is unclear or not something this app can do. Say why in 'explanation'.",
+    parameters: object(),
+  },
+};
+
+const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+const pick = <T extends string>(value: unknown, options: readonly T[], label: string): T => {
+  const match = options.find(option => option.toLowerCase() === String(value).trim().toLowerCase());
+  if (!match) throw new Error(`${isSet(value) ? `"${value}" is not a ${label}` : `No ${label} was given`}. Use one of: ${options.join(', ')}.`);
+  return match;
+};
+
+const positive = (value: unknown, label: string, integer = false): number => {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0 || (integer && !Number.isInteger(number))) {
+    throw new Error(`${label} must be a positive ${integer ? 'whole number' : 'number'} (got ${value}).`);
+  }
+  return number;
+};
+
+const selectionName = (value: unknown): string => {
+  const name = String(value).trim();
+  if (!isSelectionName(name)) throw new Error(`"${name}" can't name a selection. Use one word that is not a selection keyword, e.g. pocket.`);
+  return name;
+};
+
+const PROTOCOL_FIELDS = Object.keys(PROTOCOL_SCHEMA.properties ?? {}) as (keyof ProtocolRequest)[];
+
+const validateProtocol = (value: unknown): ProtocolRequest | undefined => {
+  if (!isSet(value)) return undefined;
+  if (typeof value !== 'object') throw new Error('Simulation settings must be given as named values, e.g. temperature and duration.');
+  const raw = value as Record<string, unknown>;
+  const unknown = Object.keys(raw).filter(key => isSet(raw[key]) && !PROTOCOL_FIELDS.includes(key as keyof ProtocolRequest));
+  if (unknown.length > 0) throw new Error(`Unknown simulation setting${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}. Known settings: ${PROTOCOL_FIELDS.join(', ')}.`);
+
+  // Ranges and option names are checked the way a run checks them; duration depends on the run's timestep and is checked then
+  const { duration, ...settings } = raw;
+  const checked = resolveProtocol(settings);
+  const protocol: ProtocolRequest = {};
+  for (const field of PROTOCOL_FIELDS) {
+    if (field === 'duration' || !isSet(raw[field])) continue;
+    (protocol as Record<string, unknown>)[field] = checked[field as keyof typeof checked];
+  }
+  if (isSet(duration)) protocol.duration = positive(duration, 'Duration');
+  return protocol;
+};
+
+const VALIDATORS: { [T in CommandType]: (params: Record<string, unknown>) => CommandParams[T] } = {
+  [CommandType.LOAD_PDB]: params => {
+    const source = isSet(params.source) ? pick(params.source, Object.keys(STRUCTURE_SOURCES) as StructureSourceId[], 'structure source') : undefined;
+    if (!isSet(params.pdbId)) return source ? { source } : {};
+    const pdbId = String(params.pdbId).trim();
+    if (!isStructureId(pdbId, source)) {
+      throw new Error(`"${pdbId}" is not a valid ${source ? `${STRUCTURE_SOURCES[source].label} ` : ''}identifier. PDB IDs are four characters starting with a digit (e.g. 1UBQ); AlphaFold entries look like AF-P69905-F1.`);
+    }
+    return source ? { pdbId, source } : { pdbId };
+  },
+  [CommandType.SET_REPRESENTATION]: params => ({ style: pick(params.style, REPRESENTATIONS, 'representation') }),
+  [CommandType.SET_COLOR_SCHEME]: params => ({ color: pick(params.color, COLOR_SCHEMES, 'color scheme') }),
+  [CommandType.TOGGLE_SPIN]: params => {
+    if (!isSet(params.active)) return {};
+    if (typeof params.active !== 'boolean') throw new Error(`Spin must be switched on or off (got "${params.active}").`);
+    return { active: params.active };
+  },
+  [CommandType.RUN_SIMULATION]: params => {
+    const protocol = validateProtocol(params.protocol);
+    return protocol && Object.keys(protocol).length > 0 ? { protocol } : {};
+  },
+  [CommandType.ANALYZE_DATA]: params => isSet(params.selection) ? { selection: selectionName(params.selection) } : {},
+  [CommandType.PROCESS_SEQUENCE]: params => {
+    const name = isSet(params.name) ? String(params.name).trim() : undefined;
+    if (!isSet(params.sequence)) return name ? { name } : {};
+    const sequence = String(params.sequence).replace(/\s+/g, '').toUpperCase();
+    if (!AMINO_ACIDS.test(sequence)) {
+      const invalid = [...new Set(sequence.replace(/[ACDEFGHIKLMNPQRSTVWYBXZUO]/g, ''))].join('');
+      throw new Error(`The sequence contains characters that are not one-letter amino-acid codes: ${invalid}.`);
+    }
+    if (sequence.length > MAX_SEQUENCE_LENGTH) throw new Error(`The sequence has ${sequence.length} residues; the limit is ${MAX_SEQUENCE_LENGTH}.`);
+    return name ? { sequence, name } : { sequence };
+  },
+  [CommandType.EVALUATE_MODEL]: () => ({}),
+  [CommandType.QUERY_STRUCTURE]: () => ({}),
+  [CommandType.PAUSE_SIMULATION]: () => ({}),
+  [CommandType.RESUME_SIMULATION]: () => ({}),
+  [CommandType.STOP_SIMULATION]: () => ({}),
+  [CommandType.EXTEND_SIMULATION]: params => {
+    if (isSet(params.steps)) return { steps: positive(params.steps, 'Steps', true) };
+    if (isSet(params.duration)) return { duration: positive(params.duration, 'Duration') };
+    throw new Error('Say how much longer to run, e.g. "extend production by 1 ns".');
+  },
+  [CommandType.SELECT_ATOMS]: params => {
+    if (params.clear === true) return { clear: true };
+    if (!isSet(params.selection)) throw new Error('Say which atoms to select, e.g. "chain A and resid 40-50".');
+    const selection = String(params.selection).trim();
+    parseSelection(selection); // Saved names are looked up when the command runs
+    const style = isSet(params.style) ? pick(params.style, REPRESENTATIONS, 'representation') : undefined;
+    return { selection, ...(isSet(params.name) ? { name: selectionName(params.name) } : {}), ...(style ? { style } : {}) };
+  },
+  [CommandType.MEASURE]: params => {
+    if (params.clear === true) return { clear: true };
+    const atoms = Array.isArray(params.atoms) ? params.atoms.map(atom => String(atom).trim()).filter(Boolean) : [];
+    if (atoms.length < 2 || atoms.length > 4) {
+      throw new Error(`A measurement needs 2 atoms (distance), 3 (angle) or 4 (dihedral); got ${atoms.length}.`);
+    }
+    atoms.forEach(parseAtomSpec); // Whether the atoms exist is checked against the structure when the command runs
+    return { atoms };
+  },
+  [CommandType.COMPARE_STRUCTURES]: params => {
+    if (params.clear === true) return { clear: true };
+    const source = isSet(params.source) ? pick(params.source, Object.keys(STRUCTURE_SOURCES) as StructureSourceId[], 'structure source') : undefined;
+    const pdbIds = Array.isArray(params.pdbIds) ? params.pdbIds.map(id => String(id).trim()).filter(Boolean) : [];
+    if (pdbIds.length === 0) throw new Error('Name at least one structure to compare with the loaded one.');
+    const invalid = pdbIds.find(id => !isStructureId(id, source));
+    if (invalid) {
+      throw new Error(`"${invalid}" is not a valid ${source ? `${STRUCTURE_SOURCES[source].label} ` : ''}identifier. PDB IDs are four characters starting with a digit (e.g. 1UBQ); AlphaFold entries look like AF-P69905-F1.`);
+    }
+    return source ? { pdbIds, source } : { pdbIds };
+  },
+  [CommandType.EDIT_LAYERS]: params => {
+    const action = pick(params.action, LAYER_ACTIONS, 'layer action');
+    if (action === 'clear') return { action };
+    const edit: CommandParams[CommandType.EDIT_LAYERS] = { action };
+    if (isSet(params.layer)) edit.layer = positive(params.layer, 'Layer', true);
+    if (isSet(params.style)) edit.style = pick(params.style, REPRESENTATIONS, 'representation');
+    if (isSet(params.selection)) {
+      edit.selection = String(params.selection).trim();
+      parseSelection(edit.selection); // Saved names are looked up when the command runs
+    }
+    if (isSet(params.color)) edit.color = pick(params.color, COLOR_SCHEMES, 'color scheme');
+    if (isSet(params.opacity)) {
+      const opacity = Number(params.opacity);
+      if (!Number.isFinite(opacity) || opacity < 0 || opacity > 1) throw new Error(`Opacity must be between 0 and 1 (got ${params.opacity}).`);
+      edit.opacity = opacity;
+    }
+    if (isSet(params.position)) edit.position = positive(params.position, 'Position', true);
+    if (action === 'add' && !edit.style) throw new Error('Say how to draw the new layer, e.g. "add a surface over the ligand".');
+    if (action === 'move' && !edit.position) throw new Error('Say where to move the layer, e.g. "move layer 2 to the top".');
+    return edit;
+  },
+  [CommandType.EXPORT_IMAGE]: params => {
+    const image: CommandParams[CommandType.EXPORT_IMAGE] = {};
+    if (isSet(params.width)) {
+      image.width = positive(params.width, 'Width', true);
+      if (image.width > MAX_IMAGE_SIZE) throw new Error(`Images can be at most ${MAX_IMAGE_SIZE} pixels wide (got ${image.width}).`);
+    } else if (isSet(params.scale)) {
+      image.scale = positive(params.scale, 'Scale');
+      if (image.scale > MAX_IMAGE_SCALE) throw new Error(`Images can be at most ${MAX_IMAGE_SCALE} times the view size (got ${image.scale}).`);
+    }
+    if (isSet(params.supersampling)) {
+      const level = Number(params.supersampling);
+      if (!SUPERSAMPLING_LEVELS.includes(level)) throw new Error(`Supersampling must be one of ${SUPERSAMPLING_LEVELS.join(', ')} (got ${params.supersampling}).`);
+      image.supersampling = level;
+    }
+    if (params.transparent === true) image.transparent = true;
+    return image;
+  },
+  [CommandType.EXPORT_MOVIE]: params => {
+    const movie: CommandParams[CommandType.EXPORT_MOVIE] = {};
+    if (isSet(params.format)) movie.format = pick(params.format, MOVIE_FORMATS, 'movie format');
+    if (isSet(params.motion)) movie.motion = pick(params.motion, MOVIE_MOTIONS, 'movie motion');
+    if (isSet(params.fps)) {
+      movie.fps = positive(params.fps, 'Frame rate', true);
+      if (movie.fps > MAX_MOVIE_FPS) throw new Error(`Movies can have at most ${MAX_MOVIE_FPS} frames per second (got ${movie.fps}).`);
+    }
+    if (isSet(params.duration)) {
+      movie.duration = positive(params.duration, 'Duration');
+      if (movie.duration > MAX_MOVIE_SECONDS) throw new Error(`Movies can be at most ${MAX_MOVIE_SECONDS} seconds long (got ${movie.duration}).`);
+    }
+    return movie;
+  },
+  [CommandType.UNKNOWN]: () => ({}),
+};
+
+const defaultExplanation = (type: CommandType) =>
+  type === CommandType.UNKNOWN ? "I couldn't work out what to do with that request." : `Running ${COMMAND_TOOLS[type].name.toLowerCase().replace(/_/g, ' ')}.`;
+
+export const isCommandType = (value: unknown): value is CommandType =>
+  Object.values(CommandType).includes(value as CommandType);
+
+/**
+ * Checks a tool call and returns it as a typed command. Throws an Error saying what is wrong and what
+ * is accepted when the command is unknown or a parameter is invalid.
+ */
+export const validateCommand = (type: unknown, params: unknown, explanation: unknown): Command => {
+  if (!isCommandType(type)) throw new Error(`"${type}" is not a command this app knows.`);
+  const raw = params && typeof params === 'object' ? params as Record<string, unknown> : {};
+  const { explanation: _explanation, ...values } = raw; // Tool calls carry the explanation among the arguments
+  return {
+    type,
+    params: VALIDATORS[type](values),
+    explanation: typeof explanation === 'string' && explanation.trim() ? explanation : defaultExplanation(type),
+  } as Command;
+};
@@ -0,0 +1,108 @@
+import { Command, CommandType, ConversationTurn, MolecularState } from "../types";
+import { describeProtocol } from "./simulationProtocol";
+import { describeMeasurement } from "./measurements";
+import { describeComparison } from "./structureComparison";
+import { describeLayer } from "./representationLayers";
+
+// Conversation memory for intent parsing: the current state plus as many recent turns as fit in a token budget
+
+export const DEFAULT_CONTEXT_BUDGET = 1200; // Tokens for state and history together
+export const MAX_STORED_TURNS = 50; // Turns kept per project; only the newest that fit the budget are sent
+
+const MAX_REQUEST_CHARS = 280; // Long requests (pasted sequences) are shortened in the history
+const SUMMARY_TOKENS = 40; // Held back for the line standing in for older turns
+const SUMMARY_STRUCTURES = 5;
+
+// Rough count for budgeting: about four characters per token for English and JSON
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const shorten = (text: string, limit: number) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > limit ? `${flat.slice(0, limit)}...` : flat;
+};
+
+const describeCommand = ({ type, params }: Command): string => {
+  const fields = Object.entries(params)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? shorten(value, 40) : JSON.stringify(value)}`);
+  return fields.length > 0 ? `${type}(${fields.join(', ')})` : type;
+};
+
+const describeTurn = (turn: ConversationTurn): string => {
+  const steps = turn.steps
+    .filter(({ command }) => command.type !== CommandType.UNKNOWN)
+    .map(({ command, status }) => `${describeCommand(command)}${status === 'done' ? '' : ` [${status}]`}`);
+  return `User: "${shorten(turn.request, MAX_REQUEST_CHARS)}" -> ${steps.length > 0 ? steps.join('; ') : 'not understood'}`;
+};
+
+// Turns that no longer fit collapse into the structures they touched, the usual referent of "it" and "the same"
+const summarizeTurns = (turns: ConversationTurn[]): string => {
+  const structures = [...new Set(turns.flatMap(turn => turn.steps.flatMap(({ command }) =>
+    command.type === CommandType.LOAD_PDB && command.params.pdbId ? [command.params.pdbId.toUpperCase()] : [])))].slice(-SUMMARY_STRUCTURES);
+  return `${turns.length} earlier turn${turns.length === 1 ? '' : 's'} omitted${structures.length > 0 ? `; latest structures loaded then: ${structures.join(', ')}` : ''}.`;
+};
+
+export const describeState = (state: MolecularState): string => {
+  const lines: string[] = [];
+  const meta = state.activeMetadata;
+  const structure = state.localStructure
+    ? `uploaded file ${state.localStructure.fileName}`
+    : state.customData ? `AI predicted model "${state.customData.title}"` : state.pdbId || 'none';
+  lines.push(`Structure: ${structure}${state.structureSource ? ` (source ${state.structureSource})` : ''}.`);
+  if (meta) {
+    lines.push(`Title "${meta.title}", ${meta.method}, resolution ${meta.resolution}.` +
+      (meta.atomCount ? ` ${meta.atomCount} atoms, ${meta.residueCount} residues, ${meta.chainCount} chains` +
+        `${meta.ligandCount > 0 ? `, ligands ${meta.ligandNames.join(', ')}` : ''}` +
+        `${meta.waterCount > 0 ? `, ${meta.waterCount} waters` : ''}${meta.modelCount > 1 ? `, ${meta.modelCount} models` : ''}.` : ''));
+  }
+  lines.push(`View: ${state.representation}, colored by ${state.colorScheme}, ${state.isSpinning ? 'spinning' : 'not spinning'}.`);
+  if (state.layers && state.layers.length > 0) {
+    lines.push(`Layers over it, bottom first: ${state.layers.map((layer, i) => `${i + 1}. ${describeLayer(layer)}`).join('; ')}.`);
+  }
+  if (state.highlight) lines.push(`Highlighted as ${state.highlight.style}: ${state.highlight.expression}.`);
+  if (state.selections && state.selections.length > 0) {
+    lines.push(`Saved selections: ${state.selections.map(s => `${s.name} = ${shorten(s.expression, 80)}`).join('; ')}.`);
+  }
+  if (state.measurements && state.measurements.length > 0) {
+    lines.push(`Measurements: ${state.measurements.map(m => describeMeasurement(m)).join('; ')}.`);
+  }
+  if (state.comparisons && state.comparisons.length > 0) {
+    lines.push(`Compare mode, superposed onto the structure: ${state.comparisons.map(describeComparison).join('; ')}.`);
+  }
+  if (state.simulationRunning) {
+    lines.push(`Simulation ${state.simulationPaused ? 'paused' : 'running'} (${state.simulationStage}, ${Math.round(state.simulationProgress)}%).`);
+  } else if (state.checkpoint) {
+    lines.push(`Last simulation ${state.checkpoint.finished ? 'finished' : 'stopped before finishing'}.`);
+  }
+  const protocol = state.simulationRunning ? state.runProtocol : state.checkpoint?.protocol;
+  if (protocol) lines.push(`Run settings: ${describeProtocol(protocol)}.`);
+  if (state.simulationData.length > 0) lines.push(`${state.simulationData.length} trajectory frames available for analysis.`);
+  return lines.join('\n');
+};
+
+/**
+ * Context for the next request: the current state, then the newest turns that fit in `budget`
+ * tokens, oldest first. Older turns are replaced by a one-line summary.
+ */
+export const buildConversationContext = (turns: ConversationTurn[], state: MolecularState, budget = DEFAULT_CONTEXT_BUDGET): string => {
+  const stateBlock = `Current state:\n${describeState(state)}`;
+  let remaining = budget - estimateTokens(stateBlock) - SUMMARY_TOKENS;
+
+  const included: string[] = [];
+  let index = turns.length - 1;
+  for (; index >= 0; index--) {
+    const line = describeTurn(turns[index]);
+    const cost = estimateTokens(line) + 1;
+    if (cost > remaining) break;
+    included.unshift(line);
+    remaining -= cost;
+  }
+  if (turns.length === 0) return stateBlock;
+
+  const history = index >= 0 ? [summarizeTurns(turns.slice(0, index + 1)), ...included] : included;
+  return `${stateBlock}\n\nRecent turns, oldest first:\n${history.join('\n')}`;
+};
+
+// Appends a turn, dropping the oldest beyond MAX_STORED_TURNS
+export const rememberTurn = (turns: ConversationTurn[], turn: ConversationTurn): ConversationTurn[] =>
+  [...turns, turn].slice(-MAX_STORED_TURNS);
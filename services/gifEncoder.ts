@@ -0,0 +1,181 @@
+// Animated GIF (GIF89a) writer for movie export: one global 256-color palette, LZW-compressed frames
+
+const PALETTE_SIZE = 256;
+const PALETTE_SAMPLES = 60000; // Pixels of the first frame the palette is fitted to
+const MAX_CODE = 4096; // LZW codes are at most 12 bits
+
+type Color = [number, number, number];
+
+/**
+ * Median cut: splits the sampled colors along their widest channel until there are `size` boxes,
+ * then takes the mean of each box.
+ */
+const medianCut = (pixels: Uint8ClampedArray, size: number): Color[] => {
+  const step = Math.max(1, Math.floor(pixels.length / 4 / PALETTE_SAMPLES));
+  const samples: Color[] = [];
+  for (let i = 0; i < pixels.length; i += 4 * step) samples.push([pixels[i], pixels[i + 1], pixels[i + 2]]);
+
+  // Widest channel of a box and its range
+  const measure = (colors: Color[]) => {
+    let channel = 0, range = -1;
+    for (let c = 0; c < 3; c++) {
+      let min = 255, max = 0;
+      for (const color of colors) {
+        if (color[c] < min) min = color[c];
+        if (color[c] > max) max = color[c];
+      }
+      if (max - min > range) {
+        channel = c;
+        range = max - min;
+      }
+    }
+    return { colors, channel, range };
+  };
+
+  const boxes = [measure(samples)];
+  while (boxes.length < size) {
+    let index = -1;
+    boxes.forEach((box, i) => {
+      if (box.range > 0 && (index < 0 || box.range > boxes[index].range)) index = i;
+    });
+    if (index < 0) break; // Every box holds a single color
+    const { colors, channel } = boxes[index];
+    colors.sort((a, b) => a[channel] - b[channel]);
+    const middle = colors.length >> 1;
+    boxes.splice(index, 1, measure(colors.slice(0, middle)), measure(colors.slice(middle)));
+  }
+  return boxes.map(({ colors }) => {
+    const sum = colors.reduce((acc, c) => [acc[0] + c[0], acc[1] + c[1], acc[2] + c[2]], [0, 0, 0]);
+    return sum.map(v => Math.round(v / Math.max(colors.length, 1))) as Color;
+  });
+};
+
+// Palette indices of RGBA pixels; nearest colors are cached per 15-bit color
+const createMapper = (palette: Color[]) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return (pixels: Uint8ClampedArray): Uint8Array => {
+    const indices = new Uint8Array(pixels.length / 4);
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      const r = pixels[i], g = pixels[i + 1], b = pixels[i + 2];
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      let index = cache[key];
+      if (index < 0) {
+        let best = Infinity;
+        palette.forEach(([pr, pg, pb], j) => {
+          const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+          if (distance < best) {
+            best = distance;
+            index = j;
+          }
+        });
+        cache[key] = index;
+      }
+      indices[p] = index;
+    }
+    return indices;
+  };
+};
+
+// Variable-length LZW as GIF specifies it, packed LSB first into sub-blocks of up to 255 bytes
+const compress = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const bytes: number[] = [];
+  let buffer = 0, bits = 0;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let next = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (next === MAX_CODE) {
+      emit(clearCode);
+      codeSize = minCodeSize + 1;
+      next = endCode + 1;
+      table = new Map();
+    } else {
+      // The code size grows when the next entry no longer fits, which is when the decoder grows it too
+      if (next >= 1 << codeSize) codeSize++;
+      table.set(key, next++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) bytes.push(buffer & 0xff);
+
+  const blocks = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let offset = 0;
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    blocks[offset++] = block.length;
+    blocks.set(block, offset);
+    offset += block.length;
+  }
+  blocks[offset] = 0; // Block terminator
+  return blocks;
+};
+
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export interface GifEncoder {
+  addFrame: (rgba: Uint8ClampedArray) => void; // width * height * 4 bytes, as in ImageData
+  finish: () => Blob;
+}
+
+/**
+ * GIF writer that compresses each frame as it is added, so only the encoded bytes are kept. The
+ * palette is fitted to the first frame, which suits movies of one scene. Loops forever.
+ */
+export const createGifEncoder = (width: number, height: number, frameDelayMs: number): GifEncoder => {
+  const chunks: Uint8Array[] = [];
+  const delay = Math.max(2, Math.round(frameDelayMs / 10)); // Centiseconds; browsers slow down anything shorter
+  let mapIndices: ((pixels: Uint8ClampedArray) => Uint8Array) | null = null;
+
+  return {
+    addFrame: rgba => {
+      if (rgba.length !== width * height * 4) throw new Error(`A ${width}×${height} GIF frame needs ${width * height * 4} bytes, got ${rgba.length}.`);
+      if (!mapIndices) {
+        const palette = medianCut(rgba, PALETTE_SIZE);
+        while (palette.length < PALETTE_SIZE) palette.push([0, 0, 0]);
+        mapIndices = createMapper(palette);
+        chunks.push(new Uint8Array([
+          ...'GIF89a'.split('').map(c => c.charCodeAt(0)),
+          ...u16(width), ...u16(height),
+          0xf7, 0, 0, // Global 256-color table, 8 bits per channel
+          ...palette.flat(),
+          0x21, 0xff, 0x0b, ...'NETSCAPE2.0'.split('').map(c => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0x00 // Loop forever
+        ]));
+      }
+      chunks.push(new Uint8Array([
+        0x21, 0xf9, 0x04, 0x04, ...u16(delay), 0, 0x00, // Graphic control: keep the frame, no transparency
+        0x2c, 0, 0, 0, 0, ...u16(width), ...u16(height), 0x00, // Full-size image, global palette
+        8
+      ]));
+      chunks.push(compress(mapIndices(rgba), 8));
+    },
+    finish: () => {
+      if (!mapIndices) throw new Error('A GIF needs at least one frame.');
+      return new Blob([...chunks, new Uint8Array([0x3b])], { type: 'image/gif' });
+    }
+  };
+};
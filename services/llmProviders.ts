@@ -0,0 +1,291 @@
+import { FunctionCallingConfigMode, GoogleGenAI } from "@google/genai";
+
+// Language-model backends behind one interface, chosen at runtime in the assistant settings
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;
+  apiKey: string;
+  baseUrl: string; // OpenAI-compatible endpoints only, e.g. http://localhost:11434/v1 for Ollama
+  localFirst: boolean; // Routine commands are parsed offline without asking the model
+}
+
+// The subset of JSON Schema used for structured replies; accepted by Gemini and OpenAI-compatible servers
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface LLMRequest {
+  system?: string;
+  prompt: string;
+  schema?: JsonSchema; // Ask for a JSON reply matching this schema
+}
+
+// A function the model can call; the model picks tools and fills their parameters instead of writing JSON
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface LLMToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  generate: (request: LLMRequest) => Promise<string>;
+  // Prose replies only: passes each piece of text to `onChunk` as it arrives and resolves with the whole reply.
+  // Rejects when `signal` aborts or the connection breaks, after the pieces already delivered.
+  stream: (request: LLMRequest, onChunk: (chunk: string) => void, signal?: AbortSignal) => Promise<string>;
+  // Requires at least one tool call; several calls come back in the order the model made them. `text` is any prose alongside.
+  callTools: (request: LLMRequest, tools: LLMTool[]) => Promise<{ calls: LLMToolCall[]; text: string }>;
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderId, { label: string; defaultModel: string; defaultBaseUrl: string }> = {
+  gemini: { label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', defaultBaseUrl: '' },
+  openai: { label: 'OpenAI-compatible', defaultModel: 'llama3.1', defaultBaseUrl: 'http://localhost:11434/v1' },
+  mock: { label: 'Scripted mock', defaultModel: 'mock', defaultBaseUrl: '' }
+};
+
+export const defaultLLMSettings = (provider: LLMProviderId = 'gemini'): LLMSettings => ({
+  provider,
+  model: LLM_PROVIDERS[provider].defaultModel,
+  apiKey: '',
+  baseUrl: LLM_PROVIDERS[provider].defaultBaseUrl,
+  localFirst: true
+});
+
+const SETTINGS_KEY = 'molsim-llm-settings';
+
+export const loadLLMSettings = (): LLMSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null') as Partial<LLMSettings> | null;
+    if (!stored || !stored.provider || !(stored.provider in LLM_PROVIDERS)) return defaultLLMSettings();
+    return { ...defaultLLMSettings(stored.provider), ...stored };
+  } catch {
+    return defaultLLMSettings();
+  }
+};
+
+// Kept in this browser only, like the repository tokens
+export const saveLLMSettings = (settings: LLMSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const createGeminiProvider = (settings: LLMSettings): LLMProvider => {
+  const ai = settings.apiKey ? new GoogleGenAI({ apiKey: settings.apiKey }) : null;
+  const client = () => {
+    if (!ai) throw new Error('No Gemini API key is set. Add one in the assistant settings.');
+    return ai;
+  };
+  return {
+    id: 'gemini',
+    model: settings.model,
+    generate: async ({ system, prompt, schema }) => {
+      const response = await client().models.generateContent({
+        model: settings.model,
+        contents: prompt,
+        config: {
+          systemInstruction: system,
+          ...(schema ? { responseMimeType: 'application/json', responseJsonSchema: schema } : {})
+        }
+      });
+      if (!response.text) throw new Error('The model returned an empty response.');
+      return response.text;
+    },
+    stream: async ({ system, prompt }, onChunk, signal) => {
+      const chunks = await client().models.generateContentStream({
+        model: settings.model,
+        contents: prompt,
+        config: { systemInstruction: system, abortSignal: signal }
+      });
+      let text = '';
+      for await (const chunk of chunks) {
+        signal?.throwIfAborted();
+        if (!chunk.text) continue;
+        text += chunk.text;
+        onChunk(chunk.text);
+      }
+      if (!text) throw new Error('The model returned an empty response.');
+      return text;
+    },
+    callTools: async ({ system, prompt }, tools) => {
+      const response = await client().models.generateContent({
+        model: settings.model,
+        contents: prompt,
+        config: {
+          systemInstruction: system,
+          tools: [{ functionDeclarations: tools.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters })) }],
+          toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.ANY } }
+        }
+      });
+      const calls = (response.functionCalls ?? []).map(call => ({ name: call.name ?? '', args: call.args ?? {} }));
+      return { calls, text: calls.length > 0 ? '' : response.text ?? '' };
+    }
+  };
+};
+
+// One entry of a Chat Completions `tool_calls` array
+interface OpenAIToolCall {
+  id?: string;
+  function?: { name?: string; arguments?: string | Record<string, unknown> };
+}
+
+// Chat Completions API as served by OpenAI, Ollama, llama.cpp, vLLM and LM Studio
+export const createOpenAICompatibleProvider = (settings: LLMSettings): LLMProvider => {
+  const complete = async ({ system, prompt, schema }: LLMRequest, stream: boolean, signal?: AbortSignal, tools?: LLMTool[]) => {
+    const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+    if (!baseUrl) throw new Error('No endpoint URL is set. Add one in the assistant settings.');
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          messages: [
+            ...(system ? [{ role: 'system', content: system }] : []),
+            { role: 'user', content: prompt }
+          ],
+          ...(stream ? { stream: true } : {}),
+          ...(tools ? {
+            tools: tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } })),
+            tool_choice: 'required'
+          } : {}),
+          ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } } : {})
+        }),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new Error(`Couldn't reach ${baseUrl}. Check that the server is running and allows requests from this page (CORS).`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${baseUrl} answered ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai',
+    model: settings.model,
+    generate: async request => {
+      const body = await (await complete(request, false)).json();
+      const text = body?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string' || !text) throw new Error('The model returned an empty response.');
+      return text;
+    },
+    // Server-sent events, one `data:` line per delta, ending with `data: [DONE]`
+    stream: async (request, onChunk, signal) => {
+      const response = await complete(request, true, signal);
+      if (!response.body) throw new Error('The server did not stream its response.');
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let text = '';
+      let pending = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += value;
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return text;
+          const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (typeof delta !== 'string' || !delta) continue;
+          text += delta;
+          onChunk(delta);
+        }
+      }
+      if (!text) throw new Error('The model returned an empty response.');
+      // Servers end the stream with [DONE]; a stream closing without it was cut off
+      throw new Error('The connection closed before the reply was complete.');
+    },
+    callTools: async (request, tools) => {
+      const body = await (await complete(request, false, undefined, tools)).json();
+      const message = body?.choices?.[0]?.message ?? {};
+      // Arguments arrive as a JSON string; some local servers send the object itself
+      const toolCalls: OpenAIToolCall[] = Array.isArray(message.tool_calls) ? message.tool_calls : [];
+      const calls = toolCalls.map(call => {
+        const args = call?.function?.arguments;
+        return { name: String(call?.function?.name ?? ''), args: typeof args === 'string' ? JSON.parse(args || '{}') : args ?? {} };
+      });
+      return { calls, text: typeof message.content === 'string' ? message.content : '' };
+    }
+  };
+};
+
+export type MockReply = string | ((request: LLMRequest) => string);
+
+export interface MockProvider extends LLMProvider {
+  requests: LLMRequest[]; // Every request received, for assertions
+}
+
+/**
+ * Replies with the scripted responses in order, then with `fallback`. Makes the assistant
+ * deterministic for tests and usable without any model.
+ */
+export const createMockProvider = (
+  replies: MockReply[] = [],
+  fallback: MockReply = request => request.schema ? '{}' : 'This is a scripted reply from the mock provider.',
+  toolFallback: MockReply = '[]'
+): MockProvider => {
+  const queue = [...replies];
+  const requests: LLMRequest[] = [];
+  const next = (request: LLMRequest, otherwise = fallback) => {
+    requests.push(request);
+    const reply = queue.shift() ?? otherwise;
+    return typeof reply === 'function' ? reply(request) : reply;
+  };
+  return {
+    id: 'mock',
+    model: 'mock',
+    requests,
+    generate: async request => next(request),
+    // Word by word with a short delay, so streaming can be exercised without a model
+    stream: async (request, onChunk, signal) => {
+      const text = next(request);
+      for (const word of text.match(/\S+\s*/g) ?? []) {
+        await new Promise(resolve => setTimeout(resolve, 15));
+        signal?.throwIfAborted();
+        onChunk(word);
+      }
+      return text;
+    },
+    // Tool replies are scripted as JSON: [{ "name": "LOAD_PDB", "args": { "pdbId": "1UBQ" } }]; anything else is prose
+    callTools: async request => {
+      const reply = next(request, toolFallback);
+      try {
+        const calls = JSON.parse(reply);
+        if (Array.isArray(calls)) return { calls, text: '' };
+      } catch {
+        // Prose reply
+      }
+      return { calls: [], text: reply };
+    }
+  };
+};
+
+export const createProvider = (settings: LLMSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'openai': return createOpenAICompatibleProvider(settings);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider(settings);
+  }
+};
@@ -0,0 +1,382 @@
+
+import { Atom, ParsedStructure, Residue, SimulationProtocol } from "../types";
+import { kabsch } from "./superposition";
+
+// Units: Å, ps, amu, kcal/mol, K
+const KB = 0.0019872041; // kcal/(mol·K)
+const FORCE_TO_ACCEL = 418.4; // (kcal/mol/Å)/amu -> Å/ps²
+const BEAD_MASS = 110; // Average residue mass
+
+// Coarse-grained Gō model parameters (Clementi-style, Cα beads)
+const K_BOND = 100; // kcal/mol/Å²
+const K_ANGLE = 20; // kcal/mol/rad²
+const CONTACT_EPSILON = 2.0; // Deep enough to keep the native fold stable at 300 K
+const REPULSION_EPSILON = 1.0;
+const CONTACT_CUTOFF = 8.0; // Native contact definition
+const REPULSION_SIGMA = 4.0;
+const NEIGHBOR_SKIN = 2.0;
+const MIN_SEQUENCE_SEPARATION = 3;
+
+export const DEFAULT_PROTOCOL: SimulationProtocol = {
+  ensemble: 'NVT',
+  temperature: 300,
+  pressure: 1,
+  timestep: 0.01,
+  minimizationSteps: 500,
+  equilibrationSteps: 5000,
+  productionSteps: 10000,
+  frameInterval: 50,
+  thermostat: 'langevin',
+  barostat: 'montecarlo',
+  cutoff: 12,
+  seed: 1
+};
+
+export interface GoSystem {
+  n: number;
+  atoms: Atom[]; // Bead atoms, one per residue
+  positions: Float64Array;
+  velocities: Float64Array;
+  forces: Float64Array;
+  reference: Float64Array; // Native (input) coordinates
+  bonds: { i: number; j: number; r0: number }[];
+  angles: { i: number; j: number; k: number; theta0: number }[];
+  contacts: { i: number; j: number; sigma: number }[];
+  cutoff: number; // Non-bonded cutoff (Å)
+  excluded: Set<number>; // Pair keys skipped by the repulsive term
+  neighbors: Int32Array; // Flattened i,j pairs for repulsion
+  neighborOrigin: Float64Array; // Positions at the last neighbour list build
+}
+
+// Seeded PRNG (mulberry32) so runs are reproducible; getState() restores the stream via createRandom(state)
+export const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  const uniform = () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const gaussian = () => {
+    const u = Math.max(uniform(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * uniform());
+  };
+  return { uniform, gaussian, getState: () => a };
+};
+
+export type Random = ReturnType<typeof createRandom>;
+
+// One bead per polymer residue: Cα for proteins, C4'/P for nucleic acids
+const pickBeadAtom = (residue: Residue) =>
+  residue.atoms.find(a => a.name === 'CA') ||
+  residue.atoms.find(a => a.name === "C4'" || a.name === 'C4*') ||
+  residue.atoms.find(a => a.name === 'P');
+
+const pairKey = (i: number, j: number, n: number) => (i < j ? i * n + j : j * n + i);
+
+const distance = (p: Float64Array, i: number, j: number) => {
+  const dx = p[3 * i] - p[3 * j];
+  const dy = p[3 * i + 1] - p[3 * j + 1];
+  const dz = p[3 * i + 2] - p[3 * j + 2];
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+};
+
+const angleBetween = (p: Float64Array, i: number, j: number, k: number) => {
+  const ax = p[3 * i] - p[3 * j], ay = p[3 * i + 1] - p[3 * j + 1], az = p[3 * i + 2] - p[3 * j + 2];
+  const bx = p[3 * k] - p[3 * j], by = p[3 * k + 1] - p[3 * j + 1], bz = p[3 * k + 2] - p[3 * j + 2];
+  const cos = (ax * bx + ay * by + az * bz) / Math.sqrt((ax * ax + ay * ay + az * az) * (bx * bx + by * by + bz * bz));
+  return Math.acos(Math.max(-1, Math.min(1, cos)));
+};
+
+export const buildGoSystem = (structure: ParsedStructure, cutoff = DEFAULT_PROTOCOL.cutoff): GoSystem => {
+  const model = structure.models[0];
+  if (!model) throw new Error('Structure has no models to simulate.');
+
+  const atoms: Atom[] = [];
+  for (const chain of model.chains) {
+    for (const residue of chain.residues) {
+      if (residue.isWater || residue.isLigand) continue;
+      const atom = pickBeadAtom(residue);
+      if (atom) atoms.push(atom);
+    }
+  }
+  return createGoSystem(atoms, cutoff);
+};
+
+// Builds the model from bead atoms in chain order; used directly when restoring a checkpoint
+export const createGoSystem = (atoms: Atom[], cutoff = DEFAULT_PROTOCOL.cutoff): GoSystem => {
+  const coords: number[] = [];
+  const chainOf: number[] = [];
+  const indexInChain: number[] = [];
+  atoms.forEach((atom, i) => {
+    const newChain = i === 0 || atom.chainId !== atoms[i - 1].chainId;
+    coords.push(atom.x, atom.y, atom.z);
+    chainOf.push(newChain ? (chainOf[i - 1] ?? -1) + 1 : chainOf[i - 1]);
+    indexInChain.push(newChain ? 0 : indexInChain[i - 1] + 1);
+  });
+
+  const n = coords.length / 3;
+  if (n < 3) throw new Error('Not enough polymer residues to build a simulation model.');
+
+  const reference = Float64Array.from(coords);
+
+  const bonds: GoSystem['bonds'] = [];
+  const angles: GoSystem['angles'] = [];
+  const contacts: GoSystem['contacts'] = [];
+  const excluded = new Set<number>();
+  const sameChain = (i: number, j: number) => chainOf[i] === chainOf[j];
+
+  for (let i = 0; i < n - 1; i++) {
+    // Chain breaks (missing residues) leave a gap too long to bond across
+    const r0 = distance(reference, i, i + 1);
+    if (sameChain(i, i + 1) && r0 < CONTACT_CUTOFF) {
+      bonds.push({ i, j: i + 1, r0 });
+      if (i < n - 2 && sameChain(i, i + 2) && distance(reference, i + 1, i + 2) < CONTACT_CUTOFF) {
+        angles.push({ i, j: i + 1, k: i + 2, theta0: angleBetween(reference, i, i + 1, i + 2) });
+      }
+    }
+  }
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const local = sameChain(i, j) && Math.abs(indexInChain[i] - indexInChain[j]) < MIN_SEQUENCE_SEPARATION;
+      if (local) {
+        excluded.add(pairKey(i, j, n));
+        continue;
+      }
+      const r = distance(reference, i, j);
+      if (r < CONTACT_CUTOFF) {
+        contacts.push({ i, j, sigma: r });
+        excluded.add(pairKey(i, j, n));
+      }
+    }
+  }
+
+  const system: GoSystem = {
+    n,
+    atoms,
+    positions: Float64Array.from(reference),
+    velocities: new Float64Array(3 * n),
+    forces: new Float64Array(3 * n),
+    reference,
+    bonds,
+    angles,
+    contacts,
+    cutoff,
+    excluded,
+    neighbors: new Int32Array(0),
+    neighborOrigin: new Float64Array(3 * n)
+  };
+  buildNeighborList(system);
+  return system;
+};
+
+const buildNeighborList = (system: GoSystem) => {
+  const { n, positions, excluded } = system;
+  const cutoff = system.cutoff + NEIGHBOR_SKIN;
+  const pairs: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (excluded.has(i * n + j)) continue;
+      if (distance(positions, i, j) < cutoff) pairs.push(i, j);
+    }
+  }
+  system.neighbors = Int32Array.from(pairs);
+  system.neighborOrigin.set(positions);
+};
+
+// Rebuild once any bead has moved more than half the skin
+const updateNeighborList = (system: GoSystem) => {
+  const { positions, neighborOrigin, n } = system;
+  const limit = (NEIGHBOR_SKIN / 2) ** 2;
+  for (let i = 0; i < n; i++) {
+    const dx = positions[3 * i] - neighborOrigin[3 * i];
+    const dy = positions[3 * i + 1] - neighborOrigin[3 * i + 1];
+    const dz = positions[3 * i + 2] - neighborOrigin[3 * i + 2];
+    if (dx * dx + dy * dy + dz * dz > limit) {
+      buildNeighborList(system);
+      return;
+    }
+  }
+};
+
+// Computes forces into system.forces and returns the potential energy (kcal/mol)
+export const computeForces = (system: GoSystem): number => {
+  const { positions: p, forces: f, bonds, angles, contacts, neighbors, cutoff } = system;
+  f.fill(0);
+  let energy = 0;
+
+  const applyPair = (i: number, j: number, dUdr: number, r: number) => {
+    const scale = -dUdr / r;
+    const fx = scale * (p[3 * i] - p[3 * j]);
+    const fy = scale * (p[3 * i + 1] - p[3 * j + 1]);
+    const fz = scale * (p[3 * i + 2] - p[3 * j + 2]);
+    f[3 * i] += fx; f[3 * i + 1] += fy; f[3 * i + 2] += fz;
+    f[3 * j] -= fx; f[3 * j + 1] -= fy; f[3 * j + 2] -= fz;
+  };
+
+  for (const { i, j, r0 } of bonds) {
+    const r = distance(p, i, j);
+    const dr = r - r0;
+    energy += K_BOND * dr * dr;
+    applyPair(i, j, 2 * K_BOND * dr, r);
+  }
+
+  for (const { i, j, k, theta0 } of angles) {
+    const ax = p[3 * i] - p[3 * j], ay = p[3 * i + 1] - p[3 * j + 1], az = p[3 * i + 2] - p[3 * j + 2];
+    const bx = p[3 * k] - p[3 * j], by = p[3 * k + 1] - p[3 * j + 1], bz = p[3 * k + 2] - p[3 * j + 2];
+    const a2 = ax * ax + ay * ay + az * az;
+    const b2 = bx * bx + by * by + bz * bz;
+    const ab = Math.sqrt(a2 * b2);
+    const cos = Math.max(-1, Math.min(1, (ax * bx + ay * by + az * bz) / ab));
+    const sin = Math.max(Math.sqrt(1 - cos * cos), 1e-6);
+    const theta = Math.acos(cos);
+    const dTheta = theta - theta0;
+    energy += K_ANGLE * dTheta * dTheta;
+
+    // F = -dU/dθ · dθ/dx, with dθ/dx = -1/sinθ · dcosθ/dx
+    const prefactor = 2 * K_ANGLE * dTheta / sin;
+    const fix = prefactor * (bx / ab - cos * ax / a2);
+    const fiy = prefactor * (by / ab - cos * ay / a2);
+    const fiz = prefactor * (bz / ab - cos * az / a2);
+    const fkx = prefactor * (ax / ab - cos * bx / b2);
+    const fky = prefactor * (ay / ab - cos * by / b2);
+    const fkz = prefactor * (az / ab - cos * bz / b2);
+    f[3 * i] += fix; f[3 * i + 1] += fiy; f[3 * i + 2] += fiz;
+    f[3 * k] += fkx; f[3 * k + 1] += fky; f[3 * k + 2] += fkz;
+    f[3 * j] -= fix + fkx; f[3 * j + 1] -= fiy + fky; f[3 * j + 2] -= fiz + fkz;
+  }
+
+  // Native contacts: 12-10 potential with its minimum at the native distance
+  for (const { i, j, sigma } of contacts) {
+    const r = distance(p, i, j);
+    const s10 = (sigma / r) ** 10;
+    const s12 = s10 * (sigma / r) ** 2;
+    energy += CONTACT_EPSILON * (5 * s12 - 6 * s10);
+    applyPair(i, j, (60 * CONTACT_EPSILON / r) * (s10 - s12), r);
+  }
+
+  // Non-native pairs: purely repulsive excluded volume
+  for (let m = 0; m < neighbors.length; m += 2) {
+    const i = neighbors[m], j = neighbors[m + 1];
+    const r = distance(p, i, j);
+    if (r > cutoff) continue;
+    const s12 = (REPULSION_SIGMA / r) ** 12;
+    energy += REPULSION_EPSILON * s12;
+    applyPair(i, j, -12 * REPULSION_EPSILON * s12 / r, r);
+  }
+
+  return energy;
+};
+
+export const kineticEnergy = (system: GoSystem) => {
+  const v = system.velocities;
+  let sum = 0;
+  for (let i = 0; i < v.length; i++) sum += v[i] * v[i];
+  return 0.5 * BEAD_MASS * sum / FORCE_TO_ACCEL;
+};
+
+export const instantaneousTemperature = (system: GoSystem) => {
+  const dof = Math.max(3 * system.n - 3, 1);
+  return (2 * kineticEnergy(system)) / (dof * KB);
+};
+
+const removeCenterOfMassMotion = (system: GoSystem) => {
+  const { velocities: v, n } = system;
+  let vx = 0, vy = 0, vz = 0;
+  for (let i = 0; i < n; i++) { vx += v[3 * i]; vy += v[3 * i + 1]; vz += v[3 * i + 2]; }
+  vx /= n; vy /= n; vz /= n;
+  for (let i = 0; i < n; i++) { v[3 * i] -= vx; v[3 * i + 1] -= vy; v[3 * i + 2] -= vz; }
+};
+
+export const assignVelocities = (system: GoSystem, temperature: number, random: Random) => {
+  const sigma = Math.sqrt(KB * temperature * FORCE_TO_ACCEL / BEAD_MASS);
+  for (let i = 0; i < system.velocities.length; i++) {
+    system.velocities[i] = sigma * random.gaussian();
+  }
+  removeCenterOfMassMotion(system);
+};
+
+export interface MinimizerState {
+  stepSize: number;
+  energy: number;
+}
+
+// Adaptive steepest descent: grow the step on success, halve it and retry on failure
+export const minimizationStep = (system: GoSystem, state: MinimizerState): MinimizerState => {
+  const { positions, forces, n } = system;
+  let maxForce = 0;
+  for (let i = 0; i < 3 * n; i++) maxForce = Math.max(maxForce, Math.abs(forces[i]));
+  if (maxForce < 1e-6) return state;
+
+  const previous = Float64Array.from(positions);
+  const scale = state.stepSize / maxForce;
+  for (let i = 0; i < 3 * n; i++) positions[i] += scale * forces[i];
+
+  const energy = computeForces(system);
+  if (energy < state.energy) {
+    updateNeighborList(system);
+    return { stepSize: Math.min(state.stepSize * 1.2, 0.1), energy };
+  }
+
+  positions.set(previous);
+  const restored = computeForces(system);
+  return { stepSize: state.stepSize * 0.5, energy: restored };
+};
+
+export interface ThermostatSettings {
+  type: SimulationProtocol['thermostat'];
+  temperature: number;
+  tau?: number; // Berendsen coupling time (ps)
+  gamma?: number; // Langevin friction (1/ps)
+}
+
+// Velocity Verlet step with an optional thermostat (null integrates NVE); returns potential energy
+export const velocityVerletStep = (system: GoSystem, dt: number, thermostat: ThermostatSettings | null, random: Random): number => {
+  const { positions: x, velocities: v, forces: f } = system;
+  const halfAccel = 0.5 * dt * FORCE_TO_ACCEL / BEAD_MASS;
+
+  for (let i = 0; i < x.length; i++) {
+    v[i] += halfAccel * f[i];
+    x[i] += dt * v[i];
+  }
+  updateNeighborList(system);
+  const energy = computeForces(system);
+  for (let i = 0; i < v.length; i++) v[i] += halfAccel * f[i];
+
+  if (!thermostat) return energy;
+
+  if (thermostat.type === 'berendsen') {
+    const current = instantaneousTemperature(system);
+    if (current > 0) {
+      const tau = thermostat.tau ?? 0.1;
+      const lambda = Math.sqrt(1 + (dt / tau) * (thermostat.temperature / current - 1));
+      const clamped = Math.max(0.8, Math.min(1.25, lambda));
+      for (let i = 0; i < v.length; i++) v[i] *= clamped;
+    }
+  } else {
+    // Ornstein-Uhlenbeck velocity update
+    const gamma = thermostat.gamma ?? 1.0;
+    const c1 = Math.exp(-gamma * dt);
+    const c2 = Math.sqrt((1 - c1 * c1) * KB * thermostat.temperature * FORCE_TO_ACCEL / BEAD_MASS);
+    for (let i = 0; i < v.length; i++) v[i] = c1 * v[i] + c2 * random.gaussian();
+    removeCenterOfMassMotion(system);
+  }
+
+  return energy;
+};
+
+// Loads checkpointed coordinates and velocities, then refreshes the neighbour list and forces for the next step
+export const restoreSystemState = (system: GoSystem, positions: Float64Array, velocities: Float64Array) => {
+  if (positions.length !== 3 * system.n || velocities.length !== 3 * system.n) {
+    throw new Error(`Checkpoint holds ${positions.length / 3} beads but the model has ${system.n}.`);
+  }
+  system.positions.set(positions);
+  system.velocities.set(velocities);
+  buildNeighborList(system);
+  computeForces(system);
+};
+
+// Cα RMSD to the native coordinates after optimal superposition
+export const rmsdToReference = (system: GoSystem) => kabsch(system.positions, system.reference).rmsd;
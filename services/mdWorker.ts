@@ -0,0 +1,211 @@
+
+import { MDWorkerMessage, MDWorkerRequest, SimulationCheckpoint, SimulationData, SimulationProtocol, SimulationStage } from "../types";
+import {
+  assignVelocities,
+  buildGoSystem,
+  computeForces,
+  createGoSystem,
+  createRandom,
+  GoSystem,
+  instantaneousTemperature,
+  minimizationStep,
+  restoreSystemState,
+  rmsdToReference,
+  velocityVerletStep
+} from "./mdEngine";
+
+const ctx = self as unknown as Worker;
+
+// Minimum wall-clock gap between frames so small systems don't finish before the UI can show them
+const FRAME_INTERVAL_MS = 30;
+const LOG_EVERY_FRAMES = 5;
+const CHECKPOINT_EVERY_FRAMES = 25;
+const INITIAL_TEMPERATURE = 10;
+
+const post = (message: MDWorkerMessage) => ctx.postMessage(message);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Control requests land here between frames; the run loop picks them up after each frame
+const control = {
+  paused: false,
+  stopped: false,
+  extraSteps: 0,
+  wake: null as (() => void) | null
+};
+
+const runProtocol = async (system: GoSystem, initialProtocol: SimulationProtocol, restored?: SimulationCheckpoint) => {
+  const protocol = { ...initialProtocol };
+  const random = createRandom(restored ? restored.randomState : protocol.seed);
+  if (restored) restoreSystemState(system, restored.positions, restored.velocities);
+  post({ type: 'ready', atoms: system.atoms, contactCount: system.contacts.length });
+
+  let stage: SimulationStage = restored?.stage ?? 'minimization';
+  let stageStep = restored?.stageStep ?? 0;
+  let step = restored?.step ?? 0;
+  let time = restored?.time ?? 0;
+  let frameCount = restored?.frameCount ?? 0;
+  let minimizer = restored?.minimizer ?? { stepSize: 0.01, energy: computeForces(system) };
+  let lastFrameAt = 0;
+  let pendingLog: string | undefined = restored
+    ? `[MD] Resumed from checkpoint at step ${step} (${stage}, t=${time.toFixed(2)} ps)`
+    : undefined; // Notice attached to the next frame
+
+  const isFinished = () => stage === 'production' && stageStep >= protocol.productionSteps;
+
+  const snapshot = (): SimulationCheckpoint => ({
+    protocol: { ...protocol },
+    atoms: system.atoms,
+    stage,
+    stageStep,
+    step,
+    time,
+    frameCount,
+    positions: Float64Array.from(system.positions),
+    velocities: Float64Array.from(system.velocities),
+    randomState: random.getState(),
+    minimizer,
+    finished: isFinished(),
+    savedAt: Date.now()
+  });
+
+  const postCheckpoint = () => {
+    const checkpoint = snapshot();
+    ctx.postMessage({ type: 'checkpoint', checkpoint } as MDWorkerMessage, [checkpoint.positions.buffer, checkpoint.velocities.buffer]);
+  };
+
+  const emitFrame = async (progress: number, energy: number) => {
+    const temperature = instantaneousTemperature(system);
+    const data: SimulationData = {
+      time: parseFloat(time.toFixed(2)),
+      rmsd: parseFloat(rmsdToReference(system).toFixed(3)),
+      energy: parseFloat(energy.toFixed(1)),
+      temperature: parseFloat(temperature.toFixed(1))
+    };
+    const log = pendingLog ?? (frameCount % LOG_EVERY_FRAMES === 0
+      ? `[MD] ${stage.toUpperCase()} STEP ${step} :: T=${temperature.toFixed(1)}K :: E_POT=${energy.toFixed(1)} :: RMSD=${data.rmsd.toFixed(3)}`
+      : undefined);
+    pendingLog = undefined;
+    frameCount++;
+
+    const coordinates = Float32Array.from(system.positions);
+    ctx.postMessage({ type: 'frame', stage, progress, data, coordinates, log } as MDWorkerMessage, [coordinates.buffer]);
+    if (frameCount % CHECKPOINT_EVERY_FRAMES === 0) postCheckpoint();
+
+    // Always yield so pause/stop/extend messages are delivered, even when frames are slow to compute
+    await sleep(Math.max(0, FRAME_INTERVAL_MS - (Date.now() - lastFrameAt)));
+    lastFrameAt = Date.now();
+  };
+
+  // Applies queued control requests; returns true once the run should end
+  const checkControl = async (): Promise<boolean> => {
+    if (control.extraSteps) {
+      protocol.productionSteps += control.extraSteps;
+      pendingLog = `[MD] Production extended to ${protocol.productionSteps} steps`;
+      control.extraSteps = 0;
+    }
+    if (control.paused && !control.stopped) {
+      postCheckpoint();
+      await new Promise<void>(resolve => { control.wake = resolve; });
+      control.wake = null;
+      lastFrameAt = Date.now();
+    }
+    return control.stopped;
+  };
+
+  const stop = () => {
+    postCheckpoint();
+    post({ type: 'complete', stopped: true });
+  };
+
+  // Stage 1: steepest descent from the input coordinates
+  if (stage === 'minimization') {
+    const every = Math.max(1, Math.round(protocol.frameInterval / 10));
+    while (stageStep < protocol.minimizationSteps) {
+      minimizer = minimizationStep(system, minimizer);
+      stageStep++;
+      step++;
+      if (stageStep % every === 0 || stageStep === protocol.minimizationSteps) {
+        await emitFrame((stageStep / protocol.minimizationSteps) * 100, minimizer.energy);
+        if (await checkControl()) return stop();
+      }
+    }
+    stage = 'equilibration';
+    stageStep = 0;
+    assignVelocities(system, INITIAL_TEMPERATURE, random);
+    computeForces(system);
+  }
+
+  // Stage 2: heat to the target temperature under a Berendsen thermostat
+  if (stage === 'equilibration') {
+    while (stageStep < protocol.equilibrationSteps) {
+      stageStep++;
+      const ramp = Math.min(1, stageStep / (0.6 * protocol.equilibrationSteps));
+      const target = INITIAL_TEMPERATURE + (protocol.temperature - INITIAL_TEMPERATURE) * ramp;
+      const energy = velocityVerletStep(system, protocol.timestep, { type: 'berendsen', temperature: target }, random);
+      step++;
+      time += protocol.timestep;
+      if (stageStep % protocol.frameInterval === 0) {
+        await emitFrame((stageStep / protocol.equilibrationSteps) * 100, energy);
+        if (await checkControl()) return stop();
+      }
+    }
+    stage = 'production';
+    stageStep = 0;
+    // The Gō model is solvent-free with no periodic box, so there is no volume to couple a barostat to
+    if (protocol.ensemble === 'NPT') {
+      pendingLog = `[MD] NPT requested: no periodic box in the Gō model, ${protocol.barostat} barostat inactive (running NVT)`;
+    }
+  }
+
+  // Stage 3: production dynamics in the requested ensemble (NPT integrates as NVT); extensions raise the step target live
+  const thermostat = protocol.ensemble === 'NVE' ? null : { type: protocol.thermostat, temperature: protocol.temperature };
+  while (stageStep < protocol.productionSteps) {
+    stageStep++;
+    const energy = velocityVerletStep(system, protocol.timestep, thermostat, random);
+    step++;
+    time += protocol.timestep;
+    if (stageStep % protocol.frameInterval === 0) {
+      await emitFrame((stageStep / protocol.productionSteps) * 100, energy);
+      if (await checkControl()) return stop();
+    }
+  }
+
+  postCheckpoint();
+  post({ type: 'complete', stopped: false });
+};
+
+// Builds the model inside the promise so setup errors are reported like runtime ones
+const launch = async (request: Extract<MDWorkerRequest, { type: 'start' | 'restore' }>) => {
+  if (request.type === 'start') {
+    return runProtocol(buildGoSystem(request.structure, request.protocol.cutoff), request.protocol);
+  }
+  const { checkpoint } = request;
+  return runProtocol(createGoSystem(checkpoint.atoms, checkpoint.protocol.cutoff), checkpoint.protocol, checkpoint);
+};
+
+ctx.onmessage = (event: MessageEvent<MDWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'start':
+    case 'restore':
+      launch(request).catch((error: unknown) => {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      });
+      break;
+    case 'pause':
+      control.paused = true;
+      break;
+    case 'resume':
+      control.paused = false;
+      control.wake?.();
+      break;
+    case 'stop':
+      control.stopped = true;
+      control.wake?.();
+      break;
+    case 'extend':
+      control.extraSteps += request.steps;
+      break;
+  }
+};
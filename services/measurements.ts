@@ -0,0 +1,207 @@
+import { Atom, AtomRef, Measurement, MeasurementKind, Trajectory } from "../types";
+
+// Distances, angles and dihedrals between atoms picked in the viewer or named in chat
+
+export const ATOM_COUNTS: Record<MeasurementKind, number> = { distance: 2, angle: 3, dihedral: 4 };
+
+export const MEASUREMENT_UNITS: Record<MeasurementKind, string> = { distance: 'Å', angle: '°', dihedral: '°' };
+
+export const measurementKindFor = (atomCount: number): MeasurementKind | undefined =>
+  (Object.keys(ATOM_COUNTS) as MeasurementKind[]).find(kind => ATOM_COUNTS[kind] === atomCount);
+
+const ONE_LETTER_CODES: Record<string, string> = {
+  A: 'ALA', R: 'ARG', N: 'ASN', D: 'ASP', C: 'CYS', Q: 'GLN', E: 'GLU', G: 'GLY', H: 'HIS', I: 'ILE',
+  L: 'LEU', K: 'LYS', M: 'MET', F: 'PHE', P: 'PRO', S: 'SER', T: 'THR', W: 'TRP', Y: 'TYR', V: 'VAL'
+};
+
+type Point = [number, number, number];
+
+const subtract = (a: Point, b: Point): Point => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Point, b: Point) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Point, b: Point): Point => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const norm = (a: Point) => Math.sqrt(dot(a, a));
+const degrees = (radians: number) => radians * 180 / Math.PI;
+
+/**
+ * Distance in Å, angle at the middle atom in degrees (0 to 180), or dihedral about the bond between
+ * the middle two atoms in degrees (-180 to 180, IUPAC sign convention).
+ */
+export const measureGeometry = (kind: MeasurementKind, points: Point[]): number => {
+  switch (kind) {
+    case 'distance':
+      return norm(subtract(points[0], points[1]));
+    case 'angle': {
+      const u = subtract(points[0], points[1]);
+      const v = subtract(points[2], points[1]);
+      const cosine = dot(u, v) / (norm(u) * norm(v));
+      return degrees(Math.acos(Math.min(1, Math.max(-1, cosine))));
+    }
+    case 'dihedral': {
+      const b1 = subtract(points[1], points[0]);
+      const b2 = subtract(points[2], points[1]);
+      const b3 = subtract(points[3], points[2]);
+      return degrees(Math.atan2(norm(b2) * dot(b1, cross(b2, b3)), dot(cross(b1, b2), cross(b2, b3))));
+    }
+  }
+};
+
+// "A:LYS48.CA"
+export const formatAtomRef = (ref: AtomRef) => `${ref.chainId ? `${ref.chainId}:` : ''}${ref.resName}${ref.resSeq}${ref.insCode}.${ref.name}`;
+
+export const formatMeasurementValue = (kind: MeasurementKind, value: number) =>
+  `${value.toFixed(kind === 'distance' ? 2 : 1)} ${MEASUREMENT_UNITS[kind]}`;
+
+// "Distance A:LYS48.CA – A:GLY76.CA: 12.34 Å"
+export const describeMeasurement = (measurement: Measurement, value?: number | null) =>
+  `${measurement.kind[0].toUpperCase()}${measurement.kind.slice(1)} ${measurement.atoms.map(formatAtomRef).join(' – ')}` +
+  (value !== undefined && value !== null ? `: ${formatMeasurementValue(measurement.kind, value)}` : '');
+
+export const atomRefOf = (atom: Atom): AtomRef => ({
+  chainId: atom.chainId,
+  resSeq: atom.resSeq,
+  insCode: atom.insCode,
+  resName: atom.resName,
+  name: atom.name
+});
+
+// Residue names are not compared: trajectory topologies may rename residues (HIS -> HSD)
+const sameAtom = (atom: Atom, ref: AtomRef) =>
+  atom.chainId === ref.chainId && atom.resSeq === ref.resSeq && atom.insCode === ref.insCode && atom.name === ref.name;
+
+const atomIndices = (atoms: Atom[], refs: AtomRef[]): number[] | null => {
+  const indices = refs.map(ref => atoms.findIndex(atom => sameAtom(atom, ref)));
+  return indices.every(i => i >= 0) ? indices : null;
+};
+
+// Value on the atoms' own coordinates, or null when an atom is missing from `atoms`
+export const measureAtoms = (atoms: Atom[], measurement: Measurement): number | null => {
+  const indices = atomIndices(atoms, measurement.atoms);
+  return indices ? measureGeometry(measurement.kind, indices.map(i => [atoms[i].x, atoms[i].y, atoms[i].z])) : null;
+};
+
+// Value in every trajectory frame, or null when the trajectory lacks one of the atoms (e.g. side chains of a Cα model)
+export const measurementSeries = (trajectory: Trajectory, measurement: Measurement): number[] | null => {
+  const indices = atomIndices(trajectory.atoms, measurement.atoms);
+  if (!indices) return null;
+  return trajectory.frames.map(({ coordinates: c }) =>
+    measureGeometry(measurement.kind, indices.map(i => [c[3 * i], c[3 * i + 1], c[3 * i + 2]])));
+};
+
+export interface AtomSpec {
+  chainId?: string;
+  resName?: string;
+  resSeq: number;
+  name?: string; // Cα when unset
+}
+
+/**
+ * Reads an atom as written in chat or by the model: "A:K48.CA", "K48 CA", "Lys48", "CA of K48",
+ * "G76 of chain B" or "residue 48". Throws an Error when the text is not an atom.
+ */
+export const parseAtomSpec = (text: string): AtomSpec => {
+  let rest = text.trim().replace(/\s+/g, ' ');
+  const spec: Partial<AtomSpec> = {};
+
+  const atomFirst = rest.match(/^(?:atom )?([A-Za-z0-9']{1,4}) of (?!chain )(.+)$/i);
+  if (atomFirst) {
+    spec.name = atomFirst[1].toUpperCase();
+    rest = atomFirst[2];
+  }
+
+  const chainSuffix = rest.match(/\s+(?:of|on|in) chain ([A-Za-z0-9])$/i);
+  const chainPrefix = rest.match(/^chain ([A-Za-z0-9])\s+|^([A-Za-z0-9]):\s*/i);
+  if (chainSuffix) {
+    spec.chainId = chainSuffix[1];
+    rest = rest.slice(0, chainSuffix.index);
+  } else if (chainPrefix) {
+    spec.chainId = chainPrefix[1] ?? chainPrefix[2];
+    rest = rest.slice(chainPrefix[0].length);
+  }
+
+  const residue = rest.match(/^(?:residue )?([A-Za-z]{3}|[A-Za-z])? ?(-?\d+)(?: ?[.: ] ?([A-Za-z0-9']{1,4}))?$/i);
+  if (!residue) throw new Error(`"${text.trim()}" is not an atom. Write atoms like A:K48.CA, K48 CA or CA of K48.`);
+  const [, code, number, name] = residue;
+  if (code) {
+    const upper = code.toUpperCase();
+    if (upper.length === 1 && !ONE_LETTER_CODES[upper]) throw new Error(`"${code}" in "${text.trim()}" is not a one-letter amino-acid code.`);
+    spec.resName = upper.length === 1 ? ONE_LETTER_CODES[upper] : upper;
+  }
+  if (name) {
+    if (spec.name) throw new Error(`"${text.trim()}" names two atoms.`);
+    spec.name = name.toUpperCase();
+  }
+  return { ...spec, resSeq: Number(number) };
+};
+
+const describeSpec = (spec: AtomSpec) =>
+  `${spec.chainId ? `chain ${spec.chainId} ` : ''}${spec.resName ?? 'residue '}${spec.resSeq}`;
+
+/**
+ * The structure's atom for `spec`; the first chain wins when no chain is given. Throws an Error
+ * saying what is missing.
+ */
+export const resolveAtomSpec = (atoms: Atom[], spec: AtomSpec): AtomRef => {
+  const chainIds = new Set(atoms.map(atom => atom.chainId));
+  const chainId = spec.chainId && !chainIds.has(spec.chainId)
+    ? [...chainIds].find(id => id.toUpperCase() === spec.chainId!.toUpperCase()) ?? spec.chainId
+    : spec.chainId;
+  const residueAtoms = atoms.filter(atom =>
+    atom.resSeq === spec.resSeq && (chainId === undefined || atom.chainId === chainId) && (!spec.resName || atom.resName === spec.resName));
+  if (residueAtoms.length === 0) {
+    const actual = atoms.find(atom => atom.resSeq === spec.resSeq && (chainId === undefined || atom.chainId === chainId));
+    throw new Error(`There is no ${describeSpec(spec)} in this structure${actual && spec.resName ? `; residue ${spec.resSeq} is ${actual.resName}` : ''}.`);
+  }
+  const name = spec.name ?? 'CA';
+  // Insertion-free residues first, so "48" means 48 rather than 48A
+  const atom = residueAtoms.find(a => a.name === name && a.insCode === '') ?? residueAtoms.find(a => a.name === name);
+  if (!atom) {
+    throw new Error(`${describeSpec({ ...spec, resName: residueAtoms[0].resName, chainId: residueAtoms[0].chainId })} has no atom ${name}. ` +
+      `Its atoms: ${[...new Set(residueAtoms.map(a => a.name))].join(', ')}.`);
+  }
+  return atomRefOf(atom);
+};
+
+// NGL atom index of `ref` in the loaded component, matched like trajectory playback matches atoms
+export const nglAtomIndex = (structure: any, ref: AtomRef): number | null => {
+  let found: number | null = null;
+  structure.eachAtom((ap: any) => {
+    if (found === null && ap.atomname === ref.name && ap.resno === ref.resSeq && (ap.chainname || '') === ref.chainId && (ap.inscode || '') === ref.insCode) {
+      found = ap.index;
+    }
+  });
+  return found;
+};
+
+export const atomRefFromNgl = (ap: any): AtomRef => ({
+  chainId: ap.chainname || '',
+  resSeq: ap.resno,
+  insCode: ap.inscode || '',
+  resName: ap.resname,
+  name: ap.atomname
+});
+
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV of the measurements with their values on `atoms` (the loaded structure). With a trajectory,
+ * each tracked measurement also gets its mean and standard deviation over the frames.
+ */
+export const measurementsToCSV = (measurements: Measurement[], atoms: Atom[], trajectory?: Trajectory): string => {
+  const rows = [['type', 'atom1', 'atom2', 'atom3', 'atom4', 'value', 'unit', 'trajectory_mean', 'trajectory_sd']];
+  for (const measurement of measurements) {
+    const value = measureAtoms(atoms, measurement);
+    const series = trajectory && measurement.tracked && trajectory.frames.length > 0 ? measurementSeries(trajectory, measurement) : null;
+    const mean = series ? series.reduce((sum, v) => sum + v, 0) / series.length : null;
+    const sd = series && mean !== null ? Math.sqrt(series.reduce((sum, v) => sum + (v - mean) ** 2, 0) / series.length) : null;
+    const names = measurement.atoms.map(formatAtomRef);
+    rows.push([
+      measurement.kind,
+      ...[0, 1, 2, 3].map(i => names[i] ?? ''),
+      value !== null ? value.toFixed(3) : '',
+      MEASUREMENT_UNITS[measurement.kind],
+      mean !== null ? mean.toFixed(3) : '',
+      sd !== null ? sd.toFixed(3) : ''
+    ]);
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
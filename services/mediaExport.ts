@@ -0,0 +1,178 @@
+import { CommandParams, CommandType, MovieFormat, MovieMotion } from "../types";
+import { createGifEncoder } from "./gifEncoder";
+
+// PNG snapshots and WebM/GIF movies of the NGL stage
+
+export const MAX_IMAGE_SIZE = 8192; // Longest rendered side in pixels, supersampling included
+export const MAX_IMAGE_SCALE = 8;
+export const SUPERSAMPLING_LEVELS = [1, 2, 4];
+export const DEFAULT_IMAGE_SCALE = 2;
+export const DEFAULT_SUPERSAMPLING = 2;
+
+export const MAX_MOVIE_FPS = 30;
+export const MAX_MOVIE_SECONDS = 60;
+export const DEFAULT_MOVIE_FPS = 20;
+export const DEFAULT_SPIN_SECONDS = 6; // One full turn
+export const GIF_MAX_WIDTH = 480; // GIFs get large quickly; wider movies should be WebM
+const WEBM_MAX_WIDTH = 1920;
+const WEBM_BITRATE = 8_000_000;
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface ExportedMedia extends ImageSize {
+  blob: Blob;
+  fileName: string;
+  frames?: number; // Movies only
+}
+
+export interface MoviePlan {
+  format: MovieFormat;
+  motion: MovieMotion;
+  fps: number;
+  frames: number;
+}
+
+// Output size for a width in pixels or a multiple of the view, keeping the view's aspect ratio
+export const imageSize = (view: ImageSize, { width, scale }: CommandParams[CommandType.EXPORT_IMAGE]): ImageSize => {
+  const factor = width ? width / view.width : scale ?? DEFAULT_IMAGE_SCALE;
+  return { width: Math.round(view.width * factor), height: Math.round(view.height * factor) };
+};
+
+/**
+ * Frame rate and frame count of a movie. Trajectory movies show every stored frame once unless a
+ * duration is given; spins make one full turn. Throws when a trajectory is asked for but there is none.
+ */
+export const planMovie = ({ format, motion, fps, duration }: CommandParams[CommandType.EXPORT_MOVIE], trajectoryFrames: number): MoviePlan => {
+  const chosenMotion = motion ?? (trajectoryFrames > 1 ? 'trajectory' : 'spin');
+  if (chosenMotion === 'trajectory' && trajectoryFrames < 2) {
+    throw new Error("There is no trajectory to play; run a simulation or import one, or record a spin instead.");
+  }
+  const rate = Math.min(fps ?? DEFAULT_MOVIE_FPS, MAX_MOVIE_FPS);
+  const seconds = Math.min(duration ?? (chosenMotion === 'trajectory' ? trajectoryFrames / rate : DEFAULT_SPIN_SECONDS), MAX_MOVIE_SECONDS);
+  return { format: format ?? 'webm', motion: chosenMotion, fps: rate, frames: Math.max(2, Math.round(seconds * rate)) };
+};
+
+// Trajectory frame shown in each movie frame, spread evenly from the first to the last
+export const trajectoryFrameAt = (movieFrame: number, movieFrames: number, trajectoryFrames: number) =>
+  Math.round(movieFrame * (trajectoryFrames - 1) / Math.max(movieFrames - 1, 1));
+
+// "molsim-1UBQ-20261019-142501.png"
+export const mediaFileName = (name: string, extension: string) => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `molsim-${name.replace(/[^\w.-]+/g, '_')}-${stamp}.${extension}`;
+};
+
+const toPng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) =>
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The browser could not encode the PNG.')), 'image/png'));
+
+// Halves the image until it is at most twice the target, then scales to the target; one big step would alias
+const resample = (source: CanvasImageSource & ImageSize, target: ImageSize): HTMLCanvasElement => {
+  let current: CanvasImageSource = source;
+  let { width, height } = source;
+  do {
+    width = Math.max(target.width, Math.floor(width / 2));
+    height = Math.max(target.height, Math.floor(height / 2));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(current, 0, 0, width, height);
+    current = canvas;
+  } while (width > target.width || height > target.height);
+  return current as HTMLCanvasElement;
+};
+
+/**
+ * PNG of the stage at `size`, rendered `supersampling` times larger by NGL's tiled renderer and scaled
+ * down. A transparent background leaves only the molecule opaque.
+ */
+export const renderImage = async (stage: any, size: ImageSize, supersampling: number, transparent: boolean): Promise<Blob> => {
+  const view: ImageSize = { width: stage.viewer.width, height: stage.viewer.height };
+  const factor = Math.max(1, Math.ceil(size.width * supersampling / view.width));
+  if (Math.max(view.width, view.height) * factor > MAX_IMAGE_SIZE) {
+    throw new Error(`${size.width}×${size.height} px with ${supersampling}× supersampling is over the ${MAX_IMAGE_SIZE} px rendering limit; lower the resolution or the supersampling.`);
+  }
+  const rendered: Blob = await stage.makeImage({ factor, antialias: false, trim: false, transparent });
+  const bitmap = await createImageBitmap(rendered);
+  try {
+    if (bitmap.width === size.width && bitmap.height === size.height) return rendered;
+    return await toPng(resample(bitmap, size));
+  } finally {
+    bitmap.close();
+  }
+};
+
+const nextTask = () => new Promise(resolve => window.setTimeout(resolve, 0));
+
+/**
+ * Records a movie of the stage. `showFrame(i)` poses the scene (camera or coordinates) before frame i
+ * is drawn. GIFs are encoded frame by frame; WebM is recorded in real time, so it takes as long as
+ * the movie lasts.
+ */
+export const recordMovie = async (
+  stage: any,
+  { format, fps, frames }: MoviePlan,
+  showFrame: (frame: number) => void,
+  onProgress?: (fraction: number) => void
+): Promise<ImageSize & { blob: Blob; frames: number }> => {
+  const source: HTMLCanvasElement = stage.viewer.renderer.domElement;
+  const scale = Math.min(1, (format === 'gif' ? GIF_MAX_WIDTH : WEBM_MAX_WIDTH) / source.width);
+  // Even sizes keep video encoders from cropping a pixel
+  const width = Math.max(2, Math.round(source.width * scale / 2) * 2);
+  const height = Math.max(2, Math.round(source.height * scale / 2) * 2);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: format === 'gif' })!;
+  context.imageSmoothingQuality = 'high';
+
+  const drawFrame = (frame: number) => {
+    showFrame(frame);
+    stage.viewer.render();
+    context.drawImage(source, 0, 0, width, height);
+    onProgress?.((frame + 1) / frames);
+  };
+
+  if (format === 'gif') {
+    const encoder = createGifEncoder(width, height, 1000 / fps);
+    for (let frame = 0; frame < frames; frame++) {
+      drawFrame(frame);
+      encoder.addFrame(context.getImageData(0, 0, width, height).data);
+      await nextTask(); // Lets the progress bar repaint
+    }
+    return { blob: encoder.finish(), width, height, frames };
+  }
+
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser can't record WebM video; export a GIF instead.");
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: WEBM_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => { if (event.data.size > 0) chunks.push(event.data); };
+  const stopped = new Promise<void>((resolve, reject) => {
+    recorder.onstop = () => resolve();
+    recorder.onerror = () => reject(new Error('The browser stopped recording.'));
+  });
+  recorder.start();
+  const start = performance.now();
+  try {
+    for (let frame = 0; frame < frames; frame++) {
+      drawFrame(frame);
+      track.requestFrame();
+      // The recorder timestamps frames by the clock, so each one is held for its share of the movie
+      const due = start + (frame + 1) * 1000 / fps;
+      await new Promise(resolve => window.setTimeout(resolve, Math.max(0, due - performance.now())));
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(t => t.stop());
+  }
+  await stopped;
+  return { blob: new Blob(chunks, { type: 'video/webm' }), width, height, frames };
+};
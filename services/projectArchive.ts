@@ -0,0 +1,356 @@
+import {
+  ComparedStructure,
+  EvaluationMetrics,
+  Measurement,
+  Message,
+  MolecularState,
+  Project,
+  ProjectSession,
+  ProjectWorkspace,
+  RepresentationLayer,
+  RMSDSettings,
+  SimulationCheckpoint,
+  SimulationData,
+  SimulationProtocol,
+  SimulationStage,
+  StructureFormat,
+  StructureMetadata,
+  StructureSourceId,
+  Trajectory,
+  TrajectorySource
+} from "../types";
+import { DEFAULT_PROTOCOL } from "./mdEngine";
+import { ATOM_COUNTS } from "./measurements";
+import { resolveProtocol } from "./simulationProtocol";
+import { parseMMCIF, writeMMCIF } from "./structureModel";
+import { getStructureFormat } from "./structureFiles";
+import { isStructureSourceId, resolveStructureSource } from "./structureSources";
+import { DEFAULT_RMSD_SETTINGS } from "./trajectory";
+import { readDCD, writeDCD } from "./trajectoryReaders";
+import { createZip, readZip, ZipEntry } from "./zipArchive";
+
+const ARCHIVE_FORMAT = 'molsim-project';
+// Bump when the manifest or file layout changes incompatibly; imports refuse newer versions
+export const ARCHIVE_VERSION = 1;
+
+export const ARCHIVE_FILES = {
+  manifest: 'manifest.json',
+  chat: 'chat.json',
+  data: 'simulation_data.csv',
+  logs: 'simulation.log',
+  evaluation: 'evaluation.json',
+  checkpoint: 'checkpoint.json',
+  topology: 'trajectory/topology.cif',
+  trajectory: 'trajectory/trajectory.dcd',
+  frames: 'trajectory/frames.csv'
+};
+
+const DATA_COLUMNS = ['time_ps', 'rmsd_angstrom', 'energy_kcal_mol', 'temperature_k'];
+const STAGES: SimulationStage[] = ['minimization', 'equilibration', 'production'];
+const REPRESENTATIONS: MolecularState['representation'][] = ['cartoon', 'licorice', 'spacefill', 'surface', 'ribbon'];
+const COLOR_SCHEMES: MolecularState['colorScheme'][] = ['residueindex', 'chainid', 'element', 'hydrophobicity'];
+
+export interface ProjectManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt?: string; // Zip exports only; git revisions carry their own timestamp
+  project: Omit<Project, 'localStructure'>;
+  protocol: SimulationProtocol; // Settings for the next run
+  runProtocol?: SimulationProtocol; // Settings the exported trajectory was produced with
+  view: Pick<MolecularState, 'representation' | 'colorScheme' | 'selections' | 'highlight' | 'measurements' | 'comparisons' | 'layers'> & { rmsdSettings: RMSDSettings };
+  simulation: { stage: SimulationStage; progress: number; historyOffset: number };
+  customData?: StructureMetadata;
+  structure?: { file: string; format: StructureFormat; pdbId: string; source?: StructureSourceId; local: boolean };
+  trajectory?: { atomCount: number; frameCount: number; source?: TrajectorySource };
+}
+
+export interface ExportedProject {
+  blob: Blob;
+  fileName: string;
+  notes: string[]; // Parts that could not be included
+}
+
+export interface ImportedProject {
+  project: Project;
+  session: ProjectSession;
+  exportedAt?: string;
+}
+
+const csvValue = (value: number | undefined) => value === undefined ? '' : String(value);
+
+const writeDataCSV = (data: SimulationData[]) =>
+  [DATA_COLUMNS.join(','), ...data.map(d => [d.time, d.rmsd, d.energy, d.temperature].map(csvValue).join(','))].join('\n') + '\n';
+
+// The structure the project shows: its uploaded file, or a fresh download of the remote entry
+const structureEntry = async (workspace: ProjectWorkspace): Promise<{ entry: ZipEntry; format: StructureFormat; local: boolean }> => {
+  const { pdbId, structureSource, localStructure } = workspace.molecularState;
+  if (localStructure && localStructure.fileName === pdbId) {
+    return { entry: { name: `structure/${localStructure.fileName}`, data: localStructure.data }, format: localStructure.format, local: true };
+  }
+  const coordinates = await resolveStructureSource(pdbId, structureSource).fetchCoordinates(pdbId);
+  return { entry: { name: `structure/${pdbId}.${coordinates.format}`, data: coordinates.text }, format: coordinates.format, local: false };
+};
+
+const checkpointJSON = (checkpoint: SimulationCheckpoint) => JSON.stringify({
+  ...checkpoint,
+  positions: Array.from(checkpoint.positions),
+  velocities: Array.from(checkpoint.velocities)
+});
+
+/**
+ * The files a project is stored as: manifest.json (project record, protocols, view settings), the
+ * structure file, the trajectory as DCD with an mmCIF topology and per-frame times, SimulationData
+ * as CSV, simulation logs, the chat transcript, evaluation metrics and the latest checkpoint.
+ * Shared by zip exports and git revisions.
+ */
+export const projectArchiveEntries = async (project: Project, workspace: ProjectWorkspace, exportedAt?: Date): Promise<{ entries: ZipEntry[]; notes: string[] }> => {
+  const { molecularState: state, messages, historyOffset } = workspace;
+  const entries: ZipEntry[] = [];
+  const notes: string[] = [];
+  const { localStructure: _bundled, ...projectRecord } = project;
+
+  const manifest: ProjectManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: exportedAt?.toISOString(),
+    project: projectRecord,
+    protocol: state.protocol,
+    runProtocol: state.runProtocol,
+    view: {
+      representation: state.representation,
+      colorScheme: state.colorScheme,
+      rmsdSettings: state.rmsdSettings,
+      selections: state.selections,
+      highlight: state.highlight,
+      measurements: state.measurements,
+      comparisons: state.comparisons,
+      layers: state.layers
+    },
+    simulation: { stage: state.simulationStage, progress: state.simulationProgress, historyOffset },
+    customData: state.customData
+  };
+
+  if (state.pdbId) {
+    try {
+      const { entry, format, local } = await structureEntry(workspace);
+      entries.push(entry);
+      manifest.structure = { file: entry.name, format, pdbId: state.pdbId, source: state.structureSource, local };
+    } catch (error) {
+      notes.push(`the structure file (${error instanceof Error ? error.message : 'download failed'})`);
+    }
+  }
+
+  const { trajectory } = state;
+  if (trajectory && trajectory.frames.length > 0) {
+    const interval = state.runProtocol ? state.runProtocol.frameInterval * state.runProtocol.timestep : 1;
+    entries.push(
+      { name: ARCHIVE_FILES.topology, data: writeMMCIF(trajectory.atoms, project.name) },
+      { name: ARCHIVE_FILES.trajectory, data: writeDCD(trajectory.frames.map(f => f.coordinates), trajectory.atoms.length, interval, project.name) },
+      { name: ARCHIVE_FILES.frames, data: ['frame,time_ps,stage', ...trajectory.frames.map((f, i) => `${i},${f.time},${f.stage ?? ''}`)].join('\n') + '\n' }
+    );
+    manifest.trajectory = { atomCount: trajectory.atoms.length, frameCount: trajectory.frames.length, source: trajectory.source };
+  }
+
+  entries.push(
+    { name: ARCHIVE_FILES.data, data: writeDataCSV(state.simulationData) },
+    { name: ARCHIVE_FILES.logs, data: [...state.simulationLogs].reverse().join('\n') + '\n' }, // Oldest first
+    { name: ARCHIVE_FILES.chat, data: JSON.stringify(messages.map(({ isStreaming: _streaming, ...message }) => message), null, 2) }
+  );
+  if (state.evaluationData) {
+    entries.push({ name: ARCHIVE_FILES.evaluation, data: JSON.stringify({ metrics: state.evaluationData, explanation: state.evaluationExplanation }, null, 2) });
+  }
+  if (state.checkpoint) entries.push({ name: ARCHIVE_FILES.checkpoint, data: checkpointJSON(state.checkpoint) });
+
+  entries.unshift({ name: ARCHIVE_FILES.manifest, data: JSON.stringify(manifest, null, 2) });
+  return { entries, notes };
+};
+
+export const exportProjectArchive = async (project: Project, workspace: ProjectWorkspace): Promise<ExportedProject> => {
+  const { entries, notes } = await projectArchiveEntries(project, workspace, new Date());
+  const fileName = `${project.name.replace(/[^A-Za-z0-9_.-]+/g, '_').replace(/^_+|_+$/g, '') || 'project'}.zip`;
+  return { blob: createZip(entries), fileName, notes };
+};
+
+const decodeText = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+const parseJSON = <T>(bytes: Uint8Array, name: string): T => {
+  try {
+    return JSON.parse(decodeText(bytes));
+  } catch {
+    throw new Error(`${name} in the archive is not valid JSON.`);
+  }
+};
+
+export const readDataCSV = (text: string): SimulationData[] => {
+  const [header, ...rows] = text.split(/\r?\n/).filter(line => line.trim());
+  if (header?.trim() !== DATA_COLUMNS.join(',')) throw new Error(`${ARCHIVE_FILES.data} has unexpected columns.`);
+  const optional = (value?: string) => value === undefined || value === '' ? undefined : Number(value);
+  return rows.map((row, i) => {
+    const [time, rmsd, energy, temperature] = row.split(',');
+    const point: SimulationData = { time: Number(time), rmsd: Number(rmsd), energy: optional(energy), temperature: optional(temperature) };
+    if (![point.time, point.rmsd, point.energy ?? 0, point.temperature ?? 0].every(Number.isFinite)) {
+      throw new Error(`${ARCHIVE_FILES.data} row ${i + 2} is not numeric.`);
+    }
+    return point;
+  });
+};
+
+const readTrajectory = (files: Map<string, Uint8Array>, manifest: ProjectManifest): Trajectory | undefined => {
+  const expected = manifest.trajectory;
+  if (!expected) return undefined;
+  const topology = files.get(ARCHIVE_FILES.topology);
+  const dcd = files.get(ARCHIVE_FILES.trajectory);
+  const index = files.get(ARCHIVE_FILES.frames);
+  if (!topology || !dcd || !index) throw new Error('The manifest lists a trajectory but its files are missing from the archive.');
+
+  const atoms = parseMMCIF(decodeText(topology)).models[0]?.atoms ?? [];
+  const raw = readDCD(dcd.buffer.slice(dcd.byteOffset, dcd.byteOffset + dcd.byteLength) as ArrayBuffer);
+  const rows = decodeText(index).split(/\r?\n/).slice(1).filter(line => line.trim());
+  if (atoms.length !== expected.atomCount || raw.atomCount !== expected.atomCount) {
+    throw new Error(`Trajectory atom counts disagree: manifest ${expected.atomCount}, topology ${atoms.length}, DCD ${raw.atomCount}.`);
+  }
+  if (raw.frames.length !== expected.frameCount || rows.length !== expected.frameCount) {
+    throw new Error(`Trajectory frame counts disagree: manifest ${expected.frameCount}, DCD ${raw.frames.length}, frame index ${rows.length}.`);
+  }
+
+  return {
+    atoms,
+    source: expected.source,
+    frames: raw.frames.map((frame, i) => {
+      const [, time, stage] = rows[i].split(',');
+      return {
+        time: Number(time),
+        stage: STAGES.find(s => s === stage),
+        coordinates: frame.coordinates
+      };
+    })
+  };
+};
+
+const readCheckpoint = (files: Map<string, Uint8Array>): SimulationCheckpoint | undefined => {
+  const bytes = files.get(ARCHIVE_FILES.checkpoint);
+  if (!bytes) return undefined;
+  const raw = parseJSON<SimulationCheckpoint & { positions: number[]; velocities: number[] }>(bytes, ARCHIVE_FILES.checkpoint);
+  const checkpoint: SimulationCheckpoint = {
+    ...raw,
+    protocol: resolveProtocol(raw.protocol, DEFAULT_PROTOCOL),
+    positions: Float64Array.from(raw.positions),
+    velocities: Float64Array.from(raw.velocities)
+  };
+  if (checkpoint.positions.length !== 3 * checkpoint.atoms.length || checkpoint.velocities.length !== checkpoint.positions.length) {
+    throw new Error(`${ARCHIVE_FILES.checkpoint} does not match its bead topology.`);
+  }
+  return checkpoint;
+};
+
+// Measurements whose kind and atoms were written by this app; anything else is dropped on import
+const isMeasurement = (m: Measurement): boolean =>
+  typeof m?.id === 'string' && m.kind in ATOM_COUNTS && Array.isArray(m.atoms) && m.atoms.length === ATOM_COUNTS[m.kind] &&
+  m.atoms.every(a => typeof a?.chainId === 'string' && typeof a.resSeq === 'number' && typeof a.insCode === 'string' && typeof a.name === 'string');
+
+const isComparedStructure = (c: ComparedStructure): boolean =>
+  typeof c?.pdbId === 'string' && [c.rmsd, c.tmScore, c.identity].every(Number.isFinite) &&
+  Array.isArray(c.transform) && c.transform.length === 16 && c.transform.every(Number.isFinite) && Array.isArray(c.deviations);
+
+const isLayer = (l: RepresentationLayer): boolean =>
+  typeof l?.id === 'string' && REPRESENTATIONS.includes(l.representation) && COLOR_SCHEMES.includes(l.colorScheme) &&
+  typeof l.selection === 'string' && Number.isFinite(l.opacity) && l.opacity >= 0 && l.opacity <= 1 && typeof l.visible === 'boolean';
+
+// Refuses archives from other tools and from newer releases whose layout this build can't know
+const checkManifest = (manifest: Partial<ProjectManifest> | null, fileName: string): ProjectManifest => {
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error(`${fileName} is not a MolSim project archive.`);
+  }
+  const { version } = manifest;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`${fileName} has an unreadable manifest version (${String(version)}).`);
+  }
+  if (version > ARCHIVE_VERSION) {
+    throw new Error(`${fileName} was exported by a newer version of MolSim (archive v${version}; this app reads up to v${ARCHIVE_VERSION}). Update the app to import it.`);
+  }
+  if (!manifest.project || typeof manifest.project.name !== 'string' || typeof manifest.project.pdbId !== 'string') {
+    throw new Error(`${fileName} has no project record in its manifest.`);
+  }
+  return manifest as ProjectManifest;
+};
+
+export const readProjectManifest = (files: Map<string, Uint8Array>, sourceName: string): ProjectManifest => {
+  const bytes = files.get(ARCHIVE_FILES.manifest);
+  if (!bytes) throw new Error(`${sourceName} has no ${ARCHIVE_FILES.manifest}; it is not a MolSim project archive.`);
+  return checkManifest(parseJSON<Partial<ProjectManifest>>(bytes, ARCHIVE_FILES.manifest), sourceName);
+};
+
+/**
+ * Rebuilds a project from the files of projectArchiveEntries (a zip or a git revision) under
+ * `projectId`.
+ */
+export const projectFromArchiveFiles = (files: Map<string, Uint8Array>, sourceName: string, projectId: string): ImportedProject => {
+  const manifest = readProjectManifest(files, sourceName);
+  const chat = files.get(ARCHIVE_FILES.chat);
+  const data = files.get(ARCHIVE_FILES.data);
+  if (!chat || !data) throw new Error(`${sourceName} is missing ${!chat ? ARCHIVE_FILES.chat : ARCHIVE_FILES.data}.`);
+
+  const { structure } = manifest;
+  let project: Project = {
+    ...manifest.project,
+    id: projectId,
+    structureSource: isStructureSourceId(manifest.project.structureSource) ? manifest.project.structureSource : undefined,
+    status: ['active', 'completed', 'archived'].includes(manifest.project.status) ? manifest.project.status : 'active',
+    lastModified: Number(manifest.project.lastModified) || Date.now()
+  };
+  if (structure?.local) {
+    const bytes = files.get(structure.file);
+    const fileName = structure.file.split('/').pop() || structure.file;
+    const format = getStructureFormat(fileName);
+    if (!bytes || !format) throw new Error(`${sourceName} is missing its structure file ${structure.file}.`);
+    project = { ...project, pdbId: fileName, structureSource: undefined, localStructure: { fileName, format, data: decodeText(bytes) } };
+  }
+
+  const evaluation = files.get(ARCHIVE_FILES.evaluation);
+  const { metrics, explanation } = evaluation
+    ? parseJSON<{ metrics?: EvaluationMetrics; explanation?: string }>(evaluation, ARCHIVE_FILES.evaluation)
+    : { metrics: undefined, explanation: undefined };
+  const logs = files.get(ARCHIVE_FILES.logs);
+  const { view, simulation } = manifest;
+
+  const session: ProjectSession = {
+    projectId: project.id,
+    messages: parseJSON<Message[]>(chat, ARCHIVE_FILES.chat),
+    state: {
+      pdbId: project.pdbId,
+      structureSource: project.structureSource,
+      representation: REPRESENTATIONS.find(r => r === view?.representation) ?? 'cartoon',
+      colorScheme: COLOR_SCHEMES.find(c => c === view?.colorScheme) ?? 'chainid',
+      rmsdSettings: view?.rmsdSettings ?? DEFAULT_RMSD_SETTINGS,
+      simulationStage: STAGES.find(s => s === simulation?.stage) ?? 'minimization',
+      simulationProgress: Number(simulation?.progress) || 0,
+      simulationData: readDataCSV(decodeText(data)),
+      simulationLogs: logs ? decodeText(logs).split('\n').filter(line => line).reverse() : [], // Newest first, as displayed
+      protocol: resolveProtocol(manifest.protocol, DEFAULT_PROTOCOL),
+      runProtocol: manifest.runProtocol ? resolveProtocol(manifest.runProtocol, DEFAULT_PROTOCOL) : undefined,
+      checkpoint: readCheckpoint(files),
+      customData: manifest.customData,
+      evaluationData: metrics,
+      evaluationExplanation: explanation,
+      selections: Array.isArray(view?.selections)
+        ? view.selections.filter(s => typeof s?.name === 'string' && typeof s?.expression === 'string')
+        : undefined,
+      highlight: typeof view?.highlight?.expression === 'string'
+        ? { expression: view.highlight.expression, style: REPRESENTATIONS.find(r => r === view.highlight?.style) ?? 'licorice' }
+        : undefined,
+      measurements: Array.isArray(view?.measurements) ? view.measurements.filter(isMeasurement) : undefined,
+      comparisons: Array.isArray(view?.comparisons) ? view.comparisons.filter(isComparedStructure) : undefined,
+      layers: Array.isArray(view?.layers) ? view.layers.filter(isLayer) : undefined
+    },
+    trajectory: readTrajectory(files, manifest),
+    historyOffset: Number(simulation?.historyOffset) || 0,
+    interrupted: false
+  };
+  if (!Array.isArray(session.messages)) throw new Error(`${ARCHIVE_FILES.chat} does not hold a chat transcript.`);
+
+  return { project, session, exportedAt: manifest.exportedAt };
+};
+
+// Imported archives become new projects, so importing the same archive twice gives two projects
+export const importProjectArchive = async (file: File): Promise<ImportedProject> =>
+  projectFromArchiveFiles(await readZip(await file.arrayBuffer()), file.name, Date.now().toString());
@@ -0,0 +1,307 @@
+import { Buffer } from 'buffer';
+import git from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+import LightningFS from '@isomorphic-git/lightning-fs';
+import { EvaluationMetrics, Project, ProjectWorkspace, SimulationData } from "../types";
+import { ARCHIVE_FILES, ImportedProject, projectArchiveEntries, projectFromArchiveFiles, ProjectManifest, readDataCSV, readProjectManifest } from "./projectArchive";
+import { describeMeasurement } from "./measurements";
+import { describeLayer } from "./representationLayers";
+
+// isomorphic-git expects Node's Buffer as a global
+const globals = globalThis as unknown as { Buffer?: typeof Buffer };
+globals.Buffer ??= Buffer;
+
+// One repository per project in an IndexedDB-backed file system; each revision holds the project archive files
+const fs = new LightningFS('molsim-git');
+const pfs = fs.promises;
+const BRANCH = 'main';
+const DEFAULT_AUTHOR = { name: 'MolSim User', email: 'molsim@localhost' };
+
+export interface RepositoryConfig {
+  remoteUrl: string; // Any git HTTP remote, e.g. a bare repo behind `git http-backend`
+  remoteBranch: string;
+  username: string;
+  token: string; // Stored in the repository config in this browser
+  corsProxy: string; // Needed for hosts that don't send CORS headers
+  authorName: string;
+  authorEmail: string;
+}
+
+export interface ProjectRevision {
+  oid: string;
+  message: string;
+  author: string;
+  timestamp: number; // ms
+}
+
+export interface RevisionChange {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+export interface RevisionDiff {
+  files: { path: string; change: 'added' | 'removed' | 'modified' }[];
+  parameters: RevisionChange[];
+  metrics: RevisionChange[];
+}
+
+// Repository config keys; the remote and author use git's own names
+const CONFIG_KEYS: Record<keyof RepositoryConfig, string> = {
+  remoteUrl: 'remote.origin.url',
+  remoteBranch: 'molsim.remotebranch',
+  username: 'molsim.username',
+  token: 'molsim.token',
+  corsProxy: 'molsim.corsproxy',
+  authorName: 'user.name',
+  authorEmail: 'user.email'
+};
+
+const projectDir = (projectId: string) => `/${projectId}`;
+
+const exists = async (path: string) => {
+  try {
+    await pfs.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const makeDirectories = async (path: string) => {
+  let current = '';
+  for (const part of path.split('/').filter(Boolean)) {
+    current += `/${part}`;
+    if (!(await exists(current))) await pfs.mkdir(current);
+  }
+};
+
+const hasRepository = (dir: string) => exists(`${dir}/.git`);
+
+const ensureRepository = async (dir: string) => {
+  if (await hasRepository(dir)) return;
+  await makeDirectories(dir);
+  await git.init({ fs, dir, defaultBranch: BRANCH });
+};
+
+export const loadRepositoryConfig = async (projectId: string): Promise<RepositoryConfig> => {
+  const dir = projectDir(projectId);
+  const config: RepositoryConfig = {
+    remoteUrl: '',
+    remoteBranch: BRANCH,
+    username: '',
+    token: '',
+    corsProxy: '',
+    authorName: DEFAULT_AUTHOR.name,
+    authorEmail: DEFAULT_AUTHOR.email
+  };
+  if (!(await hasRepository(dir))) return config;
+  for (const key of Object.keys(CONFIG_KEYS) as (keyof RepositoryConfig)[]) {
+    const value = await git.getConfig({ fs, dir, path: CONFIG_KEYS[key] });
+    if (typeof value === 'string' && value) config[key] = value;
+  }
+  return config;
+};
+
+export const saveRepositoryConfig = async (projectId: string, config: RepositoryConfig) => {
+  const dir = projectDir(projectId);
+  await ensureRepository(dir);
+  for (const key of Object.keys(CONFIG_KEYS) as (keyof RepositoryConfig)[]) {
+    const value = config[key].trim();
+    await git.setConfig({ fs, dir, path: CONFIG_KEYS[key], value: value || undefined });
+  }
+  if (config.remoteUrl.trim()) await git.setConfig({ fs, dir, path: 'remote.origin.fetch', value: '+refs/heads/*:refs/remotes/origin/*' });
+};
+
+/**
+ * Records the project's current artifacts as a new revision on `main`. Returns a null oid when
+ * nothing changed since the last revision. If the structure can't be downloaded, the previous
+ * revision's copy is kept.
+ */
+export const commitProject = async (project: Project, workspace: ProjectWorkspace, message: string): Promise<{ oid: string | null; notes: string[] }> => {
+  if (!message.trim()) throw new Error('A commit needs a message.');
+  const dir = projectDir(project.id);
+  await ensureRepository(dir);
+
+  const { entries, notes } = await projectArchiveEntries(project, workspace);
+  const written = new Set(entries.map(entry => entry.name));
+  const keepStructure = !entries.some(entry => entry.name.startsWith('structure/'));
+
+  for (const entry of entries) {
+    await makeDirectories(`${dir}/${entry.name.split('/').slice(0, -1).join('/')}`);
+    await pfs.writeFile(`${dir}/${entry.name}`, entry.data);
+    await git.add({ fs, dir, filepath: entry.name });
+  }
+  // Artifacts the project no longer has, e.g. a trajectory replaced by a new structure
+  for (const path of await git.listFiles({ fs, dir })) {
+    if (written.has(path) || (keepStructure && path.startsWith('structure/'))) continue;
+    await pfs.unlink(`${dir}/${path}`);
+    await git.remove({ fs, dir, filepath: path });
+  }
+
+  const status = await git.statusMatrix({ fs, dir });
+  if (!status.some(([, head, workdir, stage]) => head !== workdir || head !== stage)) return { oid: null, notes };
+
+  const { authorName, authorEmail } = await loadRepositoryConfig(project.id);
+  const oid = await git.commit({ fs, dir, message: message.trim(), author: { name: authorName, email: authorEmail } });
+  return { oid, notes };
+};
+
+// Newest first; empty until the first commit
+export const listRevisions = async (projectId: string): Promise<ProjectRevision[]> => {
+  const dir = projectDir(projectId);
+  if (!(await hasRepository(dir))) return [];
+  try {
+    const commits = await git.log({ fs, dir, ref: BRANCH });
+    return commits.map(({ oid, commit }) => ({
+      oid,
+      message: commit.message.trim(),
+      author: commit.author.name,
+      timestamp: commit.author.timestamp * 1000
+    }));
+  } catch (error) {
+    if (error instanceof git.Errors.NotFoundError) return [];
+    throw error;
+  }
+};
+
+const readFiles = async (dir: string, oid: string, paths: string[]) => {
+  const files = new Map<string, Uint8Array>();
+  for (const filepath of paths) {
+    try {
+      files.set(filepath, (await git.readBlob({ fs, dir, oid, filepath })).blob);
+    } catch (error) {
+      if (!(error instanceof git.Errors.NotFoundError)) throw error;
+    }
+  }
+  return files;
+};
+
+// Rebuilds the project as it was at `oid`; the repository itself is untouched, so committing afterwards records the rollback
+export const checkoutRevision = async (projectId: string, oid: string): Promise<ImportedProject> => {
+  const dir = projectDir(projectId);
+  const files = await readFiles(dir, oid, await git.listFiles({ fs, dir, ref: oid }));
+  return projectFromArchiveFiles(files, `revision ${oid.slice(0, 7)}`, projectId);
+};
+
+// Flattens nested settings to "section.field" entries for comparison
+const flatten = (value: unknown, prefix: string, out: Record<string, string>) => {
+  if (value === undefined || value === null) return out;
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => flatten(child, prefix ? `${prefix}.${key}` : key, out));
+  } else {
+    out[prefix] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return out;
+};
+
+const revisionParameters = (manifest: ProjectManifest) => flatten({
+  structure: { pdbId: manifest.project.pdbId, source: manifest.project.structureSource },
+  runProtocol: manifest.runProtocol,
+  protocol: manifest.protocol,
+  // Saved selections compare one by one, keyed by name; measurements by the atoms they join, comparisons by ID,
+  // layers by position in the stack
+  view: {
+    ...manifest.view,
+    selections: Object.fromEntries((manifest.view?.selections ?? []).map(s => [s.name, s.expression])),
+    measurements: manifest.view?.measurements?.map(m => describeMeasurement(m)),
+    comparisons: manifest.view?.comparisons?.map(c => c.pdbId),
+    layers: Object.fromEntries((manifest.view?.layers ?? []).map((layer, i) => [i + 1, describeLayer(layer)]))
+  }
+}, '', {});
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const revisionMetrics = (data: SimulationData[], evaluation?: EvaluationMetrics): Record<string, string> => {
+  const metrics: Record<string, string> = { 'Frames': String(data.length) };
+  if (data.length > 0) {
+    const last = data[data.length - 1];
+    const rmsd = data.map(d => d.rmsd);
+    const energies = data.flatMap(d => d.energy === undefined ? [] : [d.energy]);
+    const temperatures = data.flatMap(d => d.temperature === undefined ? [] : [d.temperature]);
+    metrics['Simulated time (ps)'] = last.time.toFixed(1);
+    metrics['Final RMSD (Å)'] = last.rmsd.toFixed(3);
+    metrics['Mean RMSD (Å)'] = mean(rmsd).toFixed(3);
+    metrics['Max RMSD (Å)'] = Math.max(...rmsd).toFixed(3);
+    if (energies.length > 0) metrics['Final energy (kcal/mol)'] = energies[energies.length - 1].toFixed(1);
+    if (temperatures.length > 0) metrics['Mean temperature (K)'] = mean(temperatures).toFixed(1);
+  }
+  if (evaluation) metrics['Evaluation score'] = String(evaluation.overallScore);
+  return metrics;
+};
+
+const changes = (before: Record<string, string>, after: Record<string, string>): RevisionChange[] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(label => before[label] !== after[label])
+    .map(label => ({ label, before: before[label], after: after[label] }));
+
+// What changed from `fromOid` to `toOid`: artifact files, run and view parameters, and summary metrics
+export const compareRevisions = async (projectId: string, fromOid: string, toOid: string): Promise<RevisionDiff> => {
+  const dir = projectDir(projectId);
+  const files: RevisionDiff['files'] = await git.walk({
+    fs,
+    dir,
+    trees: [git.TREE({ ref: fromOid }), git.TREE({ ref: toOid })],
+    map: async (path, [before, after]) => {
+      if (path === '.' || (await before?.type()) === 'tree' || (await after?.type()) === 'tree') return undefined;
+      if (!before) return { path, change: 'added' };
+      if (!after) return { path, change: 'removed' };
+      return (await before.oid()) === (await after.oid()) ? undefined : { path, change: 'modified' };
+    }
+  });
+
+  const summaryPaths = [ARCHIVE_FILES.manifest, ARCHIVE_FILES.data, ARCHIVE_FILES.evaluation];
+  const [before, after] = await Promise.all([fromOid, toOid].map(oid => readFiles(dir, oid, summaryPaths)));
+  const summarize = (revision: Map<string, Uint8Array>, oid: string) => {
+    const manifest = readProjectManifest(revision, `revision ${oid.slice(0, 7)}`);
+    const data = revision.get(ARCHIVE_FILES.data);
+    const evaluation = revision.get(ARCHIVE_FILES.evaluation);
+    return {
+      parameters: revisionParameters(manifest),
+      metrics: revisionMetrics(
+        data ? readDataCSV(new TextDecoder().decode(data)) : [],
+        evaluation ? JSON.parse(new TextDecoder().decode(evaluation)).metrics : undefined
+      )
+    };
+  };
+  const a = summarize(before, fromOid);
+  const b = summarize(after, toOid);
+  return { files, parameters: changes(a.parameters, b.parameters), metrics: changes(a.metrics, b.metrics) };
+};
+
+// Pushes `main` to the configured remote branch
+export const pushProject = async (projectId: string) => {
+  const dir = projectDir(projectId);
+  const config = await loadRepositoryConfig(projectId);
+  if (!config.remoteUrl) throw new Error('Set a remote URL for this project first.');
+  if ((await listRevisions(projectId)).length === 0) throw new Error('Commit the project before pushing.');
+
+  const result = await git.push({
+    fs,
+    http,
+    dir,
+    remote: 'origin',
+    ref: BRANCH,
+    remoteRef: config.remoteBranch || BRANCH,
+    corsProxy: config.corsProxy || undefined,
+    onAuth: () => (config.username || config.token ? { username: config.username || config.token, password: config.token } : undefined),
+    onAuthFailure: () => ({ cancel: true })
+  });
+  if (!result.ok) throw new Error(result.error || 'The remote rejected the push.');
+  return { remoteUrl: config.remoteUrl, remoteBranch: config.remoteBranch || BRANCH };
+};
+
+// Drops a deleted project's repository
+export const deleteRepository = async (projectId: string) => {
+  const remove = async (path: string) => {
+    const stat = await pfs.stat(path);
+    if (stat.isDirectory()) {
+      for (const name of await pfs.readdir(path)) await remove(`${path}/${name}`);
+      await pfs.rmdir(path);
+    } else {
+      await pfs.unlink(path);
+    }
+  };
+  const dir = projectDir(projectId);
+  if (await exists(dir)) await remove(dir);
+};
@@ -0,0 +1,296 @@
+
+import { Atom, MolecularState, PersistedMolecularState, Project, ProjectSession, Sender, SimulationCheckpoint, Trajectory, TrajectoryFrame } from "../types";
+import { DEFAULT_RMSD_SETTINGS } from "./trajectory";
+
+const DB_NAME = 'molsim';
+const DB_VERSION = 1;
+
+// MIGRATIONS[v] upgrades a database at version v to v + 1; append new steps and bump DB_VERSION, never edit old ones
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+  db => {
+    db.createObjectStore('projects', { keyPath: 'id' });
+    db.createObjectStore('sessions', { keyPath: 'projectId' });
+    db.createObjectStore('trajectories', { keyPath: 'projectId' }); // Topology and source of the stored frames
+    db.createObjectStore('frames', { keyPath: ['projectId', 'index'] }); // One record per frame so runs append cheaply
+    db.createObjectStore('settings');
+  }
+];
+
+// Runs checkpointed by builds that kept a single run in localStorage
+const LEGACY_RUN_KEY = 'molsim:lastRun';
+
+export interface Workspace {
+  projects: Project[];
+  activeProjectId: string | null;
+}
+
+export const toPersistedState = (state: MolecularState): PersistedMolecularState => ({
+  pdbId: state.pdbId,
+  structureSource: state.structureSource,
+  representation: state.representation,
+  colorScheme: state.colorScheme,
+  simulationStage: state.simulationStage,
+  simulationProgress: state.simulationProgress,
+  simulationData: state.simulationData,
+  simulationLogs: state.simulationLogs,
+  rmsdSettings: state.rmsdSettings,
+  protocol: state.protocol,
+  runProtocol: state.runProtocol,
+  checkpoint: state.checkpoint,
+  customData: state.customData,
+  evaluationData: state.evaluationData,
+  evaluationExplanation: state.evaluationExplanation,
+  selections: state.selections,
+  highlight: state.highlight,
+  measurements: state.measurements,
+  comparisons: state.comparisons,
+  layers: state.layers
+});
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onabort = () => reject(tx.error ?? new Error('Storage transaction was aborted.'));
+});
+
+const isQuotaError = (error: unknown) => error instanceof DOMException && error.name === 'QuotaExceededError';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion; version < DB_VERSION; version++) MIGRATIONS[version](open.result);
+    };
+    open.onsuccess = () => {
+      const db = open.result;
+      // Let a newer build in another tab upgrade the schema; the next access reopens
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      navigator.storage?.persist?.().catch(() => undefined); // Best effort: ask not to be evicted
+      resolve(db);
+    };
+    open.onerror = () => reject(open.error);
+    open.onblocked = () => reject(new Error('Project storage is being upgraded; close other tabs of this app and reload.'));
+  });
+  databasePromise.catch(() => { databasePromise = null; });
+  return databasePromise;
+};
+
+const frameRange = (projectId: string, from = 0) => IDBKeyRange.bound([projectId, from], [projectId, Infinity]);
+
+// What is already on disk per project, so saves only write frames that changed. Frames are never
+// mutated, so a frame object that differs from the one saved at its index was replaced.
+const storedTrajectories = new Map<string, { atoms: Atom[]; frames: TrajectoryFrame[]; dropped?: boolean }>();
+
+const writeSession = async (db: IDBDatabase, session: ProjectSession, trajectory: Trajectory | undefined) => {
+  const tx = db.transaction(['sessions', 'trajectories', 'frames'], 'readwrite');
+  const { trajectory: _omitted, ...record } = session;
+  tx.objectStore('sessions').put({ ...record, savedAt: Date.now() });
+
+  const frames = tx.objectStore('frames');
+  const stored = storedTrajectories.get(session.projectId);
+  const putFrame = (frame: TrajectoryFrame, index: number) => frames.put({ projectId: session.projectId, index, ...frame });
+
+  if (!trajectory) {
+    if (stored) {
+      tx.objectStore('trajectories').delete(session.projectId);
+      frames.delete(frameRange(session.projectId));
+    }
+  } else if (!stored || stored.dropped || stored.atoms !== trajectory.atoms) {
+    // New run or import: replace everything
+    tx.objectStore('trajectories').put({ projectId: session.projectId, atoms: trajectory.atoms, source: trajectory.source });
+    frames.delete(frameRange(session.projectId));
+    trajectory.frames.forEach(putFrame);
+  } else {
+    // Same run: frames are appended, or replaced after a checkpoint the run continued from. By the
+    // next save the new frames may outnumber the old ones, so the length alone can't tell.
+    let from = 0;
+    while (from < stored.frames.length && trajectory.frames[from] === stored.frames[from]) from++;
+    if (from < stored.frames.length) frames.delete(frameRange(session.projectId, from));
+    for (let i = from; i < trajectory.frames.length; i++) putFrame(trajectory.frames[i], i);
+  }
+
+  await transactionDone(tx);
+  if (trajectory) storedTrajectories.set(session.projectId, { atoms: trajectory.atoms, frames: trajectory.frames });
+  else storedTrajectories.delete(session.projectId);
+};
+
+/**
+ * Saves a project's conversation and results. When the quota is exceeded, the session is kept
+ * without its trajectory frames (and they are not retried until a new trajectory replaces them).
+ */
+export const saveSession = async (session: ProjectSession): Promise<{ trajectoryDropped: boolean }> => {
+  const db = await openDatabase();
+  const { trajectory } = session;
+  const stored = storedTrajectories.get(session.projectId);
+  let dropped = !!trajectory && !!stored?.dropped && stored.atoms === trajectory.atoms;
+
+  try {
+    await writeSession(db, session, dropped ? undefined : trajectory);
+  } catch (error) {
+    if (!isQuotaError(error) || !trajectory) throw error;
+    await writeSession(db, session, undefined);
+    dropped = true;
+  }
+
+  if (dropped && trajectory) storedTrajectories.set(session.projectId, { atoms: trajectory.atoms, frames: [], dropped: true });
+  return { trajectoryDropped: dropped };
+};
+
+export const loadSession = async (projectId: string): Promise<ProjectSession | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(['sessions', 'trajectories', 'frames'], 'readonly');
+  const [record, stored, frames] = await Promise.all([
+    request(tx.objectStore('sessions').get(projectId)),
+    request(tx.objectStore('trajectories').get(projectId)),
+    request(tx.objectStore('frames').getAll(frameRange(projectId)))
+  ]);
+  if (!record) return null;
+
+  const { savedAt: _savedAt, ...session } = record;
+  let trajectory: Trajectory | undefined;
+  if (stored && frames.length > 0) {
+    trajectory = {
+      atoms: stored.atoms,
+      source: stored.source,
+      frames: frames.map(({ time, stage, coordinates }: TrajectoryFrame) => ({ time, stage, coordinates }))
+    };
+    storedTrajectories.set(projectId, { atoms: trajectory.atoms, frames: trajectory.frames });
+  } else {
+    storedTrajectories.delete(projectId);
+  }
+  return { ...session, trajectory };
+};
+
+export const deleteProjectData = async (projectId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(['projects', 'sessions', 'trajectories', 'frames'], 'readwrite');
+  tx.objectStore('projects').delete(projectId);
+  tx.objectStore('sessions').delete(projectId);
+  tx.objectStore('trajectories').delete(projectId);
+  tx.objectStore('frames').delete(frameRange(projectId));
+  await transactionDone(tx);
+  storedTrajectories.delete(projectId);
+};
+
+// The project list and which one is open; sessions are saved separately
+export const saveWorkspace = async ({ projects, activeProjectId }: Workspace) => {
+  const db = await openDatabase();
+  const tx = db.transaction(['projects', 'settings'], 'readwrite');
+  const store = tx.objectStore('projects');
+  const existing = await request(store.getAllKeys());
+  const keep = new Set(projects.map(p => p.id));
+  existing.forEach(key => { if (!keep.has(String(key))) store.delete(key); });
+  projects.forEach((project, position) => store.put({ ...project, position }));
+  tx.objectStore('settings').put(activeProjectId, 'activeProjectId');
+  await transactionDone(tx);
+};
+
+// Returns null when nothing has been stored yet (first visit)
+export const loadWorkspace = async (): Promise<Workspace | null> => {
+  const db = await openDatabase();
+  await importLegacyRun(db);
+
+  const tx = db.transaction(['projects', 'settings'], 'readonly');
+  const [records, activeProjectId] = await Promise.all([
+    request(tx.objectStore('projects').getAll()),
+    request(tx.objectStore('settings').get('activeProjectId'))
+  ]);
+  if (records.length === 0 && activeProjectId === undefined) return null;
+
+  const projects: Project[] = records
+    .sort((a, b) => a.position - b.position)
+    .map(({ position: _position, ...project }) => project);
+  return {
+    projects,
+    activeProjectId: activeProjectId === undefined ? projects[0]?.id ?? null : activeProjectId
+  };
+};
+
+const decodeBytes = (text: string): ArrayBuffer => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+// Moves a run saved by the localStorage checkpoint format into its own recovered project
+const importLegacyRun = async (db: IDBDatabase) => {
+  let text: string | null = null;
+  try {
+    text = localStorage.getItem(LEGACY_RUN_KEY);
+  } catch {
+    return;
+  }
+  if (!text) return;
+
+  try {
+    const raw = JSON.parse(text);
+    const checkpoint: SimulationCheckpoint = {
+      ...raw.checkpoint,
+      positions: new Float64Array(decodeBytes(raw.checkpoint.positions)),
+      velocities: new Float64Array(decodeBytes(raw.checkpoint.velocities))
+    };
+    const frames: TrajectoryFrame[] = raw.frames.map((frame: { time: number; stage?: TrajectoryFrame['stage']; coordinates: string }) => ({
+      ...frame,
+      coordinates: new Float32Array(decodeBytes(frame.coordinates))
+    }));
+
+    const project: Project = {
+      id: `recovered-${checkpoint.savedAt}`,
+      name: `Recovered run (${raw.pdbId})`,
+      pdbId: raw.pdbId,
+      structureSource: raw.structureSource,
+      localStructure: raw.localStructure,
+      lastModified: checkpoint.savedAt,
+      status: 'active'
+    };
+    const session: ProjectSession = {
+      projectId: project.id,
+      messages: [{
+        id: Date.now().toString(),
+        text: `Recovered the run of ${raw.pdbId} checkpointed at step ${checkpoint.step} (${checkpoint.stage}, t = ${checkpoint.time.toFixed(1)} ps).`,
+        sender: Sender.System,
+        timestamp: Date.now()
+      }],
+      state: {
+        pdbId: raw.pdbId,
+        structureSource: raw.structureSource,
+        representation: 'cartoon',
+        colorScheme: 'chainid',
+        simulationStage: checkpoint.stage,
+        simulationProgress: 0,
+        simulationData: raw.simulationData,
+        simulationLogs: [],
+        rmsdSettings: DEFAULT_RMSD_SETTINGS,
+        protocol: checkpoint.protocol,
+        runProtocol: checkpoint.protocol,
+        checkpoint
+      },
+      trajectory: frames.length > 0 ? { atoms: checkpoint.atoms, frames } : undefined,
+      historyOffset: raw.simulationData.length - checkpoint.frameCount,
+      interrupted: !checkpoint.finished
+    };
+
+    const tx = db.transaction('projects', 'readwrite');
+    tx.objectStore('projects').put({ ...project, position: -1 });
+    await transactionDone(tx);
+    await writeSession(db, session, session.trajectory);
+  } catch (error) {
+    console.warn('Discarding unreadable legacy checkpoint', error);
+  }
+  localStorage.removeItem(LEGACY_RUN_KEY);
+};
@@ -0,0 +1,77 @@
+import { ColorScheme, CommandParams, CommandType, Representation, RepresentationLayer } from "../types";
+
+// Layers drawn over the base representation: each is a representation of a selection with its own colors and opacity
+
+export const MAX_LAYERS = 12;
+
+// Surfaces over a pocket are usually meant to show what is inside them
+export const defaultOpacity = (representation: Representation) => representation === 'surface' ? 0.5 : 1;
+
+export const createLayer = (representation: Representation, selection: string, colorScheme: ColorScheme, opacity?: number): RepresentationLayer => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  representation,
+  selection,
+  colorScheme,
+  opacity: opacity ?? defaultOpacity(representation),
+  visible: true
+});
+
+// "surface of ligand, element colors, 50% opaque"
+export const describeLayer = (layer: RepresentationLayer) =>
+  `${layer.representation} of ${layer.selection}, ${layer.colorScheme} colors` +
+  (layer.opacity < 1 ? `, ${Math.round(layer.opacity * 100)}% opaque` : '') +
+  (layer.visible ? '' : ', hidden');
+
+const layerIndex = (layers: RepresentationLayer[], layer: number | undefined): number => {
+  if (layers.length === 0) throw new Error("There are no layers yet.");
+  if (layer === undefined) return layers.length - 1; // The newest layer by default
+  if (!Number.isInteger(layer) || layer < 1 || layer > layers.length) {
+    throw new Error(`There is no layer ${layer}; layers are numbered 1 to ${layers.length}, bottom first.`);
+  }
+  return layer - 1;
+};
+
+/**
+ * The layer stack after an EDIT_LAYERS command. `selection` must already be resolved against saved
+ * selections; a new layer without a color scheme takes `defaultColor`. Throws on a missing layer number.
+ */
+export const applyLayerAction = (
+  layers: RepresentationLayer[],
+  { action, layer, style, selection, color, opacity, position }: CommandParams[CommandType.EDIT_LAYERS],
+  defaultColor: ColorScheme
+): RepresentationLayer[] => {
+  switch (action) {
+    case 'add':
+      if (!style) throw new Error("Name a representation for the new layer.");
+      if (layers.length >= MAX_LAYERS) throw new Error(`At most ${MAX_LAYERS} layers can be drawn; remove one first.`);
+      return [...layers, createLayer(style, selection || 'all', color ?? defaultColor, opacity)];
+    case 'clear':
+      return [];
+    case 'remove': {
+      const index = layerIndex(layers, layer);
+      return layers.filter((_, i) => i !== index);
+    }
+    case 'show':
+    case 'hide': {
+      const index = layerIndex(layers, layer);
+      return layers.map((l, i) => i === index ? { ...l, visible: action === 'show' } : l);
+    }
+    case 'update': {
+      const index = layerIndex(layers, layer);
+      return layers.map((l, i) => i === index ? {
+        ...l,
+        representation: style ?? l.representation,
+        selection: selection || l.selection,
+        colorScheme: color ?? l.colorScheme,
+        opacity: opacity ?? l.opacity
+      } : l);
+    }
+    case 'move': {
+      const index = layerIndex(layers, layer);
+      const target = Math.min(Math.max(position ?? layers.length, 1), layers.length) - 1;
+      const moved = layers.filter((_, i) => i !== index);
+      moved.splice(target, 0, layers[index]);
+      return moved;
+    }
+  }
+};
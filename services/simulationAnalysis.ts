@@ -0,0 +1,211 @@
+import { RMSDSettings, SimulationData, SimulationProtocol, SimulationStage, Trajectory } from "../types";
+import { computeRMSDSeries } from "./trajectory";
+
+// Statistics over a run's frames, used to ground the assistant's analysis summary and to check the numbers it cites
+
+export interface SeriesStats {
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+  slope: number; // Linear trend per ns; 0 when the window spans no time
+}
+
+export interface StageStats {
+  stage: SimulationStage | 'unstaged'; // 'unstaged' for imported trajectories without stage labels
+  frames: number;
+  start: number; // ps
+  end: number; // ps
+  rmsd: SeriesStats;
+  energy?: SeriesStats;
+  temperature?: SeriesStats;
+}
+
+export interface SimulationStatistics {
+  frames: number;
+  duration: number; // ps covered by the frames
+  stages: StageStats[];
+  equilibratedAt: number | null; // ps after which the RMSD stays on its final plateau; null if it never settles
+  plateau?: { mean: number; tolerance: number }; // RMSD over the last quarter of the analysed stage, Å
+  targetTemperature?: number;
+  superposedRmsd?: { settings: RMSDSettings; stats: SeriesStats }; // The Analysis view's fitted RMSD, when frames are stored
+}
+
+const STAGE_ORDER: StageStats['stage'][] = ['minimization', 'equilibration', 'production', 'unstaged'];
+const SMOOTHING_FRAMES = 5; // Rolling window for the equilibration check
+const MIN_PLATEAU_TOLERANCE = 0.1; // Å
+
+const seriesStats = (times: number[], values: number[]): SeriesStats => {
+  const n = values.length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n);
+  const meanTime = times.reduce((sum, t) => sum + t, 0) / n;
+  let covariance = 0, variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (times[i] - meanTime) * (values[i] - mean);
+    variance += (times[i] - meanTime) ** 2;
+  }
+  return {
+    mean,
+    std,
+    min: values.reduce((m, v) => Math.min(m, v), Infinity),
+    max: values.reduce((m, v) => Math.max(m, v), -Infinity),
+    slope: variance > 0 ? (covariance / variance) * 1000 : 0
+  };
+};
+
+// Stage of every frame: from the stored trajectory when it lines up with the data, else from the protocol's
+// stage lengths (minimization frames all sit at t = 0), else none
+const frameStages = (data: SimulationData[], trajectory?: Trajectory, protocol?: SimulationProtocol): StageStats['stage'][] => {
+  if (trajectory && trajectory.frames.length === data.length && trajectory.frames.some(frame => frame.stage)) {
+    return trajectory.frames.map(frame => frame.stage ?? 'unstaged');
+  }
+  if (protocol && data.some(point => point.energy !== undefined)) {
+    const equilibrationEnd = protocol.equilibrationSteps * protocol.timestep;
+    return data.map(point => point.time === 0 ? 'minimization' : point.time <= equilibrationEnd + 1e-6 ? 'equilibration' : 'production');
+  }
+  return data.map(() => 'unstaged');
+};
+
+const optionalStats = (times: number[], values: (number | undefined)[]) => {
+  const present = values.map((v, i) => [times[i], v] as const).filter((pair): pair is readonly [number, number] => pair[1] !== undefined);
+  return present.length > 0 ? seriesStats(present.map(p => p[0]), present.map(p => p[1])) : undefined;
+};
+
+// Earliest time after which the smoothed RMSD stays within the final plateau's band
+const findEquilibration = (points: SimulationData[]) => {
+  if (points.length < SMOOTHING_FRAMES * 2) return { equilibratedAt: null };
+  const tail = points.slice(Math.floor(points.length * 0.75)).map(p => p.rmsd);
+  const tailStats = seriesStats(tail.map((_, i) => i), tail);
+  const plateau = { mean: tailStats.mean, tolerance: Math.max(2 * tailStats.std, MIN_PLATEAU_TOLERANCE) };
+
+  const smoothed = points.map((_, i) => {
+    const window = points.slice(Math.max(0, i - SMOOTHING_FRAMES + 1), i + 1);
+    return window.reduce((sum, p) => sum + p.rmsd, 0) / window.length;
+  });
+  let first = smoothed.length;
+  for (let i = smoothed.length - 1; i >= 0 && Math.abs(smoothed[i] - plateau.mean) <= plateau.tolerance; i--) first = i;
+  // Settling only in the final quarter is not distinguishable from still drifting
+  const equilibratedAt = first < Math.floor(points.length * 0.75) ? points[first].time : null;
+  return { equilibratedAt, plateau };
+};
+
+export const computeSimulationStatistics = (
+  data: SimulationData[],
+  { trajectory, rmsdSettings, protocol }: { trajectory?: Trajectory; rmsdSettings?: RMSDSettings; protocol?: SimulationProtocol } = {}
+): SimulationStatistics | null => {
+  if (data.length === 0) return null;
+  const stages = frameStages(data, trajectory, protocol);
+
+  const stageStats = STAGE_ORDER.flatMap(stage => {
+    const points = data.filter((_, i) => stages[i] === stage);
+    if (points.length === 0) return [];
+    const times = points.map(p => p.time);
+    return [{
+      stage,
+      frames: points.length,
+      start: times[0],
+      end: times[times.length - 1],
+      rmsd: seriesStats(times, points.map(p => p.rmsd)),
+      energy: optionalStats(times, points.map(p => p.energy)),
+      temperature: optionalStats(times, points.map(p => p.temperature))
+    }];
+  });
+
+  // Equilibration is judged over the dynamics, i.e. everything after minimization
+  const dynamics = data.filter((_, i) => stages[i] !== 'minimization');
+  const { equilibratedAt, plateau } = findEquilibration(dynamics);
+
+  let superposedRmsd: SimulationStatistics['superposedRmsd'];
+  if (trajectory && rmsdSettings && trajectory.frames.length === data.length) {
+    const series = computeRMSDSeries(trajectory, rmsdSettings);
+    const finite = series.map((v, i) => [data[i].time, v] as const).filter(([, v]) => Number.isFinite(v));
+    if (finite.length > 0) superposedRmsd = { settings: rmsdSettings, stats: seriesStats(finite.map(p => p[0]), finite.map(p => p[1])) };
+  }
+
+  return {
+    frames: data.length,
+    duration: data[data.length - 1].time - data[0].time,
+    stages: stageStats,
+    equilibratedAt,
+    plateau,
+    targetTemperature: protocol?.temperature,
+    superposedRmsd
+  };
+};
+
+const fixed = (value: number, digits: number) => (Math.abs(value) < 0.5 * 10 ** -digits ? 0 : value).toFixed(digits); // No "-0.0"
+
+const describeSeries = (label: string, s: SeriesStats, unit: string, digits: number) =>
+  `${label}: mean ${fixed(s.mean, digits)} ${unit}, SD ${fixed(s.std, digits)}, range ${fixed(s.min, digits)} to ${fixed(s.max, digits)}, trend ${fixed(s.slope, digits)} ${unit}/ns`;
+
+/**
+ * The statistics as the plain-text block given to the model. The model is told to cite only these
+ * numbers, and the same block is what its reply is checked against.
+ */
+export const formatStatistics = (stats: SimulationStatistics): string => {
+  const lines = [`Frames: ${stats.frames}, covering ${fixed(stats.duration, 1)} ps (${fixed(stats.duration / 1000, 3)} ns).`];
+  if (stats.targetTemperature !== undefined) lines.push(`Target temperature: ${stats.targetTemperature} K.`);
+  for (const stage of stats.stages) {
+    lines.push(`${stage.stage === 'unstaged' ? 'All frames' : stage.stage[0].toUpperCase() + stage.stage.slice(1)} (${stage.frames} frames, ${fixed(stage.start, 1)} to ${fixed(stage.end, 1)} ps):`);
+    lines.push(`  ${describeSeries('RMSD', stage.rmsd, 'Å', 2)}`);
+    if (stage.energy) lines.push(`  ${describeSeries('Potential energy', stage.energy, 'kcal/mol', 1)}`);
+    if (stage.temperature) {
+      const offset = stats.targetTemperature !== undefined ? `, mean offset from target ${fixed(stage.temperature.mean - stats.targetTemperature, 1)} K` : '';
+      lines.push(`  ${describeSeries('Temperature', stage.temperature, 'K', 1)}${offset}`);
+    }
+  }
+  if (stats.plateau) {
+    lines.push(stats.equilibratedAt !== null
+      ? `Equilibration: RMSD settles at ${fixed(stats.equilibratedAt, 1)} ps onto a plateau of ${fixed(stats.plateau.mean, 2)} ± ${fixed(stats.plateau.tolerance, 2)} Å.`
+      : `Equilibration: RMSD does not settle onto its final plateau (${fixed(stats.plateau.mean, 2)} ± ${fixed(stats.plateau.tolerance, 2)} Å) before the last quarter of the run.`);
+  } else {
+    lines.push('Equilibration: too few frames to judge.');
+  }
+  if (stats.superposedRmsd) {
+    const { settings, stats: s } = stats.superposedRmsd;
+    const selection = settings.selection === 'named' && settings.named ? `selection "${settings.named.name}"` : settings.selection;
+    lines.push(`Superposed RMSD (${selection}, reference ${settings.reference}): mean ${fixed(s.mean, 2)} Å, SD ${fixed(s.std, 2)}, range ${fixed(s.min, 2)} to ${fixed(s.max, 2)}, trend ${fixed(s.slope, 2)} Å/ns`);
+  }
+  return lines.join('\n');
+};
+
+// Decimal numbers as written in prose, including signs and thousands separators ("-1,234.5")
+const NUMBER_PATTERN = /(?<![\w.])[-−]?\d{1,3}(?:,\d{3})+(?:\.\d+)?(?![\w])|(?<![\w.])[-−]?\d+(?:\.\d+)?(?![\w])/g;
+
+const readNumbers = (text: string) => [...text.matchAll(NUMBER_PATTERN)].map(match => ({
+  text: match[0],
+  value: parseFloat(match[0].replace(/,/g, '').replace('−', '-')),
+  decimals: match[0].split('.')[1]?.length ?? 0,
+  index: match.index ?? 0
+}));
+
+const SMALL_INTEGER = 10; // Counts and list numbering ("3 stages", "1.") are not statistics
+
+/**
+ * Numbers in `text` that match nothing in the statistics block, allowing for rounding to the
+ * precision the text uses and for either sign. Small integers are skipped.
+ */
+export const findUnsupportedNumbers = (text: string, stats: SimulationStatistics): string[] => {
+  const known = readNumbers(formatStatistics(stats)).map(n => n.value);
+  const unsupported = readNumbers(text).filter(({ value, decimals }) => {
+    if (decimals === 0 && Math.abs(value) <= SMALL_INTEGER) return false;
+    const tolerance = 0.5 * 10 ** -decimals + 1e-9;
+    return !known.some(k => Math.abs(Math.abs(k) - Math.abs(value)) <= tolerance);
+  });
+  return [...new Set(unsupported.map(n => n.text))];
+};
+
+// Plain summary used when no model reply is available
+export const describeStatistics = (stats: SimulationStatistics): string => {
+  const last = stats.stages[stats.stages.length - 1];
+  const parts = [`${stats.frames} frames over ${fixed(stats.duration, 1)} ps.`];
+  parts.push(`In ${last.stage === 'unstaged' ? 'the trajectory' : last.stage}, RMSD averaged ${fixed(last.rmsd.mean, 2)} Å (SD ${fixed(last.rmsd.std, 2)}) with a trend of ${fixed(last.rmsd.slope, 2)} Å/ns.`);
+  if (last.temperature) parts.push(`Temperature averaged ${fixed(last.temperature.mean, 1)} K (SD ${fixed(last.temperature.std, 1)}).`);
+  if (stats.plateau) {
+    parts.push(stats.equilibratedAt !== null
+      ? `The RMSD settles at ${fixed(stats.equilibratedAt, 1)} ps onto ${fixed(stats.plateau.mean, 2)} ± ${fixed(stats.plateau.tolerance, 2)} Å.`
+      : 'The RMSD has not settled onto a plateau; a longer run is needed to judge stability.');
+  }
+  return parts.join(' ');
+};
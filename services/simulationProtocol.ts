@@ -0,0 +1,109 @@
+
+import { Barostat, Ensemble, SimulationProtocol, Thermostat } from "../types";
+import { DEFAULT_PROTOCOL } from "./mdEngine";
+
+const ENSEMBLES: Ensemble[] = ['NVE', 'NVT', 'NPT'];
+const THERMOSTATS: Thermostat[] = ['berendsen', 'langevin'];
+const BAROSTATS: Barostat[] = ['berendsen', 'montecarlo'];
+
+type NumericField = Exclude<keyof SimulationProtocol, 'ensemble' | 'thermostat' | 'barostat'>;
+
+// Accepted ranges; the Gō engine goes unstable above ~0.05 ps and the repulsion needs a cutoff past 2σ
+export const PROTOCOL_LIMITS: Record<NumericField, { min: number; max: number; integer?: boolean; label: string; unit?: string }> = {
+  temperature: { min: 1, max: 1000, label: 'Temperature', unit: 'K' },
+  pressure: { min: 0, max: 10000, label: 'Pressure', unit: 'bar' },
+  timestep: { min: 0.001, max: 0.05, label: 'Timestep', unit: 'ps' },
+  minimizationSteps: { min: 0, max: 100000, integer: true, label: 'Minimization steps' },
+  equilibrationSteps: { min: 0, max: 1000000, integer: true, label: 'Equilibration steps' },
+  productionSteps: { min: 1, max: 5000000, integer: true, label: 'Production steps' },
+  frameInterval: { min: 1, max: 100000, integer: true, label: 'Frame interval' },
+  cutoff: { min: 8, max: 30, label: 'Cutoff', unit: 'Å' },
+  seed: { min: 0, max: 2 ** 31 - 1, integer: true, label: 'Seed' }
+};
+
+// Natural-language overrides; `duration` (ps of production) is converted to a step count
+export type ProtocolOverrides = Partial<Record<keyof SimulationProtocol | 'duration', unknown>>;
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+const pickOption = <T extends string>(value: unknown, options: T[], label: string): T | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const match = options.find(o => o.toLowerCase() === String(value).toLowerCase());
+  if (!match) throw new Error(`${label} must be one of ${options.join(', ')} (got "${value}").`);
+  return match;
+};
+
+/**
+ * Applies user or assistant overrides on top of `base` and validates the result.
+ * Null/empty values leave the base setting untouched; out-of-range values throw.
+ */
+export const resolveProtocol = (overrides: ProtocolOverrides | null | undefined, base: SimulationProtocol = DEFAULT_PROTOCOL): SimulationProtocol => {
+  const protocol: SimulationProtocol = { ...base };
+  if (!overrides) return protocol;
+
+  protocol.ensemble = pickOption(overrides.ensemble, ENSEMBLES, 'Ensemble') ?? protocol.ensemble;
+  protocol.thermostat = pickOption(overrides.thermostat, THERMOSTATS, 'Thermostat') ?? protocol.thermostat;
+  protocol.barostat = pickOption(overrides.barostat, BAROSTATS, 'Barostat') ?? protocol.barostat;
+
+  (Object.keys(PROTOCOL_LIMITS) as NumericField[]).forEach(field => {
+    const raw = overrides[field];
+    if (raw === undefined || raw === null || raw === '') return;
+    const { min, max, integer, label, unit } = PROTOCOL_LIMITS[field];
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new Error(`${label} must be between ${min} and ${max}${unit ? ` ${unit}` : ''} (got ${raw}).`);
+    }
+    protocol[field] = integer ? Math.round(value) : value;
+  });
+
+  // Duration only applies when the step count wasn't given explicitly
+  const duration = Number(overrides.duration);
+  if (overrides.duration !== undefined && overrides.duration !== null && (overrides.productionSteps === undefined || overrides.productionSteps === null)) {
+    const steps = Math.round(duration / protocol.timestep);
+    const { min, max } = PROTOCOL_LIMITS.productionSteps;
+    if (!Number.isFinite(steps) || steps < min || steps > max) {
+      throw new Error(`A production run of ${overrides.duration} ps needs ${steps} steps at ${protocol.timestep} ps; the limit is ${max}.`);
+    }
+    protocol.productionSteps = steps;
+  }
+
+  if (protocol.frameInterval > protocol.productionSteps) {
+    throw new Error(`Frame interval (${protocol.frameInterval}) exceeds the ${protocol.productionSteps} production steps; no frames would be recorded.`);
+  }
+
+  return protocol;
+};
+
+/**
+ * Converts an extension request (`steps`, or `duration` in ps) into extra production steps for
+ * `protocol`, keeping the total within the production limit.
+ */
+export const resolveExtension = (request: { steps?: unknown; duration?: unknown }, protocol: SimulationProtocol): number => {
+  const hasSteps = request.steps !== undefined && request.steps !== null && request.steps !== '';
+  const hasDuration = request.duration !== undefined && request.duration !== null && request.duration !== '';
+  if (!hasSteps && !hasDuration) throw new Error('Say how much longer to run, e.g. "extend production by 1 ns".');
+
+  const steps = hasSteps ? Math.round(Number(request.steps)) : Math.round(Number(request.duration) / protocol.timestep);
+  if (!Number.isFinite(steps) || steps < 1) {
+    throw new Error(`An extension needs a positive length (got ${hasSteps ? `${request.steps} steps` : `${request.duration} ps`}).`);
+  }
+  const { max } = PROTOCOL_LIMITS.productionSteps;
+  if (protocol.productionSteps + steps > max) {
+    throw new Error(`Extending by ${steps} steps would exceed the ${max}-step production limit.`);
+  }
+  return steps;
+};
+
+export const productionTime = (protocol: SimulationProtocol) => protocol.productionSteps * protocol.timestep;
+
+// One-line summary for chat messages and the progress card
+export const describeProtocol = (protocol: SimulationProtocol): string => {
+  const coupling = protocol.ensemble === 'NVE'
+    ? 'no thermostat'
+    : protocol.ensemble === 'NPT'
+      ? `${protocol.thermostat} thermostat, ${protocol.barostat} barostat at ${protocol.pressure} bar`
+      : `${protocol.thermostat} thermostat`;
+  return `${protocol.ensemble} at ${protocol.temperature} K (${coupling}), dt ${parseFloat((protocol.timestep * 1000).toFixed(2))} fs, ` +
+    `${protocol.minimizationSteps}/${protocol.equilibrationSteps}/${protocol.productionSteps} steps ` +
+    `(${productionTime(protocol).toFixed(0)} ps production), cutoff ${protocol.cutoff} Å, seed ${protocol.seed}`;
+};
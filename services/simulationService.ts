@@ -0,0 +1,71 @@
+import { Atom, MDWorkerMessage, MDWorkerRequest, ParsedStructure, SimulationCheckpoint, SimulationData, SimulationProtocol, SimulationStage } from "../types";
+import { DEFAULT_PROTOCOL } from "./mdEngine";
+
+export interface SimulationCallbacks {
+  onReady?: (atoms: Atom[], contactCount: number) => void;
+  onFrame: (stage: SimulationStage, progress: number, data: SimulationData, coordinates: Float32Array, log?: string) => void;
+  onCheckpoint?: (checkpoint: SimulationCheckpoint) => void;
+  onComplete: (stopped: boolean) => void;
+  onError: (message: string) => void;
+}
+
+export interface SimulationHandle {
+  pause: () => void;
+  resume: () => void;
+  stop: () => void; // Ends after the current frame with a final checkpoint; onComplete(true) follows
+  extend: (steps: number) => void; // Adds production steps to the running protocol
+  terminate: () => void;
+}
+
+// Runs the MD protocol off the main thread and relays frames to the caller
+const launchWorker = (request: MDWorkerRequest, callbacks: SimulationCallbacks): SimulationHandle => {
+  const worker = new Worker(new URL('./mdWorker.ts', import.meta.url), { type: 'module' });
+  const send = (message: MDWorkerRequest) => worker.postMessage(message);
+
+  worker.onmessage = (event: MessageEvent<MDWorkerMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'ready':
+        callbacks.onReady?.(message.atoms, message.contactCount);
+        break;
+      case 'frame':
+        callbacks.onFrame(message.stage, message.progress, message.data, message.coordinates, message.log);
+        break;
+      case 'checkpoint':
+        callbacks.onCheckpoint?.(message.checkpoint);
+        break;
+      case 'complete':
+        worker.terminate();
+        callbacks.onComplete(message.stopped);
+        break;
+      case 'error':
+        worker.terminate();
+        callbacks.onError(message.message);
+        break;
+    }
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    callbacks.onError(event.message || 'Simulation worker crashed.');
+  };
+
+  send(request);
+
+  return {
+    pause: () => send({ type: 'pause' }),
+    resume: () => send({ type: 'resume' }),
+    stop: () => send({ type: 'stop' }),
+    extend: (steps: number) => send({ type: 'extend', steps }),
+    terminate: () => worker.terminate()
+  };
+};
+
+export const startSimulation = (
+  structure: ParsedStructure,
+  callbacks: SimulationCallbacks,
+  protocol: SimulationProtocol = { ...DEFAULT_PROTOCOL, seed: Math.floor(Math.random() * 2 ** 31) }
+): SimulationHandle => launchWorker({ type: 'start', structure, protocol }, callbacks);
+
+// Continues a run from a checkpoint, e.g. after a reload or to extend a finished production
+export const restoreSimulation = (checkpoint: SimulationCheckpoint, callbacks: SimulationCallbacks): SimulationHandle =>
+  launchWorker({ type: 'restore', checkpoint }, callbacks);
@@ -0,0 +1,229 @@
+import { Atom, ComparedStructure, ResidueDeviation, StructureComparison, StructureSourceId } from "../types";
+import { classifyResidue } from "./structureModel";
+import { resolveStructureSource, StructureCoordinates } from "./structureSources";
+import { kabsch, Superposition } from "./superposition";
+
+// Compare mode: other structures aligned by sequence onto the loaded one, superposed on their Cα atoms
+
+export const DEVIATION_SCALE_MAX = 4; // Å; residues at or beyond this deviation get the full color
+export const DEVIATION_GRADIENT = ['#2563eb', '#f8fafc', '#dc2626']; // 0, half and full scale
+export const UNALIGNED_COLOR = '#64748b'; // Residues with no partner in the reference
+export const REFERENCE_COLOR = '#cbd5e1'; // The loaded structure, neutral under the compared ones
+
+const RESIDUE_CODES: Record<string, string> = {
+  ALA: 'A', ARG: 'R', ASN: 'N', ASP: 'D', CYS: 'C', GLN: 'Q', GLU: 'E', GLY: 'G', HIS: 'H', ILE: 'I',
+  LEU: 'L', LYS: 'K', MET: 'M', PHE: 'F', PRO: 'P', SER: 'S', THR: 'T', TRP: 'W', TYR: 'Y', VAL: 'V',
+  MSE: 'M', SEP: 'S', TPO: 'T', PTR: 'Y', HYP: 'P', MLY: 'K', CSO: 'C', KCX: 'K', PCA: 'E',
+  HSD: 'H', HSE: 'H', HSP: 'H', HID: 'H', HIE: 'H', HIP: 'H', CYX: 'C', CYM: 'C', ASH: 'D', GLH: 'E', LYN: 'K'
+};
+
+// Needleman-Wunsch scores; end gaps are free because models and crystal structures often differ in their termini
+const MATCH = 5;
+const MISMATCH = -2;
+const GAP = -4;
+const MAX_ALIGNMENT_CELLS = 25_000_000;
+
+const MIN_ALIGNED = 3;
+const TM_SEED_STARTS = 20; // Fragment seeds per length in the TM-score search
+const TM_ITERATIONS = 20;
+
+interface TraceResidue {
+  chainId: string;
+  resSeq: number;
+  insCode: string;
+  code: string;
+  index: number; // Cα position in the trace's coordinate array
+}
+
+// Protein residues with a Cα atom, in file order across chains
+const caTrace = (atoms: Atom[]): { residues: TraceResidue[]; coordinates: Float64Array } => {
+  const residues: TraceResidue[] = [];
+  const coords: number[] = [];
+  for (const atom of atoms) {
+    if (atom.name !== 'CA' || classifyResidue(atom.resName) !== 'protein') continue;
+    const last = residues[residues.length - 1];
+    if (last && last.chainId === atom.chainId && last.resSeq === atom.resSeq && last.insCode === atom.insCode) continue;
+    residues.push({ chainId: atom.chainId, resSeq: atom.resSeq, insCode: atom.insCode, code: RESIDUE_CODES[atom.resName] ?? 'X', index: residues.length });
+    coords.push(atom.x, atom.y, atom.z);
+  }
+  return { residues, coordinates: Float64Array.from(coords) };
+};
+
+/**
+ * Global sequence alignment of two residue strings with free end gaps. Returns the aligned
+ * index pairs (position in `a`, position in `b`) in order.
+ */
+export const alignSequences = (a: string, b: string): [number, number][] => {
+  const n = a.length, m = b.length;
+  if ((n + 1) * (m + 1) > MAX_ALIGNMENT_CELLS) {
+    throw new Error(`The structures are too large to align (${n} and ${m} residues).`);
+  }
+  const width = m + 1;
+  const score = new Int32Array((n + 1) * width);
+  const trace = new Uint8Array((n + 1) * width); // 0 diagonal, 1 gap in b, 2 gap in a
+  for (let i = 1; i <= n; i++) trace[i * width] = 1;
+  for (let j = 1; j <= m; j++) trace[j] = 2;
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const pair = a[i - 1] === b[j - 1] && a[i - 1] !== 'X' ? MATCH : MISMATCH;
+      const diagonal = score[(i - 1) * width + j - 1] + pair;
+      const up = score[(i - 1) * width + j] + (j === m ? 0 : GAP);
+      const left = score[i * width + j - 1] + (i === n ? 0 : GAP);
+      const cell = i * width + j;
+      if (diagonal >= up && diagonal >= left) {
+        score[cell] = diagonal;
+      } else if (up >= left) {
+        score[cell] = up;
+        trace[cell] = 1;
+      } else {
+        score[cell] = left;
+        trace[cell] = 2;
+      }
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = n, j = m;
+  while (i > 0 && j > 0) {
+    const step = trace[i * width + j];
+    if (step === 0) pairs.push([--i, --j]);
+    else if (step === 1) i--;
+    else j--;
+  }
+  return pairs.reverse();
+};
+
+// d0 of the TM-score for a reference of `length` residues (Zhang & Skolnick 2004)
+const tmD0 = (length: number) => length > 21 ? 1.24 * Math.cbrt(length - 15) - 1.8 : 0.5;
+
+// Distances of the aligned pairs after moving `mobile` by `fit`
+const pairDistances = (mobile: Float64Array, target: Float64Array, mobileIdx: Int32Array, targetIdx: Int32Array, fit: Superposition): Float64Array => {
+  const [r0, r1, r2, r3, r4, r5, r6, r7, r8] = fit.rotation;
+  const [mx, my, mz] = fit.mobileCenter;
+  const [tx, ty, tz] = fit.targetCenter;
+  const out = new Float64Array(mobileIdx.length);
+  for (let k = 0; k < mobileIdx.length; k++) {
+    const i = mobileIdx[k], j = targetIdx[k];
+    const x = mobile[3 * i] - mx, y = mobile[3 * i + 1] - my, z = mobile[3 * i + 2] - mz;
+    const dx = r0 * x + r1 * y + r2 * z + tx - target[3 * j];
+    const dy = r3 * x + r4 * y + r5 * z + ty - target[3 * j + 1];
+    const dz = r6 * x + r7 * y + r8 * z + tz - target[3 * j + 2];
+    out[k] = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+  return out;
+};
+
+/**
+ * TM-score of the aligned pairs, maximized over superpositions as the TM-score program does: fits
+ * seeded on fragments of decreasing length, each refined on the pairs that end up close.
+ */
+const searchTMScore = (mobile: Float64Array, target: Float64Array, mobileIdx: Int32Array, targetIdx: Int32Array, referenceLength: number): number => {
+  const count = mobileIdx.length;
+  const d0 = tmD0(referenceLength);
+  const cutoff = Math.min(8, Math.max(4.5, d0));
+  let best = 0;
+
+  for (let length = count; length >= Math.min(count, 4); length = Math.floor(length / 2)) {
+    const step = Math.max(1, Math.floor((count - length) / TM_SEED_STARTS));
+    for (let start = 0; start + length <= count; start += step) {
+      let subset = Array.from({ length }, (_, k) => start + k);
+      for (let iteration = 0; iteration < TM_ITERATIONS; iteration++) {
+        const fit = kabsch(mobile, target, subset.map(k => mobileIdx[k]), subset.map(k => targetIdx[k]));
+        const distances = pairDistances(mobile, target, mobileIdx, targetIdx, fit);
+        let score = 0;
+        for (const d of distances) score += 1 / (1 + (d / d0) ** 2);
+        best = Math.max(best, score / referenceLength);
+
+        const close: number[] = [];
+        distances.forEach((d, k) => { if (d < cutoff) close.push(k); });
+        if (close.length < MIN_ALIGNED || (close.length === subset.length && close.every((k, n) => k === subset[n]))) break;
+        subset = close;
+      }
+    }
+    if (length <= 4) break;
+  }
+  return best;
+};
+
+const toMatrix = (fit: Superposition): number[] => {
+  const r = fit.rotation;
+  const [mx, my, mz] = fit.mobileCenter;
+  const [tx, ty, tz] = fit.targetCenter;
+  return [
+    r[0], r[1], r[2], tx - (r[0] * mx + r[1] * my + r[2] * mz),
+    r[3], r[4], r[5], ty - (r[3] * mx + r[4] * my + r[5] * mz),
+    r[6], r[7], r[8], tz - (r[6] * mx + r[7] * my + r[8] * mz),
+    0, 0, 0, 1
+  ];
+};
+
+/**
+ * Aligns `model` to `reference` by sequence, superposes the aligned Cα atoms (Kabsch) and scores the
+ * result. Throws an Error when the two share too few residues.
+ */
+export const compareStructures = (reference: Atom[], model: Atom[]): StructureComparison => {
+  const target = caTrace(reference);
+  const mobile = caTrace(model);
+  if (target.residues.length < MIN_ALIGNED || mobile.residues.length < MIN_ALIGNED) {
+    throw new Error('Both structures need protein residues with Cα atoms to be compared.');
+  }
+  const pairs = alignSequences(mobile.residues.map(r => r.code).join(''), target.residues.map(r => r.code).join(''));
+  if (pairs.length < MIN_ALIGNED) throw new Error(`Only ${pairs.length} residues align, too few to superpose.`);
+
+  const mobileIdx = Int32Array.from(pairs, ([i]) => i);
+  const targetIdx = Int32Array.from(pairs, ([, j]) => j);
+  const fit = kabsch(mobile.coordinates, target.coordinates, mobileIdx, targetIdx);
+  const distances = pairDistances(mobile.coordinates, target.coordinates, mobileIdx, targetIdx, fit);
+  const identical = pairs.filter(([i, j]) => mobile.residues[i].code === target.residues[j].code).length;
+
+  const deviations: ResidueDeviation[] = pairs.map(([i], k) => {
+    const { chainId, resSeq, insCode } = mobile.residues[i];
+    return { chainId, resSeq, insCode, deviation: parseFloat(distances[k].toFixed(2)) };
+  });
+
+  return {
+    rmsd: fit.rmsd,
+    tmScore: searchTMScore(mobile.coordinates, target.coordinates, mobileIdx, targetIdx, target.residues.length),
+    alignedResidues: pairs.length,
+    referenceResidues: target.residues.length,
+    identity: identical / pairs.length,
+    transform: toMatrix(fit),
+    deviations
+  };
+};
+
+// Coordinates of compared structures, shared by the comparison and the viewer so each is fetched once
+const coordinateCache = new Map<string, Promise<StructureCoordinates>>();
+const MAX_CACHED = 8;
+
+export const fetchComparedCoordinates = (pdbId: string, source?: StructureSourceId): Promise<StructureCoordinates> => {
+  const key = `${source ?? ''}:${pdbId.toUpperCase()}`;
+  let pending = coordinateCache.get(key);
+  if (!pending) {
+    pending = resolveStructureSource(pdbId, source).fetchCoordinates(pdbId);
+    pending.catch(() => coordinateCache.delete(key)); // A failed download is retried next time
+    coordinateCache.set(key, pending);
+    if (coordinateCache.size > MAX_CACHED) coordinateCache.delete(coordinateCache.keys().next().value!);
+  }
+  return pending;
+};
+
+const hexChannels = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// Blue (matches) through white to red (deviates by DEVIATION_SCALE_MAX or more), as a 0xRRGGBB number
+export const deviationColor = (deviation: number): number => {
+  const t = Math.min(1, Math.max(0, deviation / DEVIATION_SCALE_MAX)) * 2;
+  const [from, to] = t <= 1 ? [DEVIATION_GRADIENT[0], DEVIATION_GRADIENT[1]] : [DEVIATION_GRADIENT[1], DEVIATION_GRADIENT[2]];
+  const f = t <= 1 ? t : t - 1;
+  const [r, g, b] = hexChannels(from).map((c, i) => Math.round(c + (hexChannels(to)[i] - c) * f));
+  return (r << 16) | (g << 8) | b;
+};
+
+export const sameComparedStructure = (a: Pick<ComparedStructure, 'pdbId' | 'source'>, b: Pick<ComparedStructure, 'pdbId' | 'source'>) =>
+  a.pdbId.toUpperCase() === b.pdbId.toUpperCase() && a.source === b.source;
+
+// "AF-P69905-F1: RMSD 0.82 Å over 141 Cα, TM-score 0.97, 98% identity"
+export const describeComparison = (compared: ComparedStructure) =>
+  `${compared.pdbId}: RMSD ${compared.rmsd.toFixed(2)} Å over ${compared.alignedResidues} of ${compared.referenceResidues} Cα, ` +
+  `TM-score ${compared.tmScore.toFixed(2)}, ${Math.round(compared.identity * 100)}% identity`;
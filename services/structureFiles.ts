@@ -0,0 +1,33 @@
+
+import { LocalStructure, StructureFormat } from "../types";
+
+// Maps file extensions to the format key NGL expects in loadFile({ ext })
+const EXTENSION_FORMATS: Record<string, StructureFormat> = {
+  pdb: 'pdb',
+  ent: 'pdb',
+  cif: 'cif',
+  mmcif: 'cif',
+  gro: 'gro',
+  sdf: 'sdf',
+};
+
+export const STRUCTURE_FILE_ACCEPT = Object.keys(EXTENSION_FORMATS).map(ext => `.${ext}`).join(',');
+
+export const getStructureFormat = (fileName: string): StructureFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_FORMATS[ext] || null;
+};
+
+export const readStructureFile = async (file: File): Promise<LocalStructure> => {
+  const format = getStructureFormat(file.name);
+  if (!format) {
+    throw new Error(`Unsupported file type "${file.name}". Use .pdb, .cif/.mmcif, .gro or .sdf.`);
+  }
+
+  const data = await file.text();
+  if (!data.trim()) {
+    throw new Error(`File "${file.name}" is empty.`);
+  }
+
+  return { fileName: file.name, format, data };
+};
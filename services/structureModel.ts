@@ -0,0 +1,544 @@
+
+import { Atom, Chain, ParsedStructure, Residue, StructureFormat, StructureModel, StructureStats } from "../types";
+
+const WATER_NAMES = new Set(['HOH', 'WAT', 'DOD', 'H2O', 'TIP', 'TIP3', 'SOL', 'SPC']);
+
+// HETATM residues that are part of the polymer chain rather than bound ligands
+const MODIFIED_RESIDUES = new Set(['MSE', 'SEP', 'TPO', 'PTR', 'HYP', 'MLY', 'CSO', 'KCX', 'LLP', 'PCA']);
+
+// Keep only the primary conformer when alternate locations are present
+const isPrimaryAltLoc = (altLoc: string) => altLoc === '' || altLoc === 'A' || altLoc === '1';
+
+const inferElement = (atomName: string): string => {
+  const letters = atomName.replace(/[^A-Za-z]/g, '');
+  if (!letters) return 'X';
+  return letters[0].toUpperCase();
+};
+
+const parseNumber = (value: string, fallback = 0): number => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+// Group a flat atom list into residues and chains, classifying ligands and waters
+const buildModel = (id: number, atoms: Atom[]): StructureModel => {
+  const chains: Chain[] = [];
+  const chainMap = new Map<string, Chain>();
+  const ligands: Residue[] = [];
+  const waters: Residue[] = [];
+  let current: Residue | null = null;
+
+  for (const atom of atoms) {
+    if (
+      !current ||
+      current.chainId !== atom.chainId ||
+      current.seq !== atom.resSeq ||
+      current.insCode !== atom.insCode ||
+      current.name !== atom.resName
+    ) {
+      const isWater = WATER_NAMES.has(atom.resName);
+      const isLigand = atom.isHetero && !isWater && !MODIFIED_RESIDUES.has(atom.resName);
+      current = {
+        name: atom.resName,
+        chainId: atom.chainId,
+        seq: atom.resSeq,
+        insCode: atom.insCode,
+        isHetero: atom.isHetero,
+        isWater,
+        isLigand,
+        atoms: []
+      };
+
+      let chain = chainMap.get(atom.chainId);
+      if (!chain) {
+        chain = { id: atom.chainId, residues: [] };
+        chainMap.set(atom.chainId, chain);
+        chains.push(chain);
+      }
+      chain.residues.push(current);
+
+      if (isWater) waters.push(current);
+      else if (isLigand) ligands.push(current);
+    }
+    current.atoms.push(atom);
+  }
+
+  return { id, atoms, chains, ligands, waters };
+};
+
+export const parsePDB = (text: string): ParsedStructure => {
+  const models: StructureModel[] = [];
+  let atoms: Atom[] = [];
+  let modelId = 1;
+  const titleParts: string[] = [];
+  let method: string | undefined;
+  let resolution: string | undefined;
+
+  const flushModel = () => {
+    if (atoms.length > 0) models.push(buildModel(modelId, atoms));
+    atoms = [];
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const record = line.substring(0, 6).trim();
+
+    if (record === 'ATOM' || record === 'HETATM') {
+      if (!isPrimaryAltLoc(line.substring(16, 17).trim())) continue;
+      const name = line.substring(12, 16).trim();
+      atoms.push({
+        serial: parseInt(line.substring(6, 11), 10) || atoms.length + 1,
+        name,
+        element: line.substring(76, 78).trim().toUpperCase() || inferElement(name),
+        resName: line.substring(17, 20).trim(),
+        chainId: line.substring(21, 22).trim(),
+        resSeq: parseInt(line.substring(22, 26), 10) || 0,
+        insCode: line.substring(26, 27).trim(),
+        x: parseNumber(line.substring(30, 38)),
+        y: parseNumber(line.substring(38, 46)),
+        z: parseNumber(line.substring(46, 54)),
+        occupancy: parseNumber(line.substring(54, 60), 1),
+        bFactor: parseNumber(line.substring(60, 66)),
+        isHetero: record === 'HETATM'
+      });
+    } else if (record === 'MODEL') {
+      flushModel();
+      modelId = parseInt(line.substring(10, 14), 10) || models.length + 1;
+    } else if (record === 'ENDMDL') {
+      flushModel();
+      modelId = models.length + 1;
+    } else if (record === 'TITLE') {
+      titleParts.push(line.substring(10).trim());
+    } else if (record === 'EXPDTA') {
+      method = line.substring(10).trim();
+    } else if (record === 'REMARK' && line.substring(7, 10).trim() === '2') {
+      const match = line.match(/RESOLUTION\.\s+([\d.]+)\s+ANGSTROM/);
+      if (match) resolution = `${match[1]} Å`;
+    }
+  }
+  flushModel();
+
+  return {
+    format: 'pdb',
+    title: titleParts.length > 0 ? titleParts.join(' ').replace(/\s+/g, ' ') : undefined,
+    method,
+    resolution,
+    models
+  };
+};
+
+// Split a CIF data line into tokens, honouring single/double quoted values
+const tokenizeCifLine = (line: string): string[] => {
+  const tokens: string[] = [];
+  const re = /'([^']*)'(?=\s|$)|"([^"]*)"(?=\s|$)|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(line)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+};
+
+const cifValue = (value: string | undefined): string =>
+  value === undefined || value === '.' || value === '?' ? '' : value;
+
+export const parseMMCIF = (text: string): ParsedStructure => {
+  const lines = text.split(/\r?\n/);
+  const singles = new Map<string, string>();
+  const modelAtoms = new Map<number, Atom[]>();
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i].trim();
+
+    if (line === 'loop_') {
+      // Collect column names, then rows until the next loop/category/block
+      const columns: string[] = [];
+      i++;
+      while (i < lines.length && lines[i].trim().startsWith('_')) {
+        columns.push(lines[i].trim());
+        i++;
+      }
+
+      const isAtomSite = columns.length > 0 && columns[0].startsWith('_atom_site.');
+      const col = (name: string) => columns.indexOf(`_atom_site.${name}`);
+      const idx = {
+        group: col('group_PDB'),
+        id: col('id'),
+        element: col('type_symbol'),
+        atomName: col('auth_atom_id') >= 0 ? col('auth_atom_id') : col('label_atom_id'),
+        altLoc: col('label_alt_id'),
+        resName: col('auth_comp_id') >= 0 ? col('auth_comp_id') : col('label_comp_id'),
+        chainId: col('auth_asym_id') >= 0 ? col('auth_asym_id') : col('label_asym_id'),
+        resSeq: col('auth_seq_id') >= 0 ? col('auth_seq_id') : col('label_seq_id'),
+        insCode: col('pdbx_PDB_ins_code'),
+        x: col('Cartn_x'),
+        y: col('Cartn_y'),
+        z: col('Cartn_z'),
+        occupancy: col('occupancy'),
+        bFactor: col('B_iso_or_equiv'),
+        model: col('pdbx_PDB_model_num')
+      };
+
+      let pending: string[] = [];
+      while (i < lines.length) {
+        const row = lines[i].trim();
+        if (row === '' || row === '#' || row === 'loop_' || row.startsWith('_') || row.startsWith('data_')) break;
+        i++;
+        if (!isAtomSite) continue;
+
+        pending = pending.concat(tokenizeCifLine(row));
+        if (pending.length < columns.length) continue; // Row wraps onto the next line
+
+        const values = pending.slice(0, columns.length);
+        pending = pending.slice(columns.length);
+        const get = (index: number) => (index >= 0 ? cifValue(values[index]) : '');
+
+        if (!isPrimaryAltLoc(get(idx.altLoc))) continue;
+        const name = get(idx.atomName);
+        const modelNum = parseInt(get(idx.model), 10) || 1;
+        const atoms = modelAtoms.get(modelNum) || [];
+        atoms.push({
+          serial: parseInt(get(idx.id), 10) || atoms.length + 1,
+          name,
+          element: get(idx.element).toUpperCase() || inferElement(name),
+          resName: get(idx.resName),
+          chainId: get(idx.chainId),
+          resSeq: parseInt(get(idx.resSeq), 10) || 0,
+          insCode: get(idx.insCode),
+          x: parseNumber(get(idx.x)),
+          y: parseNumber(get(idx.y)),
+          z: parseNumber(get(idx.z)),
+          occupancy: parseNumber(get(idx.occupancy), 1),
+          bFactor: parseNumber(get(idx.bFactor)),
+          isHetero: get(idx.group) === 'HETATM'
+        });
+        modelAtoms.set(modelNum, atoms);
+      }
+      continue;
+    }
+
+    if (line.startsWith('_')) {
+      // Single key/value pair; the value may sit on the following line
+      const [key, ...rest] = tokenizeCifLine(line);
+      let value = rest.join(' ');
+      if (!value && i + 1 < lines.length) {
+        const next = lines[i + 1];
+        if (next.startsWith(';')) {
+          const block: string[] = [next.substring(1)];
+          i += 2;
+          while (i < lines.length && !lines[i].startsWith(';')) block.push(lines[i++]);
+          value = block.join(' ').trim();
+        } else {
+          value = tokenizeCifLine(next).join(' ');
+          i++;
+        }
+      }
+      singles.set(key, cifValue(value));
+    }
+    i++;
+  }
+
+  const resolution = singles.get('_refine.ls_d_res_high') || singles.get('_reflns.d_resolution_high') || singles.get('_em_3d_reconstruction.resolution');
+
+  return {
+    format: 'cif',
+    title: singles.get('_struct.title') || undefined,
+    method: singles.get('_exptl.method') || undefined,
+    resolution: resolution ? `${resolution} Å` : undefined,
+    models: Array.from(modelAtoms.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([id, atoms]) => buildModel(id, atoms))
+  };
+};
+
+// GROMACS .gro: fixed-width columns, coordinates in nm
+export const parseGRO = (text: string): ParsedStructure => {
+  const lines = text.split(/\r?\n/);
+  const models: StructureModel[] = [];
+  let i = 0;
+
+  while (i + 1 < lines.length) {
+    const count = parseInt(lines[i + 1].trim(), 10);
+    if (!Number.isFinite(count)) break;
+
+    const atoms: Atom[] = [];
+    for (let k = 0; k < count && i + 2 + k < lines.length; k++) {
+      const line = lines[i + 2 + k];
+      const name = line.substring(10, 15).trim();
+      const resName = line.substring(5, 10).trim();
+      atoms.push({
+        serial: parseInt(line.substring(15, 20), 10) || k + 1,
+        name,
+        element: inferElement(name),
+        resName,
+        chainId: '',
+        resSeq: parseInt(line.substring(0, 5), 10) || 0,
+        insCode: '',
+        x: parseNumber(line.substring(20, 28)) * 10,
+        y: parseNumber(line.substring(28, 36)) * 10,
+        z: parseNumber(line.substring(36, 44)) * 10,
+        occupancy: 1,
+        bFactor: 0,
+        isHetero: false
+      });
+    }
+    models.push(buildModel(models.length + 1, atoms));
+    i += count + 3; // Title + count + atoms + box vectors
+  }
+
+  return { format: 'gro', title: lines[0]?.trim() || undefined, models };
+};
+
+// MDL SD file: each molecule becomes one model containing a single ligand residue
+export const parseSDF = (text: string): ParsedStructure => {
+  const models: StructureModel[] = [];
+  const records = text.split(/^\$\$\$\$[ \t]*\r?$/m).filter(r => r.trim());
+
+  records.forEach((record, index) => {
+    // Later records start with the line break left after $$$$; a blank title line must stay
+    const lines = (index > 0 ? record.replace(/^\r?\n/, '') : record).split(/\r?\n/);
+    const countsLine = lines[3] || '';
+    const atomCount = parseInt(countsLine.substring(0, 3), 10) || 0;
+    const resName = (lines[0]?.trim() || 'LIG').substring(0, 3).toUpperCase();
+
+    const atoms: Atom[] = [];
+    for (let k = 0; k < atomCount && 4 + k < lines.length; k++) {
+      const line = lines[4 + k];
+      const element = line.substring(31, 34).trim().toUpperCase();
+      atoms.push({
+        serial: k + 1,
+        name: `${element}${k + 1}`,
+        element,
+        resName,
+        chainId: '',
+        resSeq: 1,
+        insCode: '',
+        x: parseNumber(line.substring(0, 10)),
+        y: parseNumber(line.substring(10, 20)),
+        z: parseNumber(line.substring(20, 30)),
+        occupancy: 1,
+        bFactor: 0,
+        isHetero: true
+      });
+    }
+    models.push(buildModel(models.length + 1, atoms));
+  });
+
+  return { format: 'sdf', title: records[0]?.split(/\r?\n/)[0]?.trim() || undefined, models };
+};
+
+// Residues that belong to a polymer in topology formats, which carry no ATOM/HETATM distinction
+const AMINO_ACID_RESIDUES = new Set([
+  'ALA', 'ARG', 'ASN', 'ASP', 'CYS', 'GLN', 'GLU', 'GLY', 'HIS', 'ILE', 'LEU', 'LYS', 'MET', 'PHE', 'PRO', 'SER', 'THR', 'TRP', 'TYR', 'VAL',
+  'HSD', 'HSE', 'HSP', 'HID', 'HIE', 'HIP', 'CYX', 'CYM', 'ASH', 'GLH', 'LYN', 'ACE', 'NME', 'NMA'
+]);
+const NUCLEIC_RESIDUES = new Set(['A', 'C', 'G', 'U', 'DA', 'DC', 'DG', 'DT', 'ADE', 'CYT', 'GUA', 'THY', 'URA', 'RA', 'RC', 'RG', 'RU']);
+
+// Amber names termini as N/C + residue (NALA, CGLY) and nucleotide ends as DA5, RU3
+const isAminoAcid = (resName: string) =>
+  AMINO_ACID_RESIDUES.has(resName) || (/^[NC]/.test(resName) && AMINO_ACID_RESIDUES.has(resName.substring(1)));
+const isNucleotide = (resName: string) =>
+  NUCLEIC_RESIDUES.has(resName) || (/[35]$/.test(resName) && NUCLEIC_RESIDUES.has(resName.substring(0, resName.length - 1)));
+
+// Each rule applies to its own kind only, so ions such as NA and CA are not mistaken for nucleotide termini
+const isPolymerResidue = (resName: string) => isAminoAcid(resName) || isNucleotide(resName);
+
+export type ResidueClass = 'protein' | 'nucleic' | 'water' | 'other';
+
+// Kind of residue by name alone; modified amino acids count as protein
+export const classifyResidue = (resName: string): ResidueClass => {
+  if (WATER_NAMES.has(resName)) return 'water';
+  if (isAminoAcid(resName) || MODIFIED_RESIDUES.has(resName)) return 'protein';
+  if (isNucleotide(resName)) return 'nucleic';
+  return 'other';
+};
+
+const ELEMENTS_BY_NUMBER = ['X', 'H', 'HE', 'LI', 'BE', 'B', 'C', 'N', 'O', 'F', 'NE', 'NA', 'MG', 'AL', 'SI', 'P', 'S', 'CL', 'AR', 'K', 'CA',
+  'SC', 'TI', 'V', 'CR', 'MN', 'FE', 'CO', 'NI', 'CU', 'ZN'];
+
+// Nearest element by atomic mass, for topologies that only store masses
+const elementFromMass = (mass: number, atomName: string): string => {
+  const masses: [string, number][] = [['H', 1.008], ['C', 12.011], ['N', 14.007], ['O', 15.999], ['F', 18.998], ['NA', 22.99], ['MG', 24.305],
+    ['P', 30.974], ['S', 32.06], ['CL', 35.45], ['K', 39.098], ['CA', 40.078], ['MN', 54.938], ['FE', 55.845], ['CU', 63.546], ['ZN', 65.38]];
+  let best: [string, number] | null = null;
+  for (const entry of masses) {
+    if (!best || Math.abs(entry[1] - mass) < Math.abs(best[1] - mass)) best = entry;
+  }
+  return best && Math.abs(best[1] - mass) < 0.6 ? best[0] : inferElement(atomName);
+};
+
+const topologyAtom = (serial: number, name: string, element: string, resName: string, chainId: string, resId: string): Atom => {
+  const match = resId.match(/^(-?\d+)([A-Za-z]?)$/);
+  return {
+    serial,
+    name,
+    element,
+    resName,
+    chainId,
+    resSeq: match ? parseInt(match[1], 10) : parseInt(resId, 10) || 0,
+    insCode: match ? match[2] : '',
+    x: 0,
+    y: 0,
+    z: 0,
+    occupancy: 1,
+    bFactor: 0,
+    isHetero: !isPolymerResidue(resName) && !WATER_NAMES.has(resName)
+  };
+};
+
+// CHARMM/NAMD/X-PLOR PSF: topology only, coordinates are zero until a trajectory supplies them
+export const parsePSF = (text: string): ParsedStructure => {
+  const lines = text.split(/\r?\n/);
+  const start = lines.findIndex(line => /!NATOM/.test(line));
+  if (start < 0) throw new Error('PSF file has no !NATOM section.');
+  const count = parseInt(lines[start].trim(), 10) || 0;
+  const titleStart = lines.findIndex(line => /!NTITLE/.test(line));
+  const title = titleStart >= 0 ? lines[titleStart + 1]?.replace(/^\s*(\*|REMARKS?)\s*/i, '').trim() : undefined;
+
+  const atoms: Atom[] = [];
+  for (let k = 0; k < count && start + 1 + k < lines.length; k++) {
+    // id segid resid resname name type charge mass ...
+    const fields = lines[start + 1 + k].trim().split(/\s+/);
+    if (fields.length < 8) throw new Error(`Malformed PSF atom record on line ${start + 2 + k}.`);
+    const [id, segid, resId, resName, name, , , mass] = fields;
+    atoms.push(topologyAtom(parseInt(id, 10) || k + 1, name, elementFromMass(parseNumber(mass), name), resName, segid, resId));
+  }
+  if (atoms.length !== count) throw new Error(`PSF declares ${count} atoms but contains ${atoms.length}.`);
+
+  return { format: 'psf', title: title || undefined, models: [buildModel(1, atoms)] };
+};
+
+// Amber prmtop/parm7: %FLAG sections of fixed-width fields described by %FORMAT
+export const parsePrmtop = (text: string): ParsedStructure => {
+  const sections = new Map<string, string[]>();
+  const rawSections = new Map<string, string[]>();
+  const lines = text.split(/\r?\n/);
+  let i = 0;
+  while (i < lines.length) {
+    const flag = lines[i].match(/^%FLAG\s+(\S+)/);
+    if (!flag) { i++; continue; }
+    const format = (lines[i + 1] || '').match(/%FORMAT\((\d+)[aAIiEeFf](\d+)/);
+    i += 2;
+    const values: string[] = [];
+    const raw: string[] = [];
+    while (i < lines.length && !lines[i].startsWith('%FLAG')) {
+      const line = lines[i++];
+      raw.push(line);
+      if (!format) continue;
+      const width = parseInt(format[2], 10);
+      for (let p = 0; p < line.length; p += width) {
+        const value = line.substring(p, p + width).trim();
+        if (value) values.push(value);
+      }
+    }
+    sections.set(flag[1], values);
+    rawSections.set(flag[1], raw);
+  }
+
+  const section = (name: string) => {
+    const values = sections.get(name);
+    if (!values) throw new Error(`prmtop file is missing the ${name} section.`);
+    return values;
+  };
+  const atomCount = parseInt(section('POINTERS')[0], 10) || 0;
+  const names = section('ATOM_NAME');
+  const residueLabels = section('RESIDUE_LABEL');
+  const residuePointers = section('RESIDUE_POINTER').map(v => parseInt(v, 10));
+  const atomicNumbers = sections.get('ATOMIC_NUMBER');
+  const masses = sections.get('MASS');
+  const residueNumbers = sections.get('RESIDUE_NUMBER');
+  const residueChains = sections.get('RESIDUE_CHAINID');
+
+  const atoms: Atom[] = [];
+  for (let r = 0; r < residueLabels.length; r++) {
+    const first = residuePointers[r] - 1;
+    const last = r + 1 < residuePointers.length ? residuePointers[r + 1] - 1 : atomCount;
+    for (let a = first; a < last; a++) {
+      const name = names[a] || `X${a + 1}`;
+      const number = atomicNumbers ? parseInt(atomicNumbers[a], 10) : NaN;
+      const element = number > 0 && number < ELEMENTS_BY_NUMBER.length
+        ? ELEMENTS_BY_NUMBER[number]
+        : masses ? elementFromMass(parseNumber(masses[a]), name) : inferElement(name);
+      atoms.push(topologyAtom(a + 1, name, element, residueLabels[r], residueChains?.[r] || '', residueNumbers?.[r] || String(r + 1)));
+    }
+  }
+  if (atoms.length !== atomCount) throw new Error(`prmtop declares ${atomCount} atoms but residues cover ${atoms.length}.`);
+
+  const title = (rawSections.get('TITLE') || rawSections.get('CTITLE'))?.join(' ').trim();
+  return { format: 'prmtop', title: title || undefined, models: [buildModel(1, atoms)] };
+};
+
+const cifToken = (value: string): string => {
+  if (value === '') return '.';
+  if (!/[\s'"]/.test(value) && !/^[_#$;]/.test(value)) return value;
+  return value.includes("'") ? `"${value}"` : `'${value}'`;
+};
+
+// Minimal mmCIF atom_site block; avoids the PDB column limits on serials, chain IDs and coordinates
+export const writeMMCIF = (atoms: Atom[], title = 'structure'): string => {
+  const lines = [
+    `data_${title.replace(/[^A-Za-z0-9_.-]/g, '_')}`,
+    '#',
+    `_struct.title ${cifToken(title)}`,
+    '#',
+    'loop_',
+    ...['group_PDB', 'id', 'type_symbol', 'label_atom_id', 'label_alt_id', 'label_comp_id', 'label_asym_id', 'label_seq_id',
+      'pdbx_PDB_ins_code', 'Cartn_x', 'Cartn_y', 'Cartn_z', 'occupancy', 'B_iso_or_equiv', 'auth_seq_id', 'auth_comp_id',
+      'auth_asym_id', 'auth_atom_id', 'pdbx_PDB_model_num'].map(column => `_atom_site.${column}`)
+  ];
+  atoms.forEach((atom, i) => {
+    lines.push([
+      atom.isHetero ? 'HETATM' : 'ATOM',
+      i + 1,
+      cifToken(atom.element),
+      cifToken(atom.name),
+      '.',
+      cifToken(atom.resName),
+      cifToken(atom.chainId),
+      atom.resSeq,
+      cifToken(atom.insCode),
+      atom.x.toFixed(3),
+      atom.y.toFixed(3),
+      atom.z.toFixed(3),
+      atom.occupancy.toFixed(2),
+      atom.bFactor.toFixed(2),
+      atom.resSeq,
+      cifToken(atom.resName),
+      cifToken(atom.chainId),
+      cifToken(atom.name),
+      1
+    ].join(' '));
+  });
+  lines.push('#');
+  return lines.join('\n') + '\n';
+};
+
+export const parseStructure = (text: string, format: StructureFormat): ParsedStructure => {
+  switch (format) {
+    case 'cif': return parseMMCIF(text);
+    case 'gro': return parseGRO(text);
+    case 'sdf': return parseSDF(text);
+    case 'pdb':
+    default:
+      return parsePDB(text);
+  }
+};
+
+// Counts are taken from the first model; NMR ensembles repeat the same topology
+export const getStructureStats = (structure: ParsedStructure): StructureStats => {
+  const model = structure.models[0];
+  if (!model) {
+    return { atomCount: 0, residueCount: 0, chainCount: 0, ligandCount: 0, waterCount: 0, modelCount: 0, ligandNames: [] };
+  }
+
+  const polymerChains = model.chains.filter(c => c.residues.some(r => !r.isWater && !r.isLigand));
+
+  return {
+    atomCount: model.atoms.length,
+    residueCount: model.chains.reduce((sum, c) => sum + c.residues.filter(r => !r.isWater && !r.isLigand).length, 0),
+    chainCount: polymerChains.length,
+    ligandCount: model.ligands.length,
+    waterCount: model.waters.length,
+    modelCount: structure.models.length,
+    ligandNames: Array.from(new Set(model.ligands.map(r => r.name)))
+  };
+};
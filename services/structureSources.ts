@@ -0,0 +1,190 @@
+
+import { StructureFormat, StructureMetadata, StructureSourceId } from "../types";
+import { getStructureFormat } from "./structureFiles";
+
+export interface StructureCoordinates {
+  text: string;
+  format: StructureFormat;
+}
+
+export interface StructureSourceProvider {
+  id: StructureSourceId;
+  label: string;
+  fetchMetadata: (id: string) => Promise<StructureMetadata | null>;
+  fetchCoordinates: (id: string) => Promise<StructureCoordinates>;
+}
+
+// Build-time configuration (see vite.config.ts / .env.local)
+const DEFAULT_SOURCE = (process.env.STRUCTURE_SOURCE || 'rcsb') as StructureSourceId;
+const CUSTOM_URL_TEMPLATE = process.env.STRUCTURE_SOURCE_URL || '';
+const MIRROR_BASE_URL = (process.env.STRUCTURE_MIRROR_URL || '/structures').replace(/\/+$/, '');
+
+const ALPHAFOLD_ID = /^AF-([A-Z0-9]+)-F\d+$/i;
+const UNIPROT_ACCESSION = /^([OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9]([A-Z][A-Z0-9]{2}[0-9]){1,2})$/i;
+
+const fetchText = async (url: string, label: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${label} (${response.status})`);
+  }
+  return response.text();
+};
+
+const fetchJson = async (url: string): Promise<any | null> => {
+  try {
+    const response = await fetch(url);
+    return response.ok ? await response.json() : null;
+  } catch (e) {
+    console.warn(`Failed to fetch metadata from ${url}`, e);
+    return null;
+  }
+};
+
+const rcsbSource: StructureSourceProvider = {
+  id: 'rcsb',
+  label: 'RCSB PDB',
+  fetchMetadata: async (id) => {
+    const data = await fetchJson(`https://data.rcsb.org/rest/v1/core/entry/${id}`);
+    if (!data) return null;
+    return {
+      title: data.struct?.title || 'Unknown Title',
+      method: data.exptl?.[0]?.method || 'Unknown Method',
+      resolution: data.rcsb_entry_info?.resolution_combined?.[0]
+          ? `${data.rcsb_entry_info.resolution_combined[0]} Å`
+          : 'N/A',
+      keywords: data.struct_keywords?.pdbx_keywords || 'N/A',
+      releaseDate: data.rcsb_accession_info?.initial_release_date
+          ? new Date(data.rcsb_accession_info.initial_release_date).getFullYear().toString()
+          : ''
+    };
+  },
+  fetchCoordinates: async (id) => {
+    try {
+      return { text: await fetchText(`https://files.rcsb.org/download/${id}.pdb`, `PDB ${id}`), format: 'pdb' };
+    } catch (e) {
+      // Large entries are only distributed as mmCIF
+      return { text: await fetchText(`https://files.rcsb.org/download/${id}.cif`, `PDB ${id}`), format: 'cif' };
+    }
+  }
+};
+
+// AlphaFold DB accepts either a full model ID (AF-P69905-F1) or a bare UniProt accession
+const toUniprotAccession = (id: string) => id.match(ALPHAFOLD_ID)?.[1] || id;
+
+const alphafoldSource: StructureSourceProvider = {
+  id: 'alphafold',
+  label: 'AlphaFold DB',
+  fetchMetadata: async (id) => {
+    const data = await fetchJson(`https://alphafold.ebi.ac.uk/api/prediction/${toUniprotAccession(id)}`);
+    const entry = Array.isArray(data) ? data[0] : null;
+    if (!entry) return null;
+    return {
+      title: entry.uniprotDescription || `AlphaFold model ${entry.entryId || id}`,
+      method: `AlphaFold v${entry.latestVersion || '?'} Prediction`,
+      resolution: entry.globalMetricValue ? `pLDDT ${entry.globalMetricValue}` : 'N/A',
+      keywords: entry.organismScientificName || 'Predicted Structure',
+      releaseDate: entry.modelCreatedDate ? new Date(entry.modelCreatedDate).getFullYear().toString() : ''
+    };
+  },
+  fetchCoordinates: async (id) => {
+    const accession = toUniprotAccession(id);
+    const data = await fetchJson(`https://alphafold.ebi.ac.uk/api/prediction/${accession}`);
+    const pdbUrl = Array.isArray(data) && data[0]?.pdbUrl
+      ? data[0].pdbUrl
+      : `https://alphafold.ebi.ac.uk/files/AF-${accession}-F1-model_v4.pdb`;
+    return { text: await fetchText(pdbUrl, `AlphaFold model ${id}`), format: 'pdb' };
+  }
+};
+
+const pdbeSource: StructureSourceProvider = {
+  id: 'pdbe',
+  label: 'PDBe',
+  fetchMetadata: async (id) => {
+    const data = await fetchJson(`https://www.ebi.ac.uk/pdbe/api/pdb/entry/summary/${id.toLowerCase()}`);
+    const entry = data?.[id.toLowerCase()]?.[0];
+    if (!entry) return null;
+    return {
+      title: entry.title || 'Unknown Title',
+      method: entry.experimental_method?.[0] || 'Unknown Method',
+      resolution: 'N/A',
+      keywords: entry.assemblies?.[0]?.name || 'N/A',
+      releaseDate: entry.release_date ? String(entry.release_date).substring(0, 4) : ''
+    };
+  },
+  fetchCoordinates: async (id) => ({
+    text: await fetchText(`https://www.ebi.ac.uk/pdbe/entry-files/download/pdb${id.toLowerCase()}.ent`, `PDBe entry ${id}`),
+    format: 'pdb'
+  })
+};
+
+// Arbitrary server described by a URL template, e.g. https://example.org/models/{id}.cif
+const customSource: StructureSourceProvider = {
+  id: 'custom',
+  label: 'Custom URL',
+  fetchMetadata: async () => null,
+  fetchCoordinates: async (id) => {
+    if (!CUSTOM_URL_TEMPLATE) {
+      throw new Error('No custom structure URL configured. Set STRUCTURE_SOURCE_URL (use {id} as placeholder).');
+    }
+    const url = CUSTOM_URL_TEMPLATE.replace(/\{id\}/g, id);
+    const format = getStructureFormat(url.split('?')[0]) || 'pdb';
+    return { text: await fetchText(url, `structure ${id}`), format };
+  }
+};
+
+// Static mirror laid out as <base>/<ID>.pdb|.cif with optional <base>/<ID>.json metadata.
+// Serve a local directory over HTTP or drop files in public/structures for the default base.
+const mirrorSource: StructureSourceProvider = {
+  id: 'mirror',
+  label: 'Local Mirror',
+  fetchMetadata: async (id) => {
+    const data = await fetchJson(`${MIRROR_BASE_URL}/${id}.json`);
+    return data?.title ? data as StructureMetadata : null;
+  },
+  fetchCoordinates: async (id) => {
+    const candidates: StructureFormat[] = ['pdb', 'cif'];
+    for (const name of [id, id.toLowerCase()]) {
+      for (const format of candidates) {
+        try {
+          const response = await fetch(`${MIRROR_BASE_URL}/${name}.${format}`);
+          if (response.ok) return { text: await response.text(), format };
+        } catch (e) {
+          // Try the next candidate
+        }
+      }
+    }
+    throw new Error(`Structure ${id} not found in mirror ${MIRROR_BASE_URL}`);
+  }
+};
+
+export const STRUCTURE_SOURCES: Record<StructureSourceId, StructureSourceProvider> = {
+  rcsb: rcsbSource,
+  alphafold: alphafoldSource,
+  pdbe: pdbeSource,
+  custom: customSource,
+  mirror: mirrorSource
+};
+
+export const isStructureSourceId = (value: unknown): value is StructureSourceId =>
+  typeof value === 'string' && value in STRUCTURE_SOURCES;
+
+const PDB_ID = /^[0-9][A-Z0-9]{3}$/i;
+const EXTENDED_PDB_ID = /^pdb_[0-9]{4}[0-9][A-Z0-9]{3}$/i;
+const LOCAL_ID = /^[A-Z0-9][A-Z0-9_.-]{0,63}$/i; // Mirror and custom sources name their own entries
+
+// Whether `id` is an identifier the chosen (or inferred) source can look up
+export const isStructureId = (id: string, source?: StructureSourceId): boolean => {
+  if (source === 'mirror' || source === 'custom') return LOCAL_ID.test(id);
+  if (source === 'alphafold') return ALPHAFOLD_ID.test(id) || UNIPROT_ACCESSION.test(id);
+  return PDB_ID.test(id) || EXTENDED_PDB_ID.test(id) || (!source && (ALPHAFOLD_ID.test(id) || UNIPROT_ACCESSION.test(id)));
+};
+
+// Explicit source wins; otherwise infer from the identifier, then fall back to the configured default.
+// Self-hosted defaults (mirror/custom) are never overridden so air-gapped setups stay offline.
+export const resolveStructureSource = (id: string, source?: StructureSourceId): StructureSourceProvider => {
+  if (source && STRUCTURE_SOURCES[source]) return STRUCTURE_SOURCES[source];
+  const fallback = STRUCTURE_SOURCES[DEFAULT_SOURCE] || rcsbSource;
+  if (fallback.id === 'mirror' || fallback.id === 'custom') return fallback;
+  if (ALPHAFOLD_ID.test(id) || UNIPROT_ACCESSION.test(id)) return alphafoldSource;
+  return fallback;
+};
@@ -0,0 +1,134 @@
+
+// Optimal rigid-body superposition (Kabsch) via the quaternion formulation (Horn 1987).
+// Coordinates are flat xyz arrays; an optional index list restricts the fit to a subset of atoms.
+
+type Coordinates = ArrayLike<number>;
+
+export type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+export interface Superposition {
+  rmsd: number;
+  rotation: Matrix3; // Row-major; maps centred mobile coordinates onto centred target coordinates
+  mobileCenter: [number, number, number];
+  targetCenter: [number, number, number];
+}
+
+const centroid = (coords: Coordinates, indices: ArrayLike<number>): [number, number, number] => {
+  let x = 0, y = 0, z = 0;
+  for (let k = 0; k < indices.length; k++) {
+    const i = indices[k];
+    x += coords[3 * i]; y += coords[3 * i + 1]; z += coords[3 * i + 2];
+  }
+  const n = indices.length || 1;
+  return [x / n, y / n, z / n];
+};
+
+// Jacobi eigen-decomposition of a symmetric 4x4 matrix; returns the eigenvector of the largest eigenvalue
+const largestEigenpair = (m: number[][]): { value: number; vector: number[] } => {
+  const a = m.map(row => row.slice());
+  const v = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < 3; p++) for (let q = p + 1; q < 4; q++) off += a[p][q] * a[p][q];
+    if (off < 1e-20) break;
+
+    for (let p = 0; p < 3; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        if (Math.abs(a[p][q]) < 1e-30) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  let best = 0;
+  for (let k = 1; k < 4; k++) if (a[k][k] > a[best][best]) best = k;
+  return { value: a[best][best], vector: [v[0][best], v[1][best], v[2][best], v[3][best]] };
+};
+
+const allIndices = (coords: Coordinates) => {
+  const n = Math.floor(coords.length / 3);
+  const indices = new Int32Array(n);
+  for (let i = 0; i < n; i++) indices[i] = i;
+  return indices;
+};
+
+/**
+ * Superposes `mobile` onto `target` using the atoms in `indices` (both arrays share atom order).
+ * `targetIndices` may be given when the two coordinate sets use different atom numbering.
+ */
+export const kabsch = (
+  mobile: Coordinates,
+  target: Coordinates,
+  indices: ArrayLike<number> = allIndices(mobile),
+  targetIndices: ArrayLike<number> = indices
+): Superposition => {
+  const n = indices.length;
+  const mc = centroid(mobile, indices);
+  const tc = centroid(target, targetIndices);
+
+  let sxx = 0, sxy = 0, sxz = 0, syx = 0, syy = 0, syz = 0, szx = 0, szy = 0, szz = 0;
+  let g = 0;
+  for (let k = 0; k < n; k++) {
+    const i = indices[k], j = targetIndices[k];
+    const x1 = mobile[3 * i] - mc[0], y1 = mobile[3 * i + 1] - mc[1], z1 = mobile[3 * i + 2] - mc[2];
+    const x2 = target[3 * j] - tc[0], y2 = target[3 * j + 1] - tc[1], z2 = target[3 * j + 2] - tc[2];
+    g += x1 * x1 + y1 * y1 + z1 * z1 + x2 * x2 + y2 * y2 + z2 * z2;
+    sxx += x1 * x2; sxy += x1 * y2; sxz += x1 * z2;
+    syx += y1 * x2; syy += y1 * y2; syz += y1 * z2;
+    szx += z1 * x2; szy += z1 * y2; szz += z1 * z2;
+  }
+
+  const { value, vector: [q0, q1, q2, q3] } = largestEigenpair([
+    [sxx + syy + szz, syz - szy, szx - sxz, sxy - syx],
+    [syz - szy, sxx - syy - szz, sxy + syx, szx + sxz],
+    [szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy],
+    [sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz]
+  ]);
+
+  const rotation: Matrix3 = [
+    q0 * q0 + q1 * q1 - q2 * q2 - q3 * q3, 2 * (q1 * q2 - q0 * q3), 2 * (q1 * q3 + q0 * q2),
+    2 * (q1 * q2 + q0 * q3), q0 * q0 - q1 * q1 + q2 * q2 - q3 * q3, 2 * (q2 * q3 - q0 * q1),
+    2 * (q1 * q3 - q0 * q2), 2 * (q2 * q3 + q0 * q1), q0 * q0 - q1 * q1 - q2 * q2 + q3 * q3
+  ];
+
+  return {
+    rmsd: n > 0 ? Math.sqrt(Math.max(0, (g - 2 * value) / n)) : NaN,
+    rotation,
+    mobileCenter: mc,
+    targetCenter: tc
+  };
+};
+
+// Returns a copy of `coords` moved into the target frame of a superposition
+export const applySuperposition = (coords: Coordinates, fit: Superposition): Float32Array => {
+  const out = new Float32Array(coords.length);
+  const [r0, r1, r2, r3, r4, r5, r6, r7, r8] = fit.rotation;
+  const [mx, my, mz] = fit.mobileCenter;
+  const [tx, ty, tz] = fit.targetCenter;
+  for (let i = 0; i < coords.length; i += 3) {
+    const x = coords[i] - mx, y = coords[i + 1] - my, z = coords[i + 2] - mz;
+    out[i] = r0 * x + r1 * y + r2 * z + tx;
+    out[i + 1] = r3 * x + r4 * y + r5 * z + ty;
+    out[i + 2] = r6 * x + r7 * y + r8 * z + tz;
+  }
+  return out;
+};
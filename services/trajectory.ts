@@ -0,0 +1,84 @@
+
+import { Atom, RMSDSettings, Trajectory } from "../types";
+import { kabsch } from "./superposition";
+import { NUCLEIC_BACKBONE, PROTEIN_BACKBONE, selectAtoms } from "./atomSelection";
+
+export const DEFAULT_RMSD_SETTINGS: RMSDSettings = { reference: 'crystal', selection: 'calpha' };
+
+// Atoms of a saved selection; one that no longer parses selects nothing
+const namedSelectionMask = (atoms: Atom[], settings: RMSDSettings): Uint8Array => {
+  const mask = new Uint8Array(atoms.length);
+  if (settings.selection !== 'named' || !settings.named) return mask;
+  try {
+    selectAtoms(atoms, settings.named.expression).forEach(i => { mask[i] = 1; });
+  } catch {
+    // Reported as an empty selection by the Analysis view
+  }
+  return mask;
+};
+
+// Indices of trajectory atoms that take part in the RMSD fit
+export const selectRMSDAtoms = (atoms: Atom[], settings: RMSDSettings): Int32Array => {
+  const picked: number[] = [];
+  const named = namedSelectionMask(atoms, settings);
+  atoms.forEach((atom, i) => {
+    if (atom.element === 'H') return;
+    switch (settings.selection) {
+      case 'calpha':
+        if (atom.name === 'CA' || atom.name === "C4'" || atom.name === 'P') picked.push(i);
+        break;
+      case 'backbone':
+        if (PROTEIN_BACKBONE.has(atom.name) || NUCLEIC_BACKBONE.has(atom.name)) picked.push(i);
+        break;
+      case 'heavy':
+        picked.push(i);
+        break;
+      case 'range': {
+        const range = settings.range;
+        if (!range) return;
+        if (range.chainId && atom.chainId !== range.chainId) return;
+        if (atom.resSeq >= range.start && atom.resSeq <= range.end) picked.push(i);
+        break;
+      }
+      case 'named':
+        if (named[i]) picked.push(i);
+        break;
+    }
+  });
+  return Int32Array.from(picked);
+};
+
+export const atomCoordinates = (atoms: Atom[]): Float32Array => {
+  const coords = new Float32Array(atoms.length * 3);
+  atoms.forEach((atom, i) => {
+    coords[3 * i] = atom.x;
+    coords[3 * i + 1] = atom.y;
+    coords[3 * i + 2] = atom.z;
+  });
+  return coords;
+};
+
+export const getReferenceCoordinates = (trajectory: Trajectory, settings: RMSDSettings): Float32Array | null => {
+  const { frames } = trajectory;
+  switch (settings.reference) {
+    case 'first':
+      return frames[0]?.coordinates ?? null;
+    case 'minimized': {
+      // Last frame of the minimization stage; falls back to the first frame for imported trajectories
+      let last = -1;
+      frames.forEach((frame, i) => { if (frame.stage === 'minimization') last = i; });
+      return frames[last >= 0 ? last : 0]?.coordinates ?? null;
+    }
+    case 'crystal':
+    default:
+      return atomCoordinates(trajectory.atoms);
+  }
+};
+
+// Superposed RMSD of every frame against the chosen reference; NaN when the selection is empty
+export const computeRMSDSeries = (trajectory: Trajectory, settings: RMSDSettings): number[] => {
+  const indices = selectRMSDAtoms(trajectory.atoms, settings);
+  const reference = getReferenceCoordinates(trajectory, settings);
+  if (!reference || indices.length === 0) return trajectory.frames.map(() => NaN);
+  return trajectory.frames.map(frame => kabsch(frame.coordinates, reference, indices).rmsd);
+};
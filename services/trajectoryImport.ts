@@ -0,0 +1,159 @@
+
+import { Atom, LocalStructure, ParsedStructure, SimulationData, TopologyFormat, Trajectory, TrajectoryFormat, TrajectoryFrame } from "../types";
+import { getStructureFormat } from "./structureFiles";
+import { parsePrmtop, parsePSF, parseStructure, parseMMCIF, writeMMCIF } from "./structureModel";
+import { readDCD, readTRR, readXTC, estimateFrameStride, RawTrajectory } from "./trajectoryReaders";
+import { computeRMSDSeries } from "./trajectory";
+
+const TOPOLOGY_EXTENSIONS: Record<string, TopologyFormat> = {
+  psf: 'psf',
+  prmtop: 'prmtop',
+  parm7: 'prmtop',
+};
+
+const TRAJECTORY_EXTENSIONS: Record<string, TrajectoryFormat> = {
+  dcd: 'dcd',
+  xtc: 'xtc',
+  trr: 'trr',
+  pdb: 'pdb',
+};
+
+// Rough on-disk bytes per atom per frame, used to pick a stride before decoding
+const BYTES_PER_ATOM: Record<TrajectoryFormat, number> = { dcd: 12, trr: 12, xtc: 4, pdb: 81 };
+
+export const TOPOLOGY_FILE_ACCEPT = ['.pdb', '.ent', '.cif', '.mmcif', '.gro', '.psf', '.prmtop', '.parm7'].join(',');
+export const TRAJECTORY_FILE_ACCEPT = Object.keys(TRAJECTORY_EXTENSIONS).map(ext => `.${ext}`).join(',');
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const getTrajectoryFormat = (fileName: string): TrajectoryFormat | null => TRAJECTORY_EXTENSIONS[extensionOf(fileName)] || null;
+
+// Binary trajectories only; a lone PDB is a structure, not a trajectory
+export const isTrajectoryFile = (fileName: string) => ['dcd', 'xtc', 'trr'].includes(extensionOf(fileName));
+
+export interface ImportedTrajectory {
+  localStructure: LocalStructure;
+  parsedStructure: ParsedStructure;
+  trajectory: Trajectory;
+  simulationData: SimulationData[];
+}
+
+const readTopology = async (file: File): Promise<ParsedStructure> => {
+  const text = await file.text();
+  if (!text.trim()) throw new Error(`File "${file.name}" is empty.`);
+
+  const topologyFormat = TOPOLOGY_EXTENSIONS[extensionOf(file.name)];
+  if (topologyFormat === 'psf') return parsePSF(text);
+  if (topologyFormat === 'prmtop') return parsePrmtop(text);
+
+  const format = getStructureFormat(file.name);
+  if (!format || format === 'sdf') {
+    throw new Error(`Unsupported topology "${file.name}". Use .pdb, .cif/.mmcif, .gro, .psf or .prmtop.`);
+  }
+  return parseStructure(text, format);
+};
+
+// Every model of a multi-model PDB/mmCIF/GRO becomes one frame, numbered in place of a time axis
+const modelFrames = (structure: ParsedStructure, atomCount: number): RawTrajectory => {
+  structure.models.forEach(model => {
+    if (model.atoms.length !== atomCount) {
+      throw new Error(`Model ${model.id} has ${model.atoms.length} atoms; expected ${atomCount}.`);
+    }
+  });
+  return {
+    atomCount,
+    totalFrames: structure.models.length,
+    frames: structure.models.map((model, i) => {
+      const coordinates = new Float32Array(atomCount * 3);
+      model.atoms.forEach((atom, k) => {
+        coordinates[3 * k] = atom.x;
+        coordinates[3 * k + 1] = atom.y;
+        coordinates[3 * k + 2] = atom.z;
+      });
+      return { time: i, coordinates };
+    })
+  };
+};
+
+const readTrajectory = async (file: File, format: TrajectoryFormat, atomCount: number): Promise<{ raw: RawTrajectory; stride: number }> => {
+  if (format === 'pdb') {
+    return { raw: modelFrames(parseStructure(await file.text(), 'pdb'), atomCount), stride: 1 };
+  }
+
+  const stride = estimateFrameStride(atomCount, file.size / Math.max(1, atomCount * BYTES_PER_ATOM[format]));
+  const buffer = await file.arrayBuffer();
+  const raw = format === 'dcd' ? readDCD(buffer, stride) : format === 'trr' ? readTRR(buffer, stride) : readXTC(buffer, stride);
+  return { raw, stride };
+};
+
+/**
+ * Pairs a topology with a trajectory file (or uses the models of a multi-model topology) and
+ * returns everything the viewer and analysis panel need. The topology is re-emitted as mmCIF so
+ * NGL and the playback map see identical atom identifiers.
+ */
+export const importTrajectory = async (topologyFile: File, trajectoryFile?: File): Promise<ImportedTrajectory> => {
+  const topology = await readTopology(topologyFile);
+  const model = topology.models[0];
+  if (!model || model.atoms.length === 0) throw new Error(`No atoms found in ${topologyFile.name}.`);
+  const atomCount = model.atoms.length;
+
+  let format: TrajectoryFormat;
+  let result: { raw: RawTrajectory; stride: number };
+  if (trajectoryFile) {
+    const trajectoryFormat = getTrajectoryFormat(trajectoryFile.name);
+    if (!trajectoryFormat) {
+      throw new Error(`Unsupported trajectory "${trajectoryFile.name}". Use .dcd, .xtc, .trr or a multi-model .pdb.`);
+    }
+    format = trajectoryFormat;
+    result = await readTrajectory(trajectoryFile, format, atomCount);
+  } else {
+    if (topology.models.length < 2) {
+      throw new Error(`${topologyFile.name} contains a single model; select a trajectory file to go with it.`);
+    }
+    format = 'pdb';
+    result = { raw: modelFrames(topology, atomCount), stride: 1 };
+  }
+
+  const { raw, stride } = result;
+  if (raw.atomCount !== atomCount) {
+    throw new Error(`Atom count mismatch: topology has ${atomCount} atoms, trajectory has ${raw.atomCount}.`);
+  }
+  if (raw.frames.length === 0) throw new Error(`No frames found in ${trajectoryFile?.name || topologyFile.name}.`);
+
+  // Topologies without coordinates take the first frame as the reference structure
+  const hasCoordinates = !TOPOLOGY_EXTENSIONS[extensionOf(topologyFile.name)];
+  const first = raw.frames[0].coordinates;
+  const atoms: Atom[] = model.atoms.map((atom, i) => ({
+    ...atom,
+    chainId: atom.chainId || 'A',
+    x: hasCoordinates ? atom.x : first[3 * i],
+    y: hasCoordinates ? atom.y : first[3 * i + 1],
+    z: hasCoordinates ? atom.z : first[3 * i + 2]
+  }));
+
+  const data = writeMMCIF(atoms, topology.title || topologyFile.name);
+  const parsedStructure = parseMMCIF(data);
+  const frames: TrajectoryFrame[] = raw.frames.map(frame => ({ time: frame.time, coordinates: frame.coordinates }));
+  const trajectory: Trajectory = {
+    atoms: parsedStructure.models[0].atoms,
+    frames,
+    source: {
+      topologyFileName: topologyFile.name,
+      fileName: trajectoryFile?.name || topologyFile.name,
+      format,
+      totalFrames: raw.totalFrames,
+      stride
+    }
+  };
+
+  // Initial Cα RMSD against the first frame; systems without Cα fall back to heavy atoms
+  let rmsd = computeRMSDSeries(trajectory, { reference: 'first', selection: 'calpha' });
+  if (rmsd.every(v => Number.isNaN(v))) rmsd = computeRMSDSeries(trajectory, { reference: 'first', selection: 'heavy' });
+
+  return {
+    localStructure: { fileName: topologyFile.name, format: 'cif', data },
+    parsedStructure,
+    trajectory,
+    simulationData: frames.map((frame, i) => ({ time: frame.time, rmsd: parseFloat((rmsd[i] || 0).toFixed(3)) }))
+  };
+};
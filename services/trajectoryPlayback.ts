@@ -0,0 +1,112 @@
+
+import { Trajectory } from "../types";
+
+// Links every atom of a loaded NGL structure to the trajectory that drives it
+export interface PlaybackMap {
+  base: Float32Array; // Original NGL positions
+  frameAtom: Int32Array; // Trajectory atom index per NGL atom, or -1
+  residueGroup: Int32Array; // Residue group per NGL atom, or -1 when its residue has no trajectory atoms
+  groupMembers: number[][]; // Trajectory atom indices belonging to each residue group
+}
+
+const residueKey = (chainId: string, resSeq: number, insCode: string) => `${chainId}|${resSeq}|${insCode}`;
+
+export const buildPlaybackMap = (structure: any, trajectory: Trajectory): PlaybackMap => {
+  const atomLookup = new Map<string, number>();
+  const residueLookup = new Map<string, number[]>();
+  trajectory.atoms.forEach((atom, i) => {
+    const key = residueKey(atom.chainId, atom.resSeq, atom.insCode);
+    atomLookup.set(`${key}|${atom.name}`, i);
+    const members = residueLookup.get(key) || [];
+    members.push(i);
+    residueLookup.set(key, members);
+  });
+
+  const count = structure.atomCount;
+  const base = new Float32Array(count * 3);
+  const frameAtom = new Int32Array(count).fill(-1);
+  const residueGroup = new Int32Array(count).fill(-1);
+  const groupMembers: number[][] = [];
+  const groupIndex = new Map<string, number>();
+
+  structure.eachAtom((ap: any) => {
+    const i = ap.index;
+    base[3 * i] = ap.x;
+    base[3 * i + 1] = ap.y;
+    base[3 * i + 2] = ap.z;
+
+    const key = residueKey(ap.chainname || '', ap.resno, ap.inscode || '');
+    const direct = atomLookup.get(`${key}|${ap.atomname}`);
+    if (direct !== undefined) frameAtom[i] = direct;
+
+    const members = residueLookup.get(key);
+    if (members) {
+      let group = groupIndex.get(key);
+      if (group === undefined) {
+        group = groupMembers.length;
+        groupMembers.push(members);
+        groupIndex.set(key, group);
+      }
+      residueGroup[i] = group;
+    }
+  });
+
+  return { base, frameAtom, residueGroup, groupMembers };
+};
+
+// Moving average over ±window frames to damp thermal jitter during playback
+export const smoothedFrame = (trajectory: Trajectory, index: number, window: number): Float32Array => {
+  const { frames } = trajectory;
+  if (window <= 0) return frames[index].coordinates;
+
+  const start = Math.max(0, index - window);
+  const end = Math.min(frames.length - 1, index + window);
+  const out = new Float32Array(frames[index].coordinates.length);
+  for (let f = start; f <= end; f++) {
+    const coords = frames[f].coordinates;
+    for (let k = 0; k < out.length; k++) out[k] += coords[k];
+  }
+  const n = end - start + 1;
+  for (let k = 0; k < out.length; k++) out[k] /= n;
+  return out;
+};
+
+/**
+ * Full NGL position array for a trajectory frame. Atoms present in the trajectory take their
+ * frame coordinates; the rest of their residue follows the residue's mean displacement, which
+ * keeps side chains attached when only Cα beads were simulated.
+ */
+export const framePositions = (map: PlaybackMap, trajectory: Trajectory, coords: Float32Array): Float32Array => {
+  const { base, frameAtom, residueGroup, groupMembers } = map;
+  const atoms = trajectory.atoms;
+
+  const shifts = groupMembers.map(members => {
+    let dx = 0, dy = 0, dz = 0;
+    for (const m of members) {
+      dx += coords[3 * m] - atoms[m].x;
+      dy += coords[3 * m + 1] - atoms[m].y;
+      dz += coords[3 * m + 2] - atoms[m].z;
+    }
+    return [dx / members.length, dy / members.length, dz / members.length];
+  });
+
+  const out = new Float32Array(base.length);
+  for (let i = 0; i < frameAtom.length; i++) {
+    const direct = frameAtom[i];
+    if (direct >= 0) {
+      out[3 * i] = coords[3 * direct];
+      out[3 * i + 1] = coords[3 * direct + 1];
+      out[3 * i + 2] = coords[3 * direct + 2];
+    } else if (residueGroup[i] >= 0) {
+      const [dx, dy, dz] = shifts[residueGroup[i]];
+      out[3 * i] = base[3 * i] + dx;
+      out[3 * i + 1] = base[3 * i + 1] + dy;
+      out[3 * i + 2] = base[3 * i + 2] + dz;
+    } else {
+      out[3 * i] = base[3 * i];
+      out[3 * i + 1] = base[3 * i + 1];
+      out[3 * i + 2] = base[3 * i + 2];
+    }
+  }
+  return out;
+};
@@ -0,0 +1,409 @@
+
+// Binary MD trajectory readers (and a DCD writer for exports). All coordinates are in Å.
+
+export interface RawFrame {
+  time: number; // ps
+  coordinates: Float32Array;
+}
+
+export interface RawTrajectory {
+  atomCount: number;
+  frames: RawFrame[];
+  totalFrames: number; // Frames in the file, before striding
+}
+
+const AKMA_TIME_PS = 0.04888821; // CHARMM internal time unit
+
+// ---------------------------------------------------------------------------
+// DCD (CHARMM / NAMD / OpenMM): Fortran unformatted records
+// ---------------------------------------------------------------------------
+
+export const readDCD = (buffer: ArrayBuffer, stride = 1): RawTrajectory => {
+  const view = new DataView(buffer);
+  // Detect endianness from the first record marker (84 bytes)
+  const little = view.getInt32(0, true) === 84;
+  if (!little && view.getInt32(0, false) !== 84) {
+    throw new Error('Not a DCD file (unexpected header record).');
+  }
+  const int = (offset: number) => view.getInt32(offset, little);
+
+  if (String.fromCharCode(...new Uint8Array(buffer, 4, 4)) !== 'CORD') {
+    throw new Error('Unsupported DCD variant (missing CORD signature).');
+  }
+
+  const icntrl = (i: number) => int(8 + 4 * i);
+  const declaredFrames = icntrl(0);
+  const istart = icntrl(1);
+  const nsavc = icntrl(2) || 1;
+  const fixedAtoms = icntrl(8);
+  const isCharmm = icntrl(19) !== 0;
+  const delta = isCharmm ? view.getFloat32(8 + 4 * 9, little) : view.getFloat64(8 + 4 * 9, little);
+  const hasUnitCell = isCharmm && icntrl(10) !== 0;
+  const has4D = isCharmm && icntrl(11) !== 0;
+  if (fixedAtoms !== 0) throw new Error('DCD files with fixed atoms are not supported.');
+
+  // Title record
+  let offset = 4 + 84 + 4;
+  const titleLength = int(offset);
+  offset += 4 + titleLength + 4;
+
+  // Atom count record
+  const atomCount = int(offset + 4);
+  offset += 4 + 4 + 4;
+
+  const axisBytes = 4 + 4 * atomCount + 4;
+  const frameBytes = (hasUnitCell ? 4 + 48 + 4 : 0) + axisBytes * (has4D ? 4 : 3);
+  const totalFrames = Math.min(declaredFrames || Infinity, Math.floor((buffer.byteLength - offset) / frameBytes));
+
+  const frames: RawFrame[] = [];
+  for (let f = 0; f < totalFrames; f += stride) {
+    let p = offset + f * frameBytes + (hasUnitCell ? 4 + 48 + 4 : 0);
+    const coordinates = new Float32Array(atomCount * 3);
+    for (let axis = 0; axis < 3; axis++) {
+      p += 4; // Record marker
+      for (let i = 0; i < atomCount; i++) {
+        coordinates[3 * i + axis] = view.getFloat32(p + 4 * i, little);
+      }
+      p += 4 * atomCount + 4;
+    }
+    frames.push({ time: (istart + f * nsavc) * delta * AKMA_TIME_PS, coordinates });
+  }
+
+  return { atomCount, frames, totalFrames };
+};
+
+// Little-endian CHARMM-flavoured DCD without unit cell, readable by VMD, MDAnalysis and readDCD
+export const writeDCD = (frames: Float32Array[], atomCount: number, frameIntervalPs = 1, title = 'MolSim AI export'): Uint8Array => {
+  const axisBytes = 4 + 4 * atomCount + 4;
+  const headerBytes = (4 + 84 + 4) + (4 + 84 + 4) + (4 + 4 + 4);
+  const buffer = new ArrayBuffer(headerBytes + frames.length * 3 * axisBytes);
+  const view = new DataView(buffer);
+  let offset = 0;
+  const int = (value: number) => { view.setInt32(offset, value, true); offset += 4; };
+
+  int(84);
+  new Uint8Array(buffer, offset, 4).set([67, 79, 82, 68]); // 'CORD'
+  offset += 4;
+  const icntrl = new Int32Array(20);
+  icntrl[0] = frames.length;
+  icntrl[2] = 1; // Every frame saved
+  icntrl[3] = frames.length;
+  icntrl[19] = 24; // CHARMM version: float32 DELTA, extended header
+  icntrl.forEach((value, i) => view.setInt32(offset + 4 * i, value, true));
+  view.setFloat32(offset + 4 * 9, frameIntervalPs / AKMA_TIME_PS, true);
+  offset += 80;
+  int(84);
+
+  int(84);
+  int(1); // One 80-character title line
+  const line = title.slice(0, 80).padEnd(80, ' ');
+  for (let i = 0; i < 80; i++) view.setUint8(offset + i, line.charCodeAt(i) & 0x7f);
+  offset += 80;
+  int(84);
+
+  int(4);
+  int(atomCount);
+  int(4);
+
+  frames.forEach(coordinates => {
+    for (let axis = 0; axis < 3; axis++) {
+      int(4 * atomCount);
+      for (let i = 0; i < atomCount; i++) view.setFloat32(offset + 4 * i, coordinates[3 * i + axis], true);
+      offset += 4 * atomCount;
+      int(4 * atomCount);
+    }
+  });
+
+  return new Uint8Array(buffer);
+};
+
+// ---------------------------------------------------------------------------
+// TRR (GROMACS full-precision): XDR, big-endian
+// ---------------------------------------------------------------------------
+
+export const readTRR = (buffer: ArrayBuffer, stride = 1): RawTrajectory => {
+  const view = new DataView(buffer);
+  const frames: RawFrame[] = [];
+  let offset = 0;
+  let atomCount = 0;
+  let index = 0;
+
+  while (offset + 4 <= buffer.byteLength) {
+    if (view.getInt32(offset) !== 1993) throw new Error(`Invalid TRR frame header at byte ${offset}.`);
+    offset += 4;
+    offset += 4; // Version string length (slen)
+    const stringLength = view.getInt32(offset);
+    offset += 4 + Math.ceil(stringLength / 4) * 4;
+
+    const sizes: number[] = [];
+    for (let i = 0; i < 13; i++) sizes.push(view.getInt32(offset + 4 * i));
+    offset += 13 * 4;
+    // ir, e, box, vir, pres, top, sym, x, v, f block sizes, then natoms
+    const [, , boxSize, virSize, presSize, , , xSize, vSize, fSize, natoms] = sizes;
+
+    // Real size follows from whichever block is present
+    const real = boxSize ? boxSize / 9 : xSize ? xSize / (3 * natoms) : vSize ? vSize / (3 * natoms) : fSize / (3 * natoms);
+    const readReal = (at: number) => (real === 8 ? view.getFloat64(at) : view.getFloat32(at));
+
+    const time = readReal(offset);
+    offset += 2 * real; // t, lambda
+    offset += boxSize + virSize + presSize;
+
+    if (xSize && index % stride === 0) {
+      const coordinates = new Float32Array(natoms * 3);
+      for (let i = 0; i < natoms * 3; i++) coordinates[i] = readReal(offset + i * real) * 10;
+      frames.push({ time, coordinates });
+    }
+    if (xSize) index++;
+    atomCount = natoms;
+    offset += xSize + vSize + fSize;
+  }
+
+  return { atomCount, frames, totalFrames: index };
+};
+
+// ---------------------------------------------------------------------------
+// XTC (GROMACS compressed): XDR with xdr3dfcoord compression
+// ---------------------------------------------------------------------------
+
+const MAGIC_INTS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 8, 10, 12, 16, 20, 25, 32, 40, 50, 64,
+  80, 101, 128, 161, 203, 256, 322, 406, 512, 645, 812, 1024, 1290,
+  1625, 2048, 2580, 3250, 4096, 5060, 6501, 8192, 10321, 13003,
+  16384, 20642, 26007, 32768, 41285, 52015, 65536, 82570, 104031,
+  131072, 165140, 208063, 262144, 330280, 416127, 524287, 660561,
+  832255, 1048576, 1321122, 1664510, 2097152, 2642245, 3329021,
+  4194304, 5284491, 6658042, 8388607, 10568983, 13316085, 16777216
+];
+const FIRST_IDX = 9;
+
+const sizeOfInt = (size: number) => {
+  let num = 1;
+  let bits = 0;
+  while (size >= num && bits < 32) {
+    bits++;
+    num *= 2;
+  }
+  return bits;
+};
+
+const sizeOfInts = (sizes: number[]) => {
+  const bytes = [1];
+  let byteCount = 1;
+  for (const size of sizes) {
+    let tmp = 0;
+    let k = 0;
+    for (; k < byteCount; k++) {
+      tmp = bytes[k] * size + tmp;
+      bytes[k] = tmp & 0xff;
+      tmp = Math.floor(tmp / 256);
+    }
+    while (tmp !== 0) {
+      bytes[k++] = tmp & 0xff;
+      tmp = Math.floor(tmp / 256);
+    }
+    byteCount = k;
+  }
+  let num = 1;
+  let bits = 0;
+  byteCount--;
+  while (bytes[byteCount] >= num) {
+    bits++;
+    num *= 2;
+  }
+  return bits + byteCount * 8;
+};
+
+class BitReader {
+  private count = 0;
+  private lastBits = 0;
+  private lastByte = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(bits: number): number {
+    const mask = bits >= 32 ? 0xffffffff : (1 << bits) - 1;
+    let num = 0;
+    let remaining = bits;
+    while (remaining >= 8) {
+      this.lastByte = ((this.lastByte << 8) | this.bytes[this.count++]) & 0xffff;
+      num |= (this.lastByte >> this.lastBits) << (remaining - 8);
+      remaining -= 8;
+    }
+    if (remaining > 0) {
+      if (this.lastBits < remaining) {
+        this.lastBits += 8;
+        this.lastByte = ((this.lastByte << 8) | this.bytes[this.count++]) & 0xffff;
+      }
+      this.lastBits -= remaining;
+      num |= (this.lastByte >> this.lastBits) & ((1 << remaining) - 1);
+    }
+    return (num & mask) >>> 0;
+  }
+
+  // Unpacks three integers that were multiplied together into a single big number
+  readInts(bits: number, sizes: number[], out: number[]) {
+    const bytes: number[] = [0, 0, 0, 0];
+    let byteCount = 0;
+    while (bits > 8) {
+      bytes[byteCount++] = this.read(8);
+      bits -= 8;
+    }
+    if (bits > 0) bytes[byteCount++] = this.read(bits);
+
+    for (let i = 2; i > 0; i--) {
+      let num = 0;
+      for (let j = byteCount - 1; j >= 0; j--) {
+        num = num * 256 + bytes[j];
+        const p = Math.floor(num / sizes[i]);
+        bytes[j] = p;
+        num -= p * sizes[i];
+      }
+      out[i] = num;
+    }
+    out[0] = (bytes[0] | (bytes[1] << 8) | (bytes[2] << 16) | (bytes[3] << 24)) >>> 0;
+  }
+}
+
+const decompressXTCCoordinates = (view: DataView, start: number, atomCount: number, out: Float32Array): number => {
+  let offset = start;
+  const precision = view.getFloat32(offset);
+  offset += 4;
+  const minInt = [view.getInt32(offset), view.getInt32(offset + 4), view.getInt32(offset + 8)];
+  const maxInt = [view.getInt32(offset + 12), view.getInt32(offset + 16), view.getInt32(offset + 20)];
+  offset += 24;
+
+  const sizeInt = [maxInt[0] - minInt[0] + 1, maxInt[1] - minInt[1] + 1, maxInt[2] - minInt[2] + 1];
+  let bitSize = 0;
+  const bitSizeInt = [0, 0, 0];
+  if ((sizeInt[0] | sizeInt[1] | sizeInt[2]) > 0xffffff) {
+    bitSizeInt[0] = sizeOfInt(sizeInt[0]);
+    bitSizeInt[1] = sizeOfInt(sizeInt[1]);
+    bitSizeInt[2] = sizeOfInt(sizeInt[2]);
+  } else {
+    bitSize = sizeOfInts(sizeInt);
+  }
+
+  let smallIdx = view.getInt32(offset);
+  offset += 4;
+  let smaller = MAGIC_INTS[Math.max(FIRST_IDX, smallIdx - 1)] >> 1;
+  let smallNum = MAGIC_INTS[smallIdx] >> 1;
+  let sizeSmall = [MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx]];
+
+  const byteCount = view.getInt32(offset);
+  offset += 4;
+  const reader = new BitReader(new Uint8Array(view.buffer, view.byteOffset + offset, byteCount));
+  const inv = 1 / precision;
+
+  const thisCoord = [0, 0, 0];
+  const prevCoord = [0, 0, 0];
+  let written = 0;
+  const emit = (c: number[]) => {
+    out[written++] = c[0] * inv;
+    out[written++] = c[1] * inv;
+    out[written++] = c[2] * inv;
+  };
+
+  let i = 0;
+  let run = 0;
+  while (i < atomCount) {
+    if (bitSize === 0) {
+      thisCoord[0] = reader.read(bitSizeInt[0]);
+      thisCoord[1] = reader.read(bitSizeInt[1]);
+      thisCoord[2] = reader.read(bitSizeInt[2]);
+    } else {
+      reader.readInts(bitSize, sizeInt, thisCoord);
+    }
+    i++;
+    thisCoord[0] += minInt[0];
+    thisCoord[1] += minInt[1];
+    thisCoord[2] += minInt[2];
+    prevCoord[0] = thisCoord[0];
+    prevCoord[1] = thisCoord[1];
+    prevCoord[2] = thisCoord[2];
+
+    const flag = reader.read(1);
+    let isSmaller = 0;
+    if (flag === 1) {
+      run = reader.read(5);
+      isSmaller = run % 3;
+      run -= isSmaller;
+      isSmaller--;
+    }
+
+    if (run > 0) {
+      for (let k = 0; k < run; k += 3) {
+        reader.readInts(smallIdx, sizeSmall, thisCoord);
+        i++;
+        thisCoord[0] += prevCoord[0] - smallNum;
+        thisCoord[1] += prevCoord[1] - smallNum;
+        thisCoord[2] += prevCoord[2] - smallNum;
+        if (k === 0) {
+          // The first small atom was swapped with the large one for better water compression
+          for (let d = 0; d < 3; d++) {
+            const tmp = thisCoord[d];
+            thisCoord[d] = prevCoord[d];
+            prevCoord[d] = tmp;
+          }
+          emit(prevCoord);
+        } else {
+          prevCoord[0] = thisCoord[0];
+          prevCoord[1] = thisCoord[1];
+          prevCoord[2] = thisCoord[2];
+        }
+        emit(thisCoord);
+      }
+    } else {
+      emit(thisCoord);
+    }
+
+    smallIdx += isSmaller;
+    if (isSmaller < 0) {
+      smallNum = smaller;
+      smaller = smallIdx > FIRST_IDX ? MAGIC_INTS[smallIdx - 1] >> 1 : 0;
+    } else if (isSmaller > 0) {
+      smaller = smallNum;
+      smallNum = MAGIC_INTS[smallIdx] >> 1;
+    }
+    sizeSmall = [MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx], MAGIC_INTS[smallIdx]];
+  }
+
+  return offset + Math.ceil(byteCount / 4) * 4;
+};
+
+export const readXTC = (buffer: ArrayBuffer, stride = 1): RawTrajectory => {
+  const view = new DataView(buffer);
+  const frames: RawFrame[] = [];
+  let offset = 0;
+  let atomCount = 0;
+  let index = 0;
+
+  while (offset + 4 <= buffer.byteLength) {
+    if (view.getInt32(offset) !== 1995) throw new Error(`Invalid XTC frame header at byte ${offset}.`);
+    const natoms = view.getInt32(offset + 4);
+    const time = view.getFloat32(offset + 12);
+    offset += 16 + 36; // magic, natoms, step, time, box[9]
+    offset += 4; // natoms repeated
+    atomCount = natoms;
+
+    const coordinates = new Float32Array(natoms * 3);
+    if (natoms <= 9) {
+      for (let i = 0; i < natoms * 3; i++) coordinates[i] = view.getFloat32(offset + 4 * i);
+      offset += natoms * 12;
+    } else {
+      offset = decompressXTCCoordinates(view, offset, natoms, coordinates);
+    }
+
+    if (index % stride === 0) {
+      for (let i = 0; i < coordinates.length; i++) coordinates[i] *= 10; // nm -> Å
+      frames.push({ time, coordinates });
+    }
+    index++;
+  }
+
+  return { atomCount, frames, totalFrames: index };
+};
+
+// Stride that keeps the decoded coordinates under `maxValues` floats
+export const estimateFrameStride = (atomCount: number, frameCount: number, maxValues = 30_000_000) =>
+  Math.max(1, Math.ceil((atomCount * 3 * frameCount) / maxValues));
@@ -0,0 +1,170 @@
+// Minimal ZIP support for project archives: entries are written uncompressed (trajectory
+// coordinates barely compress); reading also accepts deflated entries from other zip tools.
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, '/'-separated
+  data: Uint8Array | string; // Strings are stored as UTF-8
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+const ZIP64_MARKER = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date/time fields (2-second resolution, local time)
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+    if (offset + 30 + name.length + data.length >= ZIP64_MARKER) {
+      throw new Error('The archive would exceed 4 GB, which plain ZIP files cannot hold.');
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, 20, true); // Version needed: 2.0
+    lv.setUint16(6, UTF8_NAMES, true);
+    lv.setUint16(8, 0, true); // Stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, 20, true); // Made by: 2.0
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_NAMES, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, data);
+    central.push(header);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};
+
+const inflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read compressed archives; re-zip the files without compression.');
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads every file entry of a ZIP archive through its central directory. Stored and deflated
+ * entries are supported; encrypted, multi-disk and ZIP64 archives are rejected.
+ */
+export const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let p = buffer.byteLength - 22; p >= Math.max(0, buffer.byteLength - 22 - 0xffff); p--) {
+    if (view.getUint32(p, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = p;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP archive (no central directory found).');
+  if (view.getUint16(end + 4, true) !== 0 || view.getUint16(end + 6, true) !== 0) {
+    throw new Error('Multi-part ZIP archives are not supported.');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let p = view.getUint32(end + 16, true);
+  if (p === ZIP64_MARKER) throw new Error('ZIP64 archives are not supported.');
+
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > buffer.byteLength || view.getUint32(p, true) !== CENTRAL_HEADER) {
+      throw new Error('Corrupt ZIP archive (bad central directory entry).');
+    }
+    const flags = view.getUint16(p + 8, true);
+    const method = view.getUint16(p + 10, true);
+    const crc = view.getUint32(p + 16, true);
+    const compressedSize = view.getUint32(p + 20, true);
+    const size = view.getUint32(p + 24, true);
+    const nameLength = view.getUint16(p + 28, true);
+    const extraLength = view.getUint16(p + 30, true);
+    const commentLength = view.getUint16(p + 32, true);
+    const localOffset = view.getUint32(p + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, p + 46, nameLength));
+    p += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory entry
+    if (flags & 1) throw new Error(`"${name}" is encrypted; encrypted archives are not supported.`);
+    if (compressedSize === ZIP64_MARKER || size === ZIP64_MARKER || localOffset === ZIP64_MARKER) {
+      throw new Error('ZIP64 archives are not supported.');
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+      throw new Error(`Corrupt ZIP archive (bad local header for "${name}").`);
+    }
+
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (start + compressedSize > buffer.byteLength) throw new Error(`Truncated ZIP archive ("${name}" is cut off).`);
+    const raw = new Uint8Array(buffer, start, compressedSize);
+    let data: Uint8Array;
+    if (method === 0) data = raw;
+    else if (method === 8) data = await inflateRaw(raw);
+    else throw new Error(`"${name}" uses an unsupported compression method (${method}).`);
+
+    if (data.length !== size || crc32(data) !== crc) throw new Error(`Corrupt ZIP archive ("${name}" fails its checksum).`);
+    files.set(name, data);
+  }
+  return files;
+};
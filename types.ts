@@ -23,14 +23,24 @@ export enum CommandType {
     PROCESS_SEQUENCE = 'PROCESS_SEQUENCE',
     EVALUATE_MODEL = 'EVALUATE_MODEL',
     QUERY_STRUCTURE = 'QUERY_STRUCTURE', // New Command
+    PAUSE_SIMULATION = 'PAUSE_SIMULATION',
+    RESUME_SIMULATION = 'RESUME_SIMULATION',
+    STOP_SIMULATION = 'STOP_SIMULATION',
+    EXTEND_SIMULATION = 'EXTEND_SIMULATION',
+    SELECT_ATOMS = 'SELECT_ATOMS',
+    MEASURE = 'MEASURE',
+    COMPARE_STRUCTURES = 'COMPARE_STRUCTURES',
+    EDIT_LAYERS = 'EDIT_LAYERS',
+    EXPORT_IMAGE = 'EXPORT_IMAGE',
+    EXPORT_MOVIE = 'EXPORT_MOVIE',
     UNKNOWN = 'UNKNOWN'
 }
 
 export interface SimulationData {
     time: number;
     rmsd: number;
-    energy: number;
-    temperature: number;
+    energy?: number; // Absent for imported trajectories
+    temperature?: number;
 }
 
 export interface EvaluationMetrics {
@@ -41,12 +51,41 @@ export interface EvaluationMetrics {
     overallScore: number;
 }
 
-export interface Command {
-    type: CommandType;
-    params: Record<string, any>;
-    explanation: string;
+export type Representation = 'cartoon' | 'licorice' | 'spacefill' | 'surface' | 'ribbon';
+
+export type ColorScheme = 'residueindex' | 'chainid' | 'element' | 'hydrophobicity';
+
+// Run settings a request names explicitly; the rest come from the project's protocol. `duration` is production in ps.
+export type ProtocolRequest = Partial<Omit<SimulationProtocol, 'frameInterval'>> & { duration?: number };
+
+// Parameters of each command, checked at runtime by services/commandTools.ts
+export interface CommandParams {
+    [CommandType.LOAD_PDB]: { pdbId?: string; source?: StructureSourceId }; // No pdbId loads the demo structure
+    [CommandType.SET_REPRESENTATION]: { style: Representation };
+    [CommandType.SET_COLOR_SCHEME]: { color: ColorScheme };
+    [CommandType.TOGGLE_SPIN]: { active?: boolean }; // Toggles when unset
+    [CommandType.RUN_SIMULATION]: { protocol?: ProtocolRequest };
+    [CommandType.ANALYZE_DATA]: { selection?: string }; // Saved selection to fit the RMSD on
+    [CommandType.PROCESS_SEQUENCE]: { sequence?: string; name?: string };
+    [CommandType.EVALUATE_MODEL]: {};
+    [CommandType.QUERY_STRUCTURE]: {};
+    [CommandType.PAUSE_SIMULATION]: {};
+    [CommandType.RESUME_SIMULATION]: {};
+    [CommandType.STOP_SIMULATION]: {};
+    [CommandType.EXTEND_SIMULATION]: { duration?: number; steps?: number }; // Exactly one is set
+    [CommandType.SELECT_ATOMS]: { selection?: string; name?: string; style?: Representation; clear?: boolean }; // `clear` removes the highlight
+    [CommandType.MEASURE]: { atoms?: string[]; clear?: boolean }; // 2-4 atom specs such as "A:K48.CA"; `clear` removes all measurements
+    [CommandType.COMPARE_STRUCTURES]: { pdbIds?: string[]; source?: StructureSourceId; clear?: boolean }; // Superposed onto the loaded structure; `clear` leaves compare mode
+    [CommandType.EDIT_LAYERS]: { action: LayerAction; layer?: number; style?: Representation; selection?: string; color?: ColorScheme; opacity?: number; position?: number }; // `layer` and `position` count from 1, bottom first
+    [CommandType.EXPORT_IMAGE]: { width?: number; scale?: number; supersampling?: number; transparent?: boolean }; // PNG; `width` in pixels wins over `scale`, a multiple of the view size
+    [CommandType.EXPORT_MOVIE]: { format?: MovieFormat; motion?: MovieMotion; fps?: number; duration?: number }; // `duration` in seconds
+    [CommandType.UNKNOWN]: {};
 }
 
+export type Command = {
+    [T in CommandType]: { type: T; params: CommandParams[T]; explanation: string };
+}[CommandType];
+
 export interface StructureMetadata {
     title: string;
     method: string;
@@ -55,30 +94,315 @@ export interface StructureMetadata {
     releaseDate?: string;
 }
 
+export type StructureFormat = 'pdb' | 'cif' | 'gro' | 'sdf';
+
+// Coordinate-free topologies that pair with an imported trajectory
+export type TopologyFormat = 'psf' | 'prmtop';
+
+export type TrajectoryFormat = 'dcd' | 'xtc' | 'trr' | 'pdb';
+
+export type StructureSourceId = 'rcsb' | 'alphafold' | 'pdbe' | 'custom' | 'mirror';
+
+export interface LocalStructure {
+    fileName: string;
+    format: StructureFormat;
+    data: string;
+}
+
+// Parsed coordinate model (see services/structureModel.ts)
+export interface Atom {
+    serial: number;
+    name: string;
+    element: string;
+    resName: string;
+    chainId: string;
+    resSeq: number;
+    insCode: string;
+    x: number;
+    y: number;
+    z: number;
+    occupancy: number;
+    bFactor: number;
+    isHetero: boolean;
+}
+
+export interface Residue {
+    name: string;
+    chainId: string;
+    seq: number;
+    insCode: string;
+    isHetero: boolean;
+    isWater: boolean;
+    isLigand: boolean;
+    atoms: Atom[];
+}
+
+export interface Chain {
+    id: string;
+    residues: Residue[];
+}
+
+export interface StructureModel {
+    id: number;
+    atoms: Atom[];
+    chains: Chain[];
+    ligands: Residue[];
+    waters: Residue[];
+}
+
+export interface ParsedStructure {
+    format: StructureFormat | TopologyFormat;
+    title?: string;
+    method?: string;
+    resolution?: string;
+    models: StructureModel[];
+}
+
+export interface StructureStats {
+    atomCount: number;
+    residueCount: number; // Polymer residues only (no ligands/waters)
+    chainCount: number;
+    ligandCount: number;
+    waterCount: number;
+    modelCount: number;
+    ligandNames: string[];
+}
+
+export interface ActiveMetadata extends StructureMetadata, StructureStats {}
+
 export type SimulationStage = 'minimization' | 'equilibration' | 'production';
 
+export interface TrajectoryFrame {
+    time: number; // ps
+    stage?: SimulationStage;
+    coordinates: Float32Array; // Flat xyz, same order as Trajectory.atoms
+}
+
+// Provenance of a trajectory read from files rather than produced by the MD engine
+export interface TrajectorySource {
+    topologyFileName: string;
+    fileName: string;
+    format: TrajectoryFormat;
+    totalFrames: number; // Frames in the file; only every `stride`-th frame is kept
+    stride: number;
+}
+
+export interface Trajectory {
+    atoms: Atom[]; // Topology of the stored coordinates; atom x/y/z hold the input (crystal) positions
+    frames: TrajectoryFrame[];
+    source?: TrajectorySource;
+}
+
+export type RMSDReference = 'first' | 'minimized' | 'crystal';
+
+export type RMSDSelection = 'calpha' | 'backbone' | 'heavy' | 'range' | 'named';
+
+export interface RMSDSettings {
+    reference: RMSDReference;
+    selection: RMSDSelection;
+    range?: { chainId?: string; start: number; end: number }; // Used when selection is 'range'
+    named?: NamedSelection; // Used when selection is 'named'; a copy, so the fit stays reproducible
+}
+
+// Atom selection saved under a name (see services/atomSelection.ts); the expression never refers to other names
+export interface NamedSelection {
+    name: string;
+    expression: string;
+}
+
+export type MeasurementKind = 'distance' | 'angle' | 'dihedral';
+
+// An atom by residue and name, so the same atom is found in the parsed model, the viewer and trajectories
+export interface AtomRef {
+    chainId: string;
+    resSeq: number;
+    insCode: string;
+    resName: string;
+    name: string;
+}
+
+export interface Measurement {
+    id: string;
+    kind: MeasurementKind;
+    atoms: AtomRef[]; // 2, 3 or 4 atoms, in measurement order
+    tracked: boolean; // Plotted over the trajectory in the Analysis view
+}
+
+// Cα distance of one residue of a compared structure to its aligned reference residue after superposition
+export interface ResidueDeviation {
+    chainId: string;
+    resSeq: number;
+    insCode: string;
+    deviation: number; // Å
+}
+
+export interface StructureComparison {
+    rmsd: number; // Å over the aligned Cα pairs
+    tmScore: number; // Normalized by the reference length
+    alignedResidues: number;
+    referenceResidues: number;
+    identity: number; // Fraction of aligned pairs with the same residue type
+    transform: number[]; // Row-major 4x4 matrix moving the compared structure onto the reference
+    deviations: ResidueDeviation[];
+}
+
+// A structure shown next to the loaded one in compare mode
+export interface ComparedStructure extends StructureComparison {
+    pdbId: string;
+    source?: StructureSourceId;
+}
+
+export type MovieFormat = 'webm' | 'gif';
+
+// What moves in an exported movie: the camera turning about the vertical axis, or the trajectory playing
+export type MovieMotion = 'spin' | 'trajectory';
+
+export type LayerAction = 'add' | 'update' | 'remove' | 'show' | 'hide' | 'move' | 'clear';
+
+// A representation of part of the structure, drawn over the base representation; later layers are drawn on top
+export interface RepresentationLayer {
+    id: string;
+    representation: Representation;
+    selection: string; // Selection expression with saved names resolved
+    colorScheme: ColorScheme;
+    opacity: number; // 0 to 1
+    visible: boolean;
+}
+
+// Part of the structure drawn on top of the main representation
+export interface SelectionHighlight {
+    expression: string;
+    style: Representation;
+}
+
+export type Thermostat = 'berendsen' | 'langevin';
+
+export type Barostat = 'berendsen' | 'montecarlo';
+
+export type Ensemble = 'NVE' | 'NVT' | 'NPT';
+
+export interface SimulationProtocol {
+    ensemble: Ensemble; // Applies to production; equilibration always heats under a thermostat
+    temperature: number; // K
+    pressure: number; // bar, NPT only
+    timestep: number; // ps
+    minimizationSteps: number;
+    equilibrationSteps: number;
+    productionSteps: number;
+    frameInterval: number; // Integration steps between streamed frames
+    thermostat: Thermostat;
+    barostat: Barostat;
+    cutoff: number; // Å, non-bonded interactions
+    seed: number;
+}
+
+// Full engine state; enough to continue a run bit-for-bit in a fresh worker
+export interface SimulationCheckpoint {
+    protocol: SimulationProtocol;
+    atoms: Atom[]; // Bead topology; x/y/z hold the native (reference) positions
+    stage: SimulationStage;
+    stageStep: number; // Steps completed within `stage`
+    step: number;
+    time: number; // ps
+    frameCount: number;
+    positions: Float64Array;
+    velocities: Float64Array;
+    randomState: number;
+    minimizer: { stepSize: number; energy: number };
+    finished: boolean; // Production reached protocol.productionSteps
+    savedAt: number;
+}
+
+// Messages exchanged with services/mdWorker.ts
+export type MDWorkerRequest =
+    | { type: 'start'; structure: ParsedStructure; protocol: SimulationProtocol }
+    | { type: 'restore'; checkpoint: SimulationCheckpoint }
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'stop' }
+    | { type: 'extend'; steps: number };
+
+export type MDWorkerMessage =
+    | { type: 'ready'; atoms: Atom[]; contactCount: number }
+    | { type: 'frame'; stage: SimulationStage; progress: number; data: SimulationData; coordinates: Float32Array; log?: string }
+    | { type: 'checkpoint'; checkpoint: SimulationCheckpoint }
+    | { type: 'complete'; stopped: boolean }
+    | { type: 'error'; message: string };
+
 export interface MolecularState {
     pdbId: string;
-    representation: 'cartoon' | 'licorice' | 'spacefill' | 'surface' | 'ribbon';
-    colorScheme: 'residueindex' | 'chainid' | 'element' | 'hydrophobicity';
+    structureSource?: StructureSourceId; // Where pdbId is fetched from; inferred when unset
+    representation: Representation;
+    colorScheme: ColorScheme;
     isSpinning: boolean;
     simulationRunning: boolean;
     simulationProgress: number;
     simulationStage: SimulationStage; 
+    simulationPaused: boolean;
     simulationData: SimulationData[];
     simulationLogs: string[];
+    trajectory?: Trajectory; // Per-frame coordinates aligned 1:1 with simulationData
+    rmsdSettings: RMSDSettings;
+    protocol: SimulationProtocol; // Settings for the next run
+    runProtocol?: SimulationProtocol; // Settings the current trajectory was produced with
+    checkpoint?: SimulationCheckpoint; // Latest engine state of the current run
     customData?: StructureMetadata;
+    localStructure?: LocalStructure; // Set when the structure came from an uploaded file
+    parsedStructure?: ParsedStructure;
+    activeMetadata?: ActiveMetadata;
     evaluationData?: EvaluationMetrics;
+    evaluationExplanation?: string; // Methodology text shown with evaluationData
+    selections?: NamedSelection[];
+    highlight?: SelectionHighlight;
+    measurements?: Measurement[];
+    comparisons?: ComparedStructure[];
+    layers?: RepresentationLayer[];
 }
 
 export interface Project {
     id: string;
     name: string;
     pdbId: string;
+    structureSource?: StructureSourceId;
+    localStructure?: LocalStructure;
     lastModified: number;
     status: 'active' | 'completed' | 'archived';
 }
 
+// Molecular state fields kept per project; the rest is transient or re-derived from the structure
+export type PersistedMolecularState = Pick<MolecularState,
+    'pdbId' | 'structureSource' | 'representation' | 'colorScheme' | 'simulationStage' | 'simulationProgress' |
+    'simulationData' | 'simulationLogs' | 'rmsdSettings' | 'protocol' | 'runProtocol' | 'checkpoint' | 'customData' | 'evaluationData' |
+    'evaluationExplanation' | 'selections' | 'highlight' | 'measurements' | 'comparisons' | 'layers'>;
+
+// One chat request and what became of the commands it was parsed into; recent turns are
+// sent with the next request so follow-ups like "color that by chain" keep their referent
+export interface ConversationTurn {
+    request: string;
+    steps: { command: Command; status: 'done' | 'failed' | 'skipped' }[];
+    timestamp: number;
+}
+
+// A project's conversation and results as stored by services/projectStore.ts
+export interface ProjectSession {
+    projectId: string;
+    messages: Message[];
+    turns?: ConversationTurn[]; // Absent in sessions saved before conversation memory
+    state: PersistedMolecularState;
+    trajectory?: Trajectory;
+    historyOffset: number; // simulationData length minus the checkpoint's frame count
+    interrupted: boolean; // A run was in progress at the last save
+}
+
+// Everything a project owns while open in this tab; runs keep updating it when another project is shown
+export interface ProjectWorkspace {
+    messages: Message[];
+    turns: ConversationTurn[];
+    molecularState: MolecularState;
+    historyOffset: number;
+    hasInterruptedRun: boolean; // Restored session whose run was cut off
+}
+
 // Extend Window to include NGL
 declare global {
     interface Window {
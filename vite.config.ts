@@ -11,8 +11,9 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.STRUCTURE_SOURCE': JSON.stringify(env.STRUCTURE_SOURCE),
+        'process.env.STRUCTURE_SOURCE_URL': JSON.stringify(env.STRUCTURE_SOURCE_URL),
+        'process.env.STRUCTURE_MIRROR_URL': JSON.stringify(env.STRUCTURE_MIRROR_URL)
       },
       resolve: {
         alias: {